@@ -51,7 +51,8 @@ try {
 console.log('🔧 Building CLI with tsdown...')
 try {
   await tsdownBuild({
-    entry: { 'cli': 'src/cli/index.ts' },
+    // The tokenizer worker is loaded by URL at runtime, so it ships as its own entry
+    entry: { 'cli': 'src/cli/index.ts', 'tokenize-worker': 'src/tokenize-worker.ts' },
     format: ['esm'],
     outDir: OUT_DIR,
     dts: false,
@@ -78,7 +79,7 @@ if (process.versions.bun) {
   console.log('⚡ Detected Bun runtime — building Bun optimized bundle with tsdown...')
   try {
     await tsdownBuild({
-      entry: ['./src/index.ts'],
+      entry: ['./src/index.ts', './src/tokenize-worker.ts'],
       outDir: BUN_OUT_DIR,
       minify: true,
       platform: 'node', // Suitable for Bun
@@ -1,10 +1,13 @@
 /**
  * Budget Module Tests
  */
-import { describe, test, expect } from 'bun:test';
-import { fitToBudget, getBudgetSummary } from '../budget';
+import { describe, test, expect, spyOn } from 'bun:test';
+import { fitToBudget, getBudgetSummary, getFidelitySummary } from '../budget';
+import { parseSymbols, type CodeSymbol } from '../parser';
 import type { ScanResult } from '../scanner';
 import { countTokens } from '../tokenizer';
+import * as formatter from '../formatter';
+import { format, type FormatOptions } from '../formatter';
 
 const createMockResult = (path: string, content: string, language: string): ScanResult => ({
     path,
@@ -52,6 +55,263 @@ describe('Budget', () => {
         });
     });
 
+    describe('fitToBudget with formatOptions', () => {
+        const manyResults = Array.from({ length: 30 }, (_, i) =>
+            createMockResult(`src/module${i}/file${i}.ts`, `export const value${i} = ${i};\n// a < b && c > d\n`.repeat(i + 1), 'typescript')
+        );
+
+        for (const formatOptions of [
+            { format: 'markdown' },
+            { format: 'xml' },
+            { format: 'markdown', includeTree: false, compact: true },
+        ] as FormatOptions[]) {
+            test(`should keep ${formatOptions.format} output within the budget`, () => {
+                for (const maxTokens of [200, 500, 1000, 3000]) {
+                    const result = fitToBudget(manyResults, { maxTokens, formatOptions });
+                    const outputTokens = countTokens(format(result.included, formatOptions)).tokens;
+
+                    expect(outputTokens).toBeLessThanOrEqual(maxTokens);
+                    expect(result.totalTokens).toBe(outputTokens);
+                    expect(result.included.length + result.excluded.length).toBe(manyResults.length);
+                }
+            });
+        }
+
+        test('should count formatting that raw token counts miss', () => {
+            const raw = fitToBudget(manyResults, { maxTokens: 1000 });
+            const formatted = fitToBudget(manyResults, { maxTokens: 1000, formatOptions: { format: 'xml' } });
+
+            expect(formatted.included.length).toBeLessThan(raw.included.length);
+            expect(countTokens(format(raw.included, { format: 'xml' })).tokens).toBeGreaterThan(1000);
+        });
+
+        test('should measure the output a logarithmic number of times when estimates run low', () => {
+            const estimate = spyOn(formatter, 'estimateFormatCost').mockImplementation(results => ({
+                frame: 0,
+                files: results.map(() => 1),
+            }));
+            const render = spyOn(formatter, 'format');
+            try {
+                const result = fitToBudget(manyResults, { maxTokens: 500, formatOptions: { format: 'markdown' } });
+                const measured = render.mock.calls.length;
+
+                // One full measurement, then a binary search over the 30 files
+                expect(measured).toBeGreaterThan(1);
+                expect(measured).toBeLessThanOrEqual(2 + Math.ceil(Math.log2(manyResults.length)));
+                expect(result.excluded.length).toBeGreaterThan(0);
+                expect(countTokens(format(result.included, { format: 'markdown' })).tokens).toBeLessThanOrEqual(500);
+            } finally {
+                estimate.mockRestore();
+                render.mockRestore();
+            }
+        });
+    });
+
+    describe('fitToBudget with degrade', () => {
+        const source = (i: number) => [
+            `// Module ${i}: helpers for the ${i}th feature`,
+            '',
+            `export function compute${i}(input: number): number {`,
+            '    // Scale the input and add an offset',
+            `    const scaled = input * ${i};`,
+            `    return scaled + ${i * 7};`,
+            '}',
+            '',
+        ].join('\n').repeat(4);
+        const files = Array.from({ length: 12 }, (_, i) => createMockResult(`src/feature${i}.ts`, source(i), 'typescript'));
+        let symbols: Map<string, CodeSymbol[]>;
+
+        const run = (maxTokens: number) => {
+            const formatOptions: FormatOptions = { format: 'markdown', symbols };
+            const result = fitToBudget(files, { maxTokens, formatOptions, degrade: true });
+            return { result, outputTokens: countTokens(format(result.included, formatOptions)).tokens };
+        };
+
+        test('should keep every file when the budget allows', async () => {
+            symbols = new Map();
+            for (const file of files) symbols.set(file.path, await parseSymbols(file.content, file.language));
+
+            const { result } = run(100000);
+            expect(result.fidelity.every(f => f.fidelity === 'full')).toBe(true);
+            expect(result.excluded).toHaveLength(0);
+        });
+
+        test('should walk down the ladder before excluding anything', () => {
+            const full = run(100000).result.totalTokens;
+            let previousLevels = 0;
+
+            for (const maxTokens of [Math.floor(full * 0.9), Math.floor(full * 0.6), Math.floor(full * 0.3), 300]) {
+                const { result, outputTokens } = run(maxTokens);
+                const levels = result.fidelity.reduce((sum, f) =>
+                    sum + ['full', 'compact', 'signatures', 'path', 'excluded'].indexOf(f.fidelity), 0);
+
+                expect(outputTokens).toBeLessThanOrEqual(maxTokens);
+                expect(levels).toBeGreaterThanOrEqual(previousLevels);
+                previousLevels = levels;
+            }
+        });
+
+        test('should compact files before cutting any to signatures', () => {
+            const full = run(100000).result.totalTokens;
+            const { result } = run(Math.floor(full * 0.9));
+            const levels = new Set(result.fidelity.map(f => f.fidelity));
+
+            expect(levels.has('compact')).toBe(true);
+            expect(levels.has('signatures') || levels.has('path') || levels.has('excluded')).toBe(false);
+        });
+
+        test('should keep files as path lines before excluding them', () => {
+            const { result, outputTokens } = run(300);
+            expect(outputTokens).toBeLessThanOrEqual(300);
+            expect(result.fidelity.some(f => f.fidelity === 'path')).toBe(true);
+            expect(result.included.every(r => r.fidelity !== undefined)).toBe(true);
+            expect(getFidelitySummary(result.fidelity)).toMatch(/\d+ path/);
+        });
+
+        test('should shorten low-priority files first', () => {
+            const formatOptions: FormatOptions = { format: 'markdown', symbols };
+            const full = run(100000).result.totalTokens;
+            const result = fitToBudget(files, {
+                maxTokens: Math.floor(full * 0.5),
+                formatOptions,
+                degrade: true,
+                priorityPatterns: ['feature3'],
+            });
+
+            // Everything is compacted first; only then are low-priority files cut further
+            expect(result.fidelity.find(f => f.path === 'src/feature3.ts')!.fidelity).toBe('compact');
+            expect(result.fidelity.some(f => f.fidelity === 'signatures')).toBe(true);
+        });
+    });
+
+    describe('fitToBudget with the value strategy', () => {
+        const sized = (path: string, words: number) => createMockResult(path, 'word '.repeat(words), 'typescript');
+        const scoreOf = (scores: Record<string, number>) => (result: ScanResult) => scores[result.path] ?? 0;
+
+        test('should return the score of every file in input order', () => {
+            const result = fitToBudget(mockResults, {
+                maxTokens: 10000,
+                strategy: 'value',
+                scorer: scoreOf({ 'small.ts': 1, 'large.ts': 3 }),
+            });
+
+            expect(result.scores).toEqual([
+                { path: 'small.ts', score: 1 },
+                { path: 'medium.ts', score: 0 },
+                { path: 'large.ts', score: 3 },
+            ]);
+        });
+
+        test('should maximize the score-weighted tokens, not take the best file first', () => {
+            const files = [sized('best.ts', 60), sized('b.ts', 50), sized('c.ts', 50)];
+            const config = {
+                maxTokens: files[1].tokenInfo.tokens + files[2].tokenInfo.tokens,
+                scorer: scoreOf({ 'best.ts': 7, 'b.ts': 5, 'c.ts': 5 }),
+            };
+
+            expect(fitToBudget(files, config).included.map(r => r.path)).toEqual(['best.ts']);
+            expect(fitToBudget(files, { ...config, strategy: 'value' }).included.map(r => r.path).sort())
+                .toEqual(['b.ts', 'c.ts']);
+        });
+
+        test('should prefer one important module over many small files', () => {
+            const small = Array.from({ length: 30 }, (_, i) => sized(`src/index${i}.ts`, 10));
+            const files = [sized('src/core.ts', 300), ...small];
+            const result = fitToBudget(files, {
+                maxTokens: files[0].tokenInfo.tokens,
+                strategy: 'value',
+                scorer: result => result.path === 'src/core.ts' ? 2 : 1,
+            });
+
+            expect(result.included.map(r => r.path)).toEqual(['src/core.ts']);
+        });
+
+        test('should fill leftover room with unscored files', () => {
+            const files = [sized('core.ts', 40), sized('extra.ts', 5)];
+            const result = fitToBudget(files, {
+                maxTokens: 1000,
+                strategy: 'value',
+                scorer: scoreOf({ 'core.ts': 1 }),
+            });
+
+            expect(result.included.length).toBe(2);
+        });
+
+        test('should keep formatted output within the budget', () => {
+            const files = Array.from({ length: 8 }, (_, i) => sized(`src/f${i}.ts`, 20 + i * 15));
+            const formatOptions: FormatOptions = { format: 'xml' };
+            const maxTokens = 400;
+            const result = fitToBudget(files, {
+                maxTokens,
+                formatOptions,
+                strategy: 'value',
+                scorer: result => result.content.length,
+            });
+
+            expect(countTokens(format(result.included, formatOptions)).tokens).toBeLessThanOrEqual(maxTokens);
+            expect(result.totalTokens).toBeLessThanOrEqual(maxTokens);
+        });
+    });
+
+    describe('fitToBudget with priority rules and quotas', () => {
+        const sized = (path: string, words: number) => createMockResult(path, 'word '.repeat(words), 'typescript');
+        const files = [
+            sized('docs/a.md', 30),
+            sized('docs/b.md', 30),
+            sized('src/core/main.ts', 40),
+            sized('src/util.ts', 20),
+            sized('fixtures/big.ts', 5),
+        ];
+        const paths = (result: { included: ScanResult[] }) => result.included.map(r => r.path);
+
+        test('should order files by the first matching rule', () => {
+            const result = fitToBudget(files, { maxTokens: 10000, priorityPatterns: ['src/core/**=10', '**/*.md=-5'] });
+
+            expect(paths(result)[0]).toBe('src/core/main.ts');
+            expect(paths(result).slice(-2).sort()).toEqual(['docs/a.md', 'docs/b.md']);
+            expect(result.scores.find(s => s.path === 'docs/a.md')!.score).toBe(-5);
+        });
+
+        test('should cap the tokens a rule may take and leave out max=0', () => {
+            for (const strategy of ['greedy', 'value'] as const) {
+                const result = fitToBudget(files, {
+                    maxTokens: 10000,
+                    priorityPatterns: ['docs/**:max=40', 'fixtures:max=0'],
+                    strategy,
+                });
+
+                expect(paths(result).filter(p => p.startsWith('docs/')).length).toBe(1);
+                expect(paths(result)).not.toContain('fixtures/big.ts');
+                expect(result.included.length).toBe(3);
+            }
+        });
+
+        test('should limit each top-level directory to its quota', () => {
+            const result = fitToBudget(files, { maxTokens: 10000, dirQuota: 45 });
+            const tokensIn = (dir: string) => result.included
+                .filter(r => r.path.startsWith(dir))
+                .reduce((sum, r) => sum + r.tokenInfo.tokens, 0);
+
+            expect(tokensIn('docs/')).toBeLessThanOrEqual(45);
+            expect(tokensIn('src/')).toBeLessThanOrEqual(45);
+            expect(paths(result)).toContain('fixtures/big.ts');
+        });
+
+        test('should shorten files over a quota when degrading', () => {
+            const formatOptions: FormatOptions = { format: 'markdown' };
+            const result = fitToBudget(files, {
+                maxTokens: 100000,
+                formatOptions,
+                degrade: true,
+                priorityPatterns: ['docs/**:max=40'],
+            });
+
+            const docs = result.fidelity.filter(f => f.path.startsWith('docs/'));
+            expect(docs.reduce((sum, f) => sum + f.tokens, 0)).toBeLessThanOrEqual(40);
+            expect(result.fidelity.find(f => f.path === 'src/util.ts')!.fidelity).toBe('full');
+        });
+    });
+
     describe('getBudgetSummary', () => {
         test('should format summary correctly', () => {
             const result = fitToBudget(mockResults, { maxTokens: 10000 });
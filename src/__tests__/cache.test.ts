@@ -0,0 +1,76 @@
+/**
+ * Cache Module Tests
+ */
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import { TokenCache, clearCache, hashContent } from '../cache';
+import { scan } from '../scanner';
+import { mkdir, writeFile, rm, readdir } from 'fs/promises';
+import { join } from 'path';
+
+const TEST_DIR = join(import.meta.dir, '__fixtures_cache__');
+const CACHE_DIR = join(TEST_DIR, '.cache');
+const PROJECT_DIR = join(TEST_DIR, 'project');
+
+describe('TokenCache', () => {
+    beforeAll(async () => {
+        await mkdir(PROJECT_DIR, { recursive: true });
+        await writeFile(join(PROJECT_DIR, 'main.ts'), 'console.log("main");');
+    });
+
+    afterAll(async () => {
+        await rm(TEST_DIR, { recursive: true, force: true });
+    });
+
+    test('should persist token counts across instances', async () => {
+        const cache = await TokenCache.open(PROJECT_DIR, { cacheDir: CACHE_DIR });
+        cache.setTokens('a.ts', 'const a = 1;', { chars: 12, lines: 1, tokens: 5, tokenizer: 'o200k_base' });
+        await cache.save();
+
+        const reopened = await TokenCache.open(PROJECT_DIR, { cacheDir: CACHE_DIR });
+        expect(reopened.getTokens('a.ts', 'const a = 1;')?.tokens).toBe(5);
+    });
+
+    test('should miss when content changes', async () => {
+        const cache = await TokenCache.open(PROJECT_DIR, { cacheDir: CACHE_DIR });
+        expect(cache.getTokens('a.ts', 'const a = 2;')).toBeUndefined();
+    });
+
+    test('should invalidate entries for a different tokenizer', async () => {
+        const cache = await TokenCache.open(PROJECT_DIR, { cacheDir: CACHE_DIR, tokenizer: 'other' });
+        expect(cache.getTokens('a.ts', 'const a = 1;')).toBeUndefined();
+    });
+
+    test('should store symbols alongside tokens', async () => {
+        const cache = await TokenCache.open(PROJECT_DIR, { cacheDir: CACHE_DIR });
+        const symbol = { name: 'a', kind: 'variable' as const, startLine: 1, endLine: 1, signature: 'const a', content: 'const a = 1;', tokens: 5 };
+        cache.setSymbols('a.ts', 'const a = 1;', [symbol]);
+        await cache.save();
+
+        const reopened = await TokenCache.open(PROJECT_DIR, { cacheDir: CACHE_DIR });
+        expect(reopened.getSymbols('a.ts', 'const a = 1;')).toEqual([symbol]);
+        expect(reopened.getTokens('a.ts', 'const a = 1;')?.tokens).toBe(5);
+    });
+
+    test('should serve scan() token counts from the cache', async () => {
+        const content = 'console.log("main");';
+        const cache = await TokenCache.open(PROJECT_DIR, { cacheDir: CACHE_DIR });
+        cache.setTokens('main.ts', content, { chars: content.length, lines: 1, tokens: 999, tokenizer: 'o200k_base' });
+
+        const results = await scan({ cwd: PROJECT_DIR, patterns: ['**/*.ts'], cache });
+        expect(results[0].tokenInfo.tokens).toBe(999);
+    });
+
+    test('should clear the cache directory', async () => {
+        const cache = await TokenCache.open(PROJECT_DIR, { cacheDir: CACHE_DIR });
+        cache.setTokens('b.ts', 'b', { chars: 1, lines: 1, tokens: 1, tokenizer: 'o200k_base' });
+        await cache.save();
+
+        await clearCache(CACHE_DIR);
+        await expect(readdir(CACHE_DIR)).rejects.toThrow();
+    });
+
+    test('hashContent should be stable', () => {
+        expect(hashContent('abc')).toBe(hashContent('abc'));
+        expect(hashContent('abc')).not.toBe(hashContent('abd'));
+    });
+});
@@ -1,10 +1,12 @@
 /**
  * Chunker Module Tests
  */
-import { describe, test, expect } from 'bun:test';
-import { splitToChunks, getChunkHeader } from '../chunker';
+import { describe, test, expect, spyOn } from 'bun:test';
+import { splitToChunks, splitFile, getChunkHeader, formatChunk } from '../chunker';
 import type { ScanResult } from '../scanner';
+import { parseSymbols } from '../parser';
 import { countTokens } from '../tokenizer';
+import * as formatter from '../formatter';
 
 const createMockResult = (path: string, content: string, language: string): ScanResult => ({
     path,
@@ -13,6 +15,36 @@ const createMockResult = (path: string, content: string, language: string): Scan
     tokenInfo: countTokens(content),
 });
 
+/** A function of roughly `statements` lines */
+const createFunction = (name: string, statements: number) =>
+    `export function ${name}(input: number): number {\n`
+    + Array.from({ length: statements }, (_, i) => `    input = input * ${i + 2} + ${name.length};`).join('\n')
+    + '\n    return input;\n}\n';
+
+const largeModule = [
+    "import { readFile } from 'fs/promises';",
+    "import type { Options } from './options';",
+    '',
+    createFunction('first', 30),
+    '/** Second step */',
+    createFunction('second', 30),
+    createFunction('third', 30),
+].join('\n');
+
+const largeClass = [
+    "import { EventEmitter } from 'events';",
+    '',
+    'export class Pipeline extends EventEmitter {',
+    ...Array.from({ length: 6 }, (_, m) => [
+        `    step${m}(value: number): number {`,
+        ...Array.from({ length: 15 }, (_, i) => `        value = value * ${i + 3} - ${m};`),
+        '        return value;',
+        '    }',
+        '',
+    ].join('\n')),
+    '}',
+].join('\n');
+
 const mockResults: ScanResult[] = [
     createMockResult('a.ts', 'const a = 1;', 'typescript'),
     createMockResult('b.ts', 'const b = 2;', 'typescript'),
@@ -45,6 +77,64 @@ describe('Chunker', () => {
             }
         });
 
+        test('should keep formatted chunks within the limit', () => {
+            const results = Array.from({ length: 20 }, (_, i) =>
+                createMockResult(`src/dir${i % 4}/file${i}.ts`, `export const value${i} = "${'x'.repeat(i * 8)}";\n`.repeat(3), 'typescript')
+            );
+            const formatOptions = { format: 'xml' as const };
+            const chunks = splitToChunks(results, { maxTokensPerChunk: 300, formatOptions });
+
+            expect(chunks.flatMap(c => c.files).length).toBe(results.length);
+            for (const chunk of chunks) {
+                const tokens = countTokens(formatChunk(chunk, formatOptions)).tokens;
+                expect(tokens).toBeLessThanOrEqual(300);
+                expect(chunk.tokens).toBe(tokens);
+                expect(chunk.total).toBe(chunks.length);
+            }
+        });
+
+        test('should pass overshooting files on to the next chunk when estimates run low', () => {
+            const results = Array.from({ length: 20 }, (_, i) =>
+                createMockResult(`src/file${i}.ts`, `export const value${i} = "${'x'.repeat(40)}";\n`.repeat(3), 'typescript')
+            );
+            const formatOptions = { format: 'markdown' as const };
+            const accurate = splitToChunks(results, { maxTokensPerChunk: 300, formatOptions });
+
+            const estimate = spyOn(formatter, 'estimateFormatCost').mockImplementation(files => ({
+                frame: 0,
+                files: files.map(() => 1),
+            }));
+            try {
+                const chunks = splitToChunks(results, { maxTokensPerChunk: 300, formatOptions });
+
+                expect(chunks.flatMap(c => c.files)).toEqual(results);
+                expect(chunks.length).toBeLessThanOrEqual(accurate.length + 1);
+                for (const chunk of chunks) {
+                    expect(countTokens(formatChunk(chunk, formatOptions)).tokens).toBeLessThanOrEqual(300);
+                    expect(chunk.total).toBe(chunks.length);
+                }
+            } finally {
+                estimate.mockRestore();
+            }
+        });
+
+        test('should format each chunk once per measurement', () => {
+            const results = Array.from({ length: 12 }, (_, i) =>
+                createMockResult(`src/file${i}.ts`, `export const value${i} = "${'x'.repeat(40)}";\n`.repeat(3), 'typescript')
+            );
+            const formatOptions = { format: 'markdown' as const };
+
+            const formatSpy = spyOn(formatter, 'format');
+            try {
+                const chunks = splitToChunks(results, { maxTokensPerChunk: 100000, formatOptions });
+                expect(chunks).toHaveLength(1);
+                expect(formatSpy).toHaveBeenCalledTimes(1);
+                expect(chunks[0].tokens).toBe(countTokens(formatChunk(chunks[0], formatOptions)).tokens);
+            } finally {
+                formatSpy.mockRestore();
+            }
+        });
+
         test('should track tokens per chunk', () => {
             const chunks = splitToChunks(mockResults, { maxTokensPerChunk: 10000 });
 
@@ -52,6 +142,173 @@ describe('Chunker', () => {
         });
     });
 
+    describe('splitFile', () => {
+        test('should start parts at symbol boundaries', async () => {
+            const result = createMockResult('src/steps.ts', largeModule, 'typescript');
+            const symbols = await parseSymbols(largeModule, 'typescript');
+            const parts = splitFile(result, 400, { symbols });
+            const lines = largeModule.split('\n');
+
+            expect(parts.length).toBeGreaterThan(1);
+            expect(parts[0].range!.startLine).toBe(1);
+            for (let i = 1; i < parts.length; i++) {
+                const first = lines[parts[i].range!.startLine - 1];
+                expect(first.startsWith('export function') || first.startsWith('/**')).toBe(true);
+                expect(parts[i].range!.startLine).toBe(parts[i - 1].range!.endLine + 1);
+            }
+            expect(parts.map(p => p.range!.part)).toEqual(parts.map((_, i) => ({ index: i + 1, total: parts.length })));
+            for (const part of parts) {
+                expect(part.tokenInfo.tokens).toBeLessThanOrEqual(400);
+            }
+        });
+
+        test('should keep doc comments with the symbol below them', async () => {
+            const result = createMockResult('src/steps.ts', largeModule, 'typescript');
+            const parts = splitFile(result, 400, { symbols: await parseSymbols(largeModule, 'typescript') });
+
+            const second = parts.find(p => p.content.includes('export function second'))!;
+            expect(second.content).toContain('/** Second step */\nexport function second');
+        });
+
+        test('should repeat imports and the enclosing class signature', async () => {
+            const result = createMockResult('src/pipeline.ts', largeClass, 'typescript');
+            const parts = splitFile(result, 250, { symbols: await parseSymbols(largeClass, 'typescript') });
+
+            expect(parts.length).toBeGreaterThan(1);
+            expect(parts[0].content.startsWith("import { EventEmitter } from 'events';\n\nexport class")).toBe(true);
+            for (const part of parts.slice(1)) {
+                expect(part.content.startsWith(
+                    "import { EventEmitter } from 'events';\nexport class Pipeline extends EventEmitter {\n// …\n    step"
+                )).toBe(true);
+            }
+        });
+
+        test('should fall back to blank lines without symbols', () => {
+            const content = Array.from({ length: 8 }, (_, i) => `## Section ${i}\n\n${'Some prose here. '.repeat(12)}\n`).join('\n');
+            const parts = splitFile(createMockResult('docs/guide.md', content, 'markdown'), 150);
+
+            const lines = content.split('\n');
+
+            expect(parts.length).toBeGreaterThan(1);
+            for (const part of parts.slice(1)) {
+                expect(lines[part.range!.startLine - 2]).toBe('');
+            }
+        });
+
+        test('should return files that cannot be split whole', () => {
+            const result = mockResults[2];
+            expect(splitFile(result, 50)).toEqual([result]);
+        });
+    });
+
+    describe('oversized files', () => {
+        test('should split them into parts that fit chunks', async () => {
+            const result = createMockResult('src/steps.ts', largeModule, 'typescript');
+            const formatOptions = {
+                format: 'xml' as const,
+                symbols: new Map([['src/steps.ts', await parseSymbols(largeModule, 'typescript')]]),
+            };
+            const chunks = splitToChunks([mockResults[0], result], { maxTokensPerChunk: 500, formatOptions });
+
+            expect(chunks.length).toBeGreaterThan(2);
+            for (const chunk of chunks) {
+                expect(countTokens(formatChunk(chunk, formatOptions)).tokens).toBeLessThanOrEqual(500);
+            }
+            const output = chunks.map(chunk => formatChunk(chunk, formatOptions)).join('\n');
+            expect(output).toMatch(/<file path="src\/steps\.ts" language="typescript" part="2\/\d" lines="\d+-\d+">/);
+        });
+
+        test('should leave diffs whole', () => {
+            const diff = { ...createMockResult('src/steps.ts', largeModule, 'typescript'), diff: { base: 'HEAD', head: 'working tree' } };
+            const chunks = splitToChunks([diff], { maxTokensPerChunk: 300 });
+
+            expect(chunks.length).toBe(1);
+            expect(chunks[0].files[0]).toBe(diff);
+        });
+    });
+
+    describe('cohesive strategy', () => {
+        const filler = (n: number) => `export const value${n} = [${Array.from({ length: 40 }, (_, i) => i * n).join(', ')}];\n`;
+
+        test('should keep directories together', () => {
+            const results = [
+                createMockResult('src/api/a.ts', filler(1), 'typescript'),
+                createMockResult('src/ui/a.ts', filler(2), 'typescript'),
+                createMockResult('src/api/b.ts', filler(3), 'typescript'),
+                createMockResult('src/ui/b.ts', filler(4), 'typescript'),
+            ];
+            const perFile = Math.max(...results.map(r => r.tokenInfo.tokens));
+            const chunks = splitToChunks(results, { maxTokensPerChunk: perFile * 2 + 10, strategy: 'cohesive' });
+
+            expect(chunks.length).toBe(2);
+            for (const chunk of chunks) {
+                expect(new Set(chunk.files.map(f => f.path.split('/')[1])).size).toBe(1);
+                expect(chunk.modules!.length).toBe(1);
+                expect(getChunkHeader(chunk)).toContain(` | ${chunk.modules![0]} | 2 files`);
+            }
+        });
+
+        test('should keep import clusters together', () => {
+            const results = [
+                createMockResult('src/lib/parse.ts', filler(1), 'typescript'),
+                createMockResult('src/lib/render.ts', filler(2), 'typescript'),
+                createMockResult('src/parse.ts', `import { value1 } from './lib/parse';\n${filler(3)}`, 'typescript'),
+                createMockResult('src/render.ts', `import { value2 } from './lib/render';\n${filler(4)}`, 'typescript'),
+            ];
+            const perFile = Math.max(...results.map(r => r.tokenInfo.tokens));
+            const chunks = splitToChunks(results, { maxTokensPerChunk: perFile * 2 + 10, strategy: 'cohesive' });
+
+            expect(chunks.map(c => c.files.map(f => f.path).sort())).toEqual(expect.arrayContaining([
+                ['src/lib/parse.ts', 'src/parse.ts'],
+                ['src/lib/render.ts', 'src/render.ts'],
+            ]));
+            expect(chunks[0].modules).toEqual(expect.arrayContaining(['src', 'src/lib']));
+        });
+
+        test('should keep formatted chunks within the limit', () => {
+            const results = Array.from({ length: 20 }, (_, i) =>
+                createMockResult(`src/dir${i % 4}/sub${i % 3}/file${i}.ts`, filler(i), 'typescript')
+            );
+            const formatOptions = { format: 'markdown' as const };
+            const chunks = splitToChunks(results, { maxTokensPerChunk: 600, formatOptions, strategy: 'cohesive' });
+
+            expect(chunks.flatMap(c => c.files).length).toBe(results.length);
+            for (const chunk of chunks) {
+                const tokens = countTokens(formatChunk(chunk, formatOptions)).tokens;
+                expect(tokens).toBeLessThanOrEqual(600);
+                expect(chunk.tokens).toBe(tokens);
+            }
+        });
+
+        test('should keep the parts of a split file in order in consecutive chunks', () => {
+            const big = createMockResult('src/core/engine.ts', [5, 30, 10, 25, 8, 30].map((statements, i) => createFunction(`step${i}`, statements)).join('\n'), 'typescript');
+            const results = [
+                createMockResult('src/api/a.ts', filler(1), 'typescript'),
+                big,
+                createMockResult('src/ui/a.ts', filler(2), 'typescript'),
+                createMockResult('src/ui/b.ts', filler(3), 'typescript'),
+            ];
+            const formatOptions = { format: 'markdown' as const };
+            const chunks = splitToChunks(results, { maxTokensPerChunk: 600, formatOptions, strategy: 'cohesive' });
+
+            const placed = chunks.flatMap((chunk, i) => chunk.files
+                .filter(file => file.path === big.path)
+                .map(file => ({ chunk: i, part: file.range!.part!.index, total: file.range!.part!.total })));
+            expect(placed.length).toBeGreaterThan(1);
+            expect(placed.map(p => p.part)).toEqual(Array.from({ length: placed[0].total }, (_, i) => i + 1));
+            for (let i = 1; i < placed.length; i++) {
+                expect(placed[i].chunk - placed[i - 1].chunk).toBeLessThanOrEqual(1);
+                expect(placed[i].chunk).toBeGreaterThanOrEqual(placed[i - 1].chunk);
+            }
+            expect(chunks.flatMap(c => c.files).filter(f => f.path !== big.path).length).toBe(3);
+        });
+
+        test('should name at most four modules in the header', () => {
+            const header = getChunkHeader({ index: 0, total: 1, files: [], tokens: 10, modules: ['a', 'b', 'c', 'd', 'e', 'f'] });
+            expect(header).toContain('| a, b, c, d +2 more |');
+        });
+    });
+
     describe('getChunkHeader', () => {
         test('should format header correctly', () => {
             const chunks = splitToChunks(mockResults.slice(0, 2), { maxTokensPerChunk: 10000 });
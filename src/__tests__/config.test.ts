@@ -0,0 +1,148 @@
+/**
+ * Config Module Tests
+ */
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import { mkdtemp, mkdir, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseConfig, resolveConfig, mergeCliOptions, DEFAULT_OPTIONS } from '../config';
+
+let dir: string;
+
+const write = async (file: string, content: unknown) => {
+    await mkdir(join(dir, file, '..'), { recursive: true });
+    await writeFile(join(dir, file), typeof content === 'string' ? content : JSON.stringify(content));
+};
+
+describe('parseConfig', () => {
+    test('should normalize lists and accept kebab-case keys', () => {
+        const config = parseConfig({
+            ext: ['ts', 'tsx'],
+            'max-file-tokens': '8k',
+            compact: true,
+            profiles: { docs: { ext: 'md' } },
+        }, 'ctx.config.json');
+
+        expect(config.options).toEqual({ ext: 'ts,tsx', maxFileTokens: '8k', compact: true });
+        expect(config.profiles.docs).toEqual({ ext: 'md' });
+    });
+
+    test('should report every invalid key and value', () => {
+        const parse = () => parseConfig({
+            extensions: 'ts',
+            budget: 'lots',
+            format: 'html',
+            profiles: { backend: { compact: 'yes' } },
+        }, '.ctxrc');
+
+        expect(parse).toThrow('.ctxrc: unknown key "extensions"');
+        expect(parse).toThrow('.ctxrc: "budget": Invalid budget format: lots');
+        expect(parse).toThrow('"format" must be one of markdown, xml');
+        expect(parse).toThrow('.ctxrc (profile "backend"): "compact" must be true or false');
+    });
+
+    test('should validate model entries', () => {
+        const models = { 'local-llm': { contextWindow: 8192, tokenizer: 'cl100k_base' }, 'gpt-4o': { inputPrice: 2 } };
+        expect(parseConfig({ models }, '.ctxrc').options.models).toEqual(models);
+
+        expect(() => parseConfig({ models: { x: { inputPrice: 1 } } }, '.ctxrc')).toThrow('contextWindow is required');
+        expect(() => parseConfig({ models: { x: { contextWindow: '8k' } } }, '.ctxrc')).toThrow('must be a non-negative number');
+        expect(() => parseConfig({ models: { x: { contextWindow: 100, tokenizer: 'bpe' } } }, '.ctxrc')).toThrow('tokenizer must be one of');
+        expect(() => parseConfig({ models: { x: { contextWindow: 100, outputReserve: 100 } } }, '.ctxrc')).toThrow('smaller than contextWindow');
+    });
+
+    test('should validate redaction patterns', () => {
+        const config = parseConfig({ redactPatterns: { 'internal-id': 'INT-[0-9]+' } }, '.ctxrc');
+        expect(config.options.redactPatterns).toEqual({ 'internal-id': 'INT-[0-9]+' });
+
+        expect(() => parseConfig({ redactPatterns: { broken: '(' } }, '.ctxrc')).toThrow('"redactPatterns.broken"');
+        expect(() => parseConfig({ redactPatterns: ['x'] }, '.ctxrc')).toThrow('must map names to regular expressions');
+    });
+
+    test('should accept --top as a positive whole number', () => {
+        expect(parseConfig({ query: 'refresh token', top: 5 }, '.ctxrc').options).toEqual({ query: 'refresh token', top: '5' });
+        expect(() => parseConfig({ top: 0 }, '.ctxrc')).toThrow('"top" must be a positive whole number');
+        expect(() => parseConfig({ top: '2.5' }, '.ctxrc')).toThrow('"top" must be a positive whole number');
+    });
+
+    test('should validate priority rules and directory quotas', () => {
+        const options = parseConfig({ priority: ['src/core/**=10', 'docs/**:max=4k'], dirQuota: '25%' }, '.ctxrc').options;
+        expect(options).toEqual({ priority: 'src/core/**=10,docs/**:max=4k', dirQuota: '25%' });
+
+        expect(() => parseConfig({ priority: 'src=high' }, '.ctxrc')).toThrow('"priority": Invalid priority rule "src=high"');
+        expect(() => parseConfig({ dirQuota: 'half' }, '.ctxrc')).toThrow('"dirQuota": Invalid quota "half"');
+    });
+
+    test('should reject non-object configs', () => {
+        expect(() => parseConfig(['ts'], '.ctxrc')).toThrow('expected a JSON object');
+    });
+});
+
+describe('resolveConfig', () => {
+    beforeAll(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'ctx-config-'));
+
+        await write('home/config.json', {
+            model: 'claude-3.5-sonnet',
+            compact: true,
+            format: 'xml',
+            profiles: { personal: { stats: true } },
+        });
+        await write('project/ctx.config.json', {
+            ext: 'ts',
+            format: 'markdown',
+            profiles: { backend: { ignore: ['web/**'], budget: '64k' } },
+        });
+        await write('project/.ctxrc', { ext: 'md' });
+        await write('project/packages/api/.keep', '');
+        await write('broken/.ctxrc', '{ "ext": ');
+    });
+
+    afterAll(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    test('should layer defaults, user config and the nearest project config', async () => {
+        const config = await resolveConfig(join(dir, 'project/packages/api'), undefined, join(dir, 'home/config.json'));
+
+        expect(config.options).toEqual({
+            ...DEFAULT_OPTIONS,
+            ext: 'ts',
+            model: 'claude-3.5-sonnet',
+            compact: true,
+            format: 'markdown',
+        });
+        expect(config.files).toEqual([join(dir, 'home/config.json'), join(dir, 'project/ctx.config.json')]);
+    });
+
+    test('should apply profiles from either config file', async () => {
+        const userConfig = join(dir, 'home/config.json');
+
+        const backend = await resolveConfig(join(dir, 'project'), 'backend', userConfig);
+        expect(backend.options.ignore).toBe('web/**');
+        expect(backend.options.budget).toBe('64k');
+
+        const personal = await resolveConfig(join(dir, 'project'), 'personal', userConfig);
+        expect(personal.options.stats).toBe(true);
+    });
+
+    test('should list available profiles for an unknown one', async () => {
+        await expect(resolveConfig(join(dir, 'project'), 'frontend', join(dir, 'home/config.json')))
+            .rejects.toThrow('Unknown profile "frontend" (available: personal, backend)');
+    });
+
+    test('should report malformed JSON with the file name', async () => {
+        await expect(resolveConfig(join(dir, 'broken'), undefined, false)).rejects.toThrow(join(dir, 'broken/.ctxrc'));
+    });
+});
+
+describe('mergeCliOptions', () => {
+    test('should let given flags override config', () => {
+        const merged = mergeCliOptions(
+            { ext: 'ts', compact: true, tree: false, format: 'xml' },
+            { ext: 'md', format: undefined, tree: true, test: false }
+        );
+
+        expect(merged).toEqual({ ext: 'md', compact: true, tree: false, format: 'xml', test: false });
+    });
+});
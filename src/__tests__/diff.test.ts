@@ -0,0 +1,219 @@
+/**
+ * Diff Module Tests
+ */
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import { mkdtemp, mkdir, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runGit } from '../git';
+import {
+    parseUnifiedDiff,
+    selectEnclosingSymbols,
+    getFileDiffs,
+    getFileDiffsWithReport,
+    buildDiffResults,
+    WORKTREE_REF,
+    INDEX_REF,
+} from '../diff';
+import type { CodeSymbol } from '../parser';
+
+const SAMPLE_DIFF = [
+    'diff --git a/src/a.ts b/src/a.ts',
+    'index 1111111..2222222 100644',
+    '--- a/src/a.ts',
+    '+++ b/src/a.ts',
+    '@@ -1,4 +1,5 @@',
+    ' line1',
+    '-line2',
+    '+line2 changed',
+    '+line2b',
+    ' line3',
+    ' line4',
+    'diff --git a/src/new.ts b/src/new.ts',
+    'new file mode 100644',
+    '--- /dev/null',
+    '+++ b/src/new.ts',
+    '@@ -0,0 +1,2 @@',
+    '+a',
+    '+b',
+    'diff --git a/src/gone.ts b/src/gone.ts',
+    'deleted file mode 100644',
+    '--- a/src/gone.ts',
+    '+++ /dev/null',
+    '@@ -1 +0,0 @@',
+    '-x',
+    'diff --git a/src/old.ts b/src/moved.ts',
+    'similarity index 100%',
+    'rename from src/old.ts',
+    'rename to src/moved.ts',
+    'diff --git a/logo.png b/logo.png',
+    'Binary files a/logo.png and b/logo.png differ',
+    '',
+].join('\n');
+
+const symbol = (name: string, startLine: number, endLine: number): CodeSymbol => ({
+    name,
+    kind: 'function',
+    signature: `function ${name}()`,
+    startLine,
+    endLine,
+    content: '',
+    tokens: 0,
+});
+
+describe('parseUnifiedDiff', () => {
+    const diffs = parseUnifiedDiff(SAMPLE_DIFF, 'main', WORKTREE_REF);
+
+    test('should split one entry per file with its status', () => {
+        expect(diffs.map(d => [d.path, d.status])).toEqual([
+            ['src/a.ts', 'modified'],
+            ['src/new.ts', 'added'],
+            ['src/gone.ts', 'deleted'],
+            ['src/moved.ts', 'renamed'],
+            ['logo.png', 'binary'],
+        ]);
+    });
+
+    test('should keep refs and the raw patch', () => {
+        expect(diffs[0].base).toBe('main');
+        expect(diffs[0].head).toBe(WORKTREE_REF);
+        expect(diffs[0].patch.startsWith('diff --git a/src/a.ts')).toBe(true);
+        expect(diffs[0].patch).not.toContain('src/new.ts');
+    });
+
+    test('should compute changed line ranges on the new side', () => {
+        expect(diffs[0].changedRanges).toEqual([{ start: 2, end: 3 }]);
+        expect(diffs[1].changedRanges).toEqual([{ start: 1, end: 2 }]);
+        expect(diffs[2].changedRanges).toEqual([]);
+    });
+});
+
+describe('selectEnclosingSymbols', () => {
+    test('should pick outermost symbols overlapping the changes', () => {
+        const outer = symbol('Outer', 1, 20);
+        const inner = symbol('inner', 5, 8);
+        const other = symbol('other', 30, 40);
+        const untouched = symbol('untouched', 50, 60);
+
+        const selected = selectEnclosingSymbols([outer, inner, other, untouched], [
+            { start: 6, end: 6 },
+            { start: 35, end: 36 },
+        ]);
+
+        expect(selected.map(s => s.name)).toEqual(['Outer', 'other']);
+    });
+});
+
+describe('getFileDiffs', () => {
+    let repo: string;
+
+    const git = (...args: string[]) =>
+        runGit(repo, ['-c', 'user.name=ctx', '-c', 'user.email=ctx@example.com', '-c', 'commit.gpgsign=false', ...args]);
+
+    const write = async (file: string, content: string) => {
+        await mkdir(join(repo, file, '..'), { recursive: true });
+        await writeFile(join(repo, file), content);
+    };
+
+    beforeAll(async () => {
+        repo = await mkdtemp(join(tmpdir(), 'ctx-diff-'));
+        await git('init', '-q', '-b', 'main');
+
+        await write('src/math.ts', [
+            'export function add(a: number, b: number) {',
+            '    return a + b;',
+            '}',
+            '',
+            'export function sub(a: number, b: number) {',
+            '    return a - b;',
+            '}',
+            '',
+        ].join('\n'));
+        await write('src/keep.ts', 'export const keep = 1;\n');
+        await git('add', '-A');
+        await git('commit', '-q', '-m', 'initial');
+
+        await write('src/math.ts', [
+            'export function add(a: number, b: number) {',
+            '    return a + b;',
+            '}',
+            '',
+            'export function sub(a: number, b: number) {',
+            '    return b - a;',
+            '}',
+            '',
+        ].join('\n'));
+        await write('src/fresh.ts', 'export const fresh = 1;\n');
+        await write('src/keep.ts', 'export const keep = 2;\n');
+        await git('add', 'src/keep.ts');
+    });
+
+    afterAll(async () => {
+        await rm(repo, { recursive: true, force: true });
+    });
+
+    test('should diff the working tree against HEAD, including untracked files', async () => {
+        const diffs = await getFileDiffs(repo);
+        expect(diffs.map(d => [d.path, d.status])).toEqual([
+            ['src/fresh.ts', 'added'],
+            ['src/keep.ts', 'modified'],
+            ['src/math.ts', 'modified'],
+        ]);
+        expect(diffs.every(d => d.base === 'HEAD' && d.head === WORKTREE_REF)).toBe(true);
+        expect(diffs[2].patch).toContain('+    return b - a;');
+    });
+
+    test('should skip binary, oversized and ignored untracked files', async () => {
+        await writeFile(join(repo, 'src/logo.png'), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x00, 0x1a, 0x0a]));
+        await write('src/huge.ts', `export const huge = '${'x'.repeat(2048)}';\n`);
+        await write('src/skip.ts', 'export const skip = 1;\n');
+
+        try {
+            const { diffs, skipped } = await getFileDiffsWithReport(repo, {
+                scan: { patterns: ['**/*'], ignore: ['src/skip.ts'], maxFileSize: 1024 },
+            });
+            expect(diffs.map(d => d.path)).toEqual(['src/fresh.ts', 'src/keep.ts', 'src/math.ts']);
+            expect(skipped.map(s => [s.path, s.reason]).sort()).toEqual([
+                ['src/huge.ts', 'too-large'],
+                ['src/logo.png', 'binary'],
+            ]);
+        } finally {
+            await rm(join(repo, 'src/logo.png'));
+            await rm(join(repo, 'src/huge.ts'));
+            await rm(join(repo, 'src/skip.ts'));
+        }
+    });
+
+    test('should diff only the index when staged', async () => {
+        const diffs = await getFileDiffs(repo, { staged: true });
+        expect(diffs.map(d => d.path)).toEqual(['src/keep.ts']);
+        expect(diffs[0].head).toBe(INDEX_REF);
+    });
+
+    test('should emit diffs only by default', async () => {
+        const diffs = await getFileDiffs(repo);
+        const results = await buildDiffResults(repo, diffs);
+        expect(results).toHaveLength(3);
+        expect(results.every(r => r.language === 'diff' && r.diff)).toBe(true);
+        expect(results[0].tokenInfo.tokens).toBeGreaterThan(0);
+    });
+
+    test('should add whole files with full context', async () => {
+        const diffs = (await getFileDiffs(repo)).filter(d => d.path === 'src/math.ts');
+        const results = await buildDiffResults(repo, diffs, 'full');
+        expect(results).toHaveLength(2);
+        expect(results[1].diff).toBeUndefined();
+        expect(results[1].language).toBe('typescript');
+        expect(results[1].content).toContain('return b - a;');
+    });
+
+    test('should add only enclosing symbols with symbols context', async () => {
+        const diffs = (await getFileDiffs(repo)).filter(d => d.path === 'src/math.ts');
+        const results = await buildDiffResults(repo, diffs, 'symbols');
+        const fragments = results.filter(r => r.range);
+        expect(fragments).toHaveLength(1);
+        expect(fragments[0].range).toEqual({ startLine: 5, endLine: 7, symbol: 'sub' });
+        expect(fragments[0].content).toContain('return b - a;');
+        expect(fragments[0].content).not.toContain('a + b');
+    });
+});
@@ -0,0 +1,49 @@
+/**
+ * File List Module Tests
+ */
+import { describe, test, expect } from 'bun:test';
+import { join } from 'path';
+import { parseFileList, resolveFileList } from '../filelist';
+
+describe('parseFileList', () => {
+    test('should split newline-separated lists and drop blank lines', () => {
+        expect(parseFileList('src/a.ts\r\nsrc/b.ts\n\n')).toEqual(['src/a.ts', 'src/b.ts']);
+    });
+
+    test('should split NUL-separated lists, keeping newlines in names', () => {
+        expect(parseFileList('src/a.ts\0odd\nname.ts\0')).toEqual(['src/a.ts', 'odd\nname.ts']);
+    });
+
+    test('should keep spaces in file names', () => {
+        expect(parseFileList('my file.ts\n')).toEqual(['my file.ts']);
+    });
+});
+
+describe('resolveFileList', () => {
+    const cwd = join('/work', 'repo');
+
+    test('should keep paths relative to cwd when all are inside it', () => {
+        const resolved = resolveFileList(cwd, ['./src/a.ts', 'src/a.ts', '/work/repo/lib/b.ts']);
+
+        expect(resolved.root).toBe(cwd);
+        expect(resolved.paths).toEqual(['src/a.ts', 'lib/b.ts']);
+    });
+
+    test('should use the common root when paths leave cwd', () => {
+        const resolved = resolveFileList(cwd, ['src/a.ts', '../shared/util.ts']);
+
+        expect(resolved.root).toBe('/work');
+        expect(resolved.paths).toEqual(['repo/src/a.ts', 'shared/util.ts']);
+    });
+
+    test('should not treat sibling prefixes as ancestors', () => {
+        const resolved = resolveFileList(cwd, ['/work/app/a.ts', '/work/apple/b.ts']);
+
+        expect(resolved.root).toBe('/work');
+        expect(resolved.paths).toEqual(['app/a.ts', 'apple/b.ts']);
+    });
+
+    test('should return no paths for an empty list', () => {
+        expect(resolveFileList(cwd, [])).toEqual({ root: cwd, paths: [] });
+    });
+});
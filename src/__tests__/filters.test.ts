@@ -0,0 +1,68 @@
+/**
+ * Filters Module Tests
+ */
+import { describe, test, expect } from 'bun:test';
+import { isBinaryContent, detectGenerated, parseSize, formatSize, getSkipSummary } from '../filters';
+
+describe('Filters', () => {
+    describe('isBinaryContent', () => {
+        test('should flag NUL bytes', () => {
+            expect(isBinaryContent(new Uint8Array([0x41, 0x00, 0x42]))).toBe(true);
+        });
+
+        test('should flag mostly invalid UTF-8', () => {
+            expect(isBinaryContent(new Uint8Array([0xff, 0xfe, 0xfd, 0x41, 0xc3]))).toBe(true);
+        });
+
+        test('should accept UTF-8 text', () => {
+            expect(isBinaryContent(new TextEncoder().encode('const 名前 = "値";'))).toBe(false);
+            expect(isBinaryContent(new Uint8Array())).toBe(false);
+        });
+    });
+
+    describe('detectGenerated', () => {
+        test('should detect generated-file headers', () => {
+            expect(detectGenerated('// Code generated by protoc-gen-go. DO NOT EDIT.\npackage pb')?.reason).toBe('generated');
+            expect(detectGenerated('/* @generated */\nexport {}')?.reason).toBe('generated');
+        });
+
+        test('should ignore markers outside the header', () => {
+            const content = 'line\n'.repeat(10) + '// @generated';
+            expect(detectGenerated(content)).toBeNull();
+        });
+
+        test('should detect minified content', () => {
+            expect(detectGenerated('!function(){' + 'a();'.repeat(400) + '}()')?.reason).toBe('minified');
+        });
+
+        test('should accept regular source', () => {
+            expect(detectGenerated('export function add(a, b) {\n  return a + b;\n}\n')).toBeNull();
+        });
+    });
+
+    describe('parseSize', () => {
+        test('should parse units', () => {
+            expect(parseSize('4096')).toBe(4096);
+            expect(parseSize('500kb')).toBe(500 * 1024);
+            expect(parseSize('1.5M')).toBe(1.5 * 1024 * 1024);
+        });
+
+        test('should throw on invalid input', () => {
+            expect(() => parseSize('big')).toThrow();
+        });
+    });
+
+    test('formatSize should pick a readable unit', () => {
+        expect(formatSize(512)).toBe('512B');
+        expect(formatSize(2048)).toBe('2.0KB');
+    });
+
+    test('getSkipSummary should count reasons', () => {
+        const summary = getSkipSummary([
+            { path: 'a', reason: 'binary' },
+            { path: 'b', reason: 'binary' },
+            { path: 'c', reason: 'minified' },
+        ]);
+        expect(summary).toBe('2 binary, 1 minified');
+    });
+});
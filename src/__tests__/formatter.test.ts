@@ -2,12 +2,31 @@
  * Formatter Module Tests
  */
 import { describe, test, expect } from 'bun:test';
-import { format } from '../formatter';
+import { format, formatBlock, estimateFormatCost } from '../formatter';
+import { countTokens } from '../tokenizer';
+import { parseSymbols } from '../parser';
 import type { ScanResult } from '../scanner';
 
 const mockResults: ScanResult[] = [
-    { path: 'src/main.ts', content: 'console.log("hello");', language: 'typescript', tokenInfo: { chars: 21, lines: 1, tokens: 8 } },
-    { path: 'src/utils.ts', content: 'export const add = (a, b) => a + b;', language: 'typescript', tokenInfo: { chars: 35, lines: 1, tokens: 15 } },
+    { path: 'src/main.ts', content: 'console.log("hello");', language: 'typescript', tokenInfo: { chars: 21, lines: 1, tokens: 8, tokenizer: 'o200k_base' } },
+    { path: 'src/utils.ts', content: 'export const add = (a, b) => a + b;', language: 'typescript', tokenInfo: { chars: 35, lines: 1, tokens: 15, tokenizer: 'o200k_base' } },
+];
+
+const diffResults: ScanResult[] = [
+    {
+        path: 'src/main.ts',
+        content: 'diff --git a/src/main.ts b/src/main.ts\n@@ -1 +1 @@\n-console.log("hi");\n+console.log("hello");',
+        language: 'diff',
+        tokenInfo: { chars: 80, lines: 4, tokens: 30, tokenizer: 'o200k_base' },
+        diff: { base: 'main', head: 'worktree' },
+    },
+    {
+        path: 'src/main.ts',
+        content: 'function greet() {}',
+        language: 'typescript',
+        tokenInfo: { chars: 19, lines: 1, tokens: 5, tokenizer: 'o200k_base' },
+        range: { startLine: 3, endLine: 3, symbol: 'greet' },
+    },
 ];
 
 describe('Formatter', () => {
@@ -35,6 +54,20 @@ describe('Formatter', () => {
             expect(output).toContain('console.log("hello");');
             expect(output).toContain('</file>');
         });
+
+        test('should render diffs before files', () => {
+            const output = format(diffResults, { format: 'markdown' });
+            expect(output).toContain('## Changes');
+            expect(output).toContain('<diff path="src/main.ts" base="main" head="worktree">');
+            expect(output).toContain('+console.log("hello");');
+            expect(output.indexOf('</diff>')).toBeLessThan(output.indexOf('## Files'));
+            expect(output.match(/- main\.ts/g)).toHaveLength(1);
+        });
+
+        test('should label partial files with symbol and lines', () => {
+            const output = format(diffResults, { format: 'markdown' });
+            expect(output).toContain('<file path="src/main.ts" language="typescript" symbol="greet" lines="3-3">');
+        });
     });
 
     describe('xml format', () => {
@@ -51,7 +84,7 @@ describe('Formatter', () => {
 
         test('should escape special XML characters', () => {
             const resultsWithSpecialChars: ScanResult[] = [
-                { path: 'test.ts', content: 'a < b && c > d', language: 'typescript', tokenInfo: { chars: 14, lines: 1, tokens: 9 } },
+                { path: 'test.ts', content: 'a < b && c > d', language: 'typescript', tokenInfo: { chars: 14, lines: 1, tokens: 9, tokenizer: 'o200k_base' } },
             ];
 
             const output = format(resultsWithSpecialChars, { format: 'xml' });
@@ -59,5 +92,88 @@ describe('Formatter', () => {
             expect(output).toContain('&amp;');
             expect(output).toContain('&gt;');
         });
+
+        test('should group diffs in a diffs element', () => {
+            const output = format(diffResults, { format: 'xml' });
+            expect(output).toContain('<diffs>');
+            expect(output).toContain('<diff path="src/main.ts" base="main" head="worktree">');
+            expect(output.indexOf('</diffs>')).toBeLessThan(output.indexOf('<files>'));
+        });
+    });
+
+    describe('degraded files', () => {
+        const degraded: ScanResult[] = [
+            { ...mockResults[0], fidelity: 'compact' },
+            { ...mockResults[1], fidelity: 'path' },
+        ];
+
+        test('should label shortened files', () => {
+            const output = format(degraded, { format: 'markdown' });
+            expect(output).toContain('<file path="src/main.ts" language="typescript" fidelity="compact">');
+            expect(output).toContain('- utils.ts (path only)');
+            expect(output).not.toContain('<file path="src/utils.ts"');
+        });
+
+        test('should label path-only files in the XML tree', () => {
+            const output = format(degraded, { format: 'xml' });
+            expect(output).toContain('- utils.ts (path only)');
+            expect(output).not.toContain('<file path="src/utils.ts"');
+        });
+    });
+
+    describe('signatures outline', () => {
+        test('should nest members under their class with qualified names and doc summaries', async () => {
+            const content = [
+                '/** Writes chunks */',
+                'export class OutputController {',
+                '    constructor(options: Options) {}',
+                '',
+                '    /**',
+                '     * Write every chunk',
+                '     *',
+                '     * Details left out of the outline',
+                '     */',
+                '    async writeChunks(chunks: Chunk[]): Promise<void> {',
+                '        return;',
+                '    }',
+                '}',
+            ].join('\n');
+            const result: ScanResult = { ...mockResults[0], path: 'src/output.ts', content };
+            const symbols = new Map([['src/output.ts', await parseSymbols(content, 'typescript')]]);
+
+            expect(formatBlock(result, { format: 'markdown', signaturesOnly: true, symbols })).toContain([
+                '// class: OutputController',
+                '// Writes chunks',
+                'export class OutputController',
+                '',
+                '    // method: OutputController.constructor',
+                '    constructor(options: Options)',
+                '',
+                '    // method: OutputController.writeChunks',
+                '    // Write every chunk',
+                '    async writeChunks(chunks: Chunk[]): Promise<void>',
+            ].join('\n'));
+        });
+    });
+
+    describe('estimateFormatCost', () => {
+        test('should emit blocks exactly as format does', () => {
+            for (const options of [{ format: 'markdown' as const }, { format: 'xml' as const }]) {
+                const output = format(mockResults, options);
+                for (const result of mockResults) {
+                    expect(output).toContain(formatBlock(result, options));
+                }
+            }
+        });
+
+        test('should cover the formatted output', () => {
+            for (const options of [{ format: 'markdown' as const }, { format: 'xml' as const }]) {
+                const cost = estimateFormatCost(mockResults, options);
+                const estimate = cost.frame + cost.files.reduce((sum, tokens) => sum + tokens, 0);
+
+                expect(cost.files.length).toBe(mockResults.length);
+                expect(estimate).toBeGreaterThanOrEqual(countTokens(format(mockResults, options)).tokens);
+            }
+        });
     });
 });
@@ -0,0 +1,106 @@
+/**
+ * Git Module Tests
+ */
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import { mkdtemp, mkdir, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { getChangedFiles, hasGitScope, runGit } from '../git';
+import { scan } from '../scanner';
+import { buildImportGraph, findImporters } from '../imports';
+
+let repo: string;
+
+const git = (...args: string[]) =>
+    runGit(repo, ['-c', 'user.name=ctx', '-c', 'user.email=ctx@example.com', '-c', 'commit.gpgsign=false', ...args]);
+
+const write = async (file: string, content: string) => {
+    await mkdir(join(repo, file, '..'), { recursive: true });
+    await writeFile(join(repo, file), content);
+};
+
+describe('Git scope', () => {
+    beforeAll(async () => {
+        repo = await mkdtemp(join(tmpdir(), 'ctx-git-'));
+        await git('init', '-q', '-b', 'main');
+
+        await write('.gitignore', 'generated/\n');
+        await write('src/auth.ts', 'export const login = () => true;\n');
+        await write('src/session.ts', "import { login } from './auth';\nexport const start = login;\n");
+        await write('src/unrelated.ts', 'export const x = 1;\n');
+        await write('src/old.ts', 'export const old = 1;\n');
+        await write('docs/readme.md', '# Docs\n');
+        await git('add', '-A');
+        await git('commit', '-q', '-m', 'initial');
+        await git('tag', 'v1');
+
+        await write('src/unrelated.ts', 'export const x = 2;\n');
+        await git('commit', '-q', '-am', 'second');
+
+        // Working tree changes
+        await write('src/auth.ts', 'export const login = () => false;\n');
+        await write('src/new.ts', 'export const fresh = 1;\n');
+        await write('generated/out.ts', 'export {};\n');
+        await write('docs/readme.md', '# Docs v2\n');
+        await write('src/staged.ts', 'export const staged = 1;\n');
+        await git('add', 'src/staged.ts');
+        await rm(join(repo, 'src/old.ts'));
+    });
+
+    afterAll(async () => {
+        await rm(repo, { recursive: true, force: true });
+    });
+
+    test('hasGitScope should detect any scope option', () => {
+        expect(hasGitScope({})).toBe(false);
+        expect(hasGitScope({ since: 'main' })).toBe(true);
+    });
+
+    test('should list uncommitted changes including untracked files', async () => {
+        const files = await getChangedFiles(repo, { changed: true });
+
+        expect(files).toEqual(['docs/readme.md', 'src/auth.ts', 'src/new.ts', 'src/staged.ts']);
+    });
+
+    test('should list staged files only', async () => {
+        expect(await getChangedFiles(repo, { staged: true })).toEqual(['src/staged.ts']);
+    });
+
+    test('should list files changed since a ref', async () => {
+        const files = await getChangedFiles(repo, { since: 'v1' });
+
+        expect(files).toContain('src/unrelated.ts');
+        expect(files).toContain('src/auth.ts');
+        expect(files).toContain('src/new.ts');
+        expect(files).not.toContain('src/old.ts');
+        expect(files).not.toContain('src/session.ts');
+    });
+
+    test('should return paths relative to a subdirectory cwd', async () => {
+        const files = await getChangedFiles(join(repo, 'src'), { changed: true });
+        expect(files).toEqual(['auth.ts', 'new.ts', 'staged.ts']);
+    });
+
+    test('should fail outside a git repository', async () => {
+        const dir = await mkdtemp(join(tmpdir(), 'ctx-nogit-'));
+        try {
+            await expect(getChangedFiles(dir, { changed: true })).rejects.toThrow('git');
+        } finally {
+            await rm(dir, { recursive: true, force: true });
+        }
+    });
+
+    test('should keep extension and ignore filters for scoped scans', async () => {
+        const paths = [...await getChangedFiles(repo, { changed: true }), 'generated/out.ts'];
+        const results = await scan({ cwd: repo, patterns: ['**/*.ts'], paths });
+
+        expect(results.map(r => r.path)).toEqual(['src/auth.ts', 'src/new.ts', 'src/staged.ts']);
+    });
+
+    test('should find files importing the changed ones', async () => {
+        const results = await scan({ cwd: repo, patterns: ['**/*.ts'] });
+        const importers = findImporters(buildImportGraph(results), ['src/auth.ts']);
+
+        expect(importers).toEqual(['src/session.ts']);
+    });
+});
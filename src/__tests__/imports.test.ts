@@ -0,0 +1,182 @@
+/**
+ * Imports Module Tests
+ */
+import { describe, test, expect } from 'bun:test';
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+    extractImports,
+    resolveImport,
+    buildImportGraph,
+    parseImportGraph,
+    findImporters,
+    followImports,
+    loadResolverConfig,
+    type ResolverConfig,
+} from '../imports';
+import { parseModuleEdges } from '../parser';
+import type { ScanResult } from '../scanner';
+import { countTokens } from '../tokenizer';
+
+const createMockResult = (path: string, content: string, language = 'typescript'): ScanResult => ({
+    path,
+    content,
+    language,
+    tokenInfo: countTokens(content),
+});
+
+describe('Imports', () => {
+    describe('extractImports', () => {
+        test('should find static, dynamic, re-export and require specifiers', () => {
+            const content = [
+                "import fs from 'fs';",
+                "import type { A } from './types';",
+                "import {\n  b,\n  c,\n} from './multi';",
+                "import './side-effect';",
+                "export * from './barrel';",
+                "export { d } from './d';",
+                "const lazy = await import('./lazy');",
+                "const cjs = require('./cjs');",
+            ].join('\n');
+
+            expect(extractImports(content, 'typescript').sort()).toEqual(
+                ['./barrel', './cjs', './d', './lazy', './multi', './side-effect', './types', 'fs'].sort()
+            );
+        });
+
+        test('should ignore unsupported languages', () => {
+            expect(extractImports('import os', 'python')).toEqual([]);
+        });
+    });
+
+    describe('resolveImport', () => {
+        const files = new Set(['src/a.ts', 'src/lib/index.tsx', 'src/b.ts', 'src/c.js']);
+
+        test('should resolve extensionless and index imports', () => {
+            expect(resolveImport('src/b.ts', './a', files)).toBe('src/a.ts');
+            expect(resolveImport('src/b.ts', './lib', files)).toBe('src/lib/index.tsx');
+            expect(resolveImport('src/lib/index.tsx', '../c.js', files)).toBe('src/c.js');
+        });
+
+        test('should map emitted .js specifiers to TypeScript sources', () => {
+            expect(resolveImport('src/b.ts', './a.js', files)).toBe('src/a.ts');
+        });
+
+        test('should leave bare and unknown specifiers unresolved', () => {
+            expect(resolveImport('src/b.ts', 'react', files)).toBeNull();
+            expect(resolveImport('src/b.ts', './missing', files)).toBeNull();
+        });
+    });
+
+    test('buildImportGraph and findImporters should follow edges both ways', () => {
+        const graph = buildImportGraph([
+            createMockResult('a.ts', "import { b } from './b';"),
+            createMockResult('b.ts', "import { c } from './c';"),
+            createMockResult('c.ts', 'export const c = 1;'),
+        ]);
+
+        expect(graph.imports.get('a.ts')).toEqual(['b.ts']);
+        expect(graph.importedBy.get('c.ts')).toEqual(['b.ts']);
+        expect(findImporters(graph, ['c.ts'])).toEqual(['b.ts']);
+        expect(findImporters(graph, ['b.ts', 'c.ts'])).toEqual(['a.ts']);
+    });
+
+    describe('parseModuleEdges', () => {
+        test('should classify edges with their lines', async () => {
+            const content = [
+                "import type { A } from './types';",
+                "export * from './barrel';",
+                "const lazy = await import('./lazy');",
+                "const cjs = require('./cjs');",
+            ].join('\n');
+
+            expect(await parseModuleEdges(content, 'typescript')).toEqual([
+                { kind: 'import', specifier: './types', typeOnly: true, line: 1 },
+                { kind: 'export', specifier: './barrel', typeOnly: false, line: 2 },
+                { kind: 'dynamic', specifier: './lazy', typeOnly: false, line: 3 },
+                { kind: 'require', specifier: './cjs', typeOnly: false, line: 4 },
+            ]);
+        });
+
+        test('should skip other languages', async () => {
+            expect(await parseModuleEdges('import os', 'python')).toEqual([]);
+        });
+    });
+
+    describe('resolveImport with a resolver config', () => {
+        const files = new Set([
+            'src/core/util.ts',
+            'src/app.ts',
+            'packages/ui/src/index.ts',
+            'packages/ui/src/button.tsx',
+            'packages/log/lib/main.js',
+        ]);
+        const config: ResolverConfig = {
+            baseUrl: 'src',
+            paths: { '@core/*': ['src/core/*'], '~app': ['src/app.ts'] },
+            packages: {
+                '@acme/ui': {
+                    dir: 'packages/ui',
+                    exports: { '.': { types: './dist/index.d.ts', source: './src/index.ts' }, './*': './src/*.tsx' },
+                },
+                log: { dir: 'packages/log', main: 'lib/main.js' },
+            },
+        };
+
+        test('should resolve tsconfig paths and baseUrl', () => {
+            expect(resolveImport('src/app.ts', '@core/util', files, config)).toBe('src/core/util.ts');
+            expect(resolveImport('src/core/util.ts', '~app', files, config)).toBe('src/app.ts');
+            expect(resolveImport('src/app.ts', 'core/util', files, config)).toBe('src/core/util.ts');
+        });
+
+        test('should resolve package exports, subpath patterns and main', () => {
+            expect(resolveImport('src/app.ts', '@acme/ui', files, config)).toBe('packages/ui/src/index.ts');
+            expect(resolveImport('src/app.ts', '@acme/ui/button', files, config)).toBe('packages/ui/src/button.tsx');
+            expect(resolveImport('src/app.ts', 'log', files, config)).toBe('packages/log/lib/main.js');
+            expect(resolveImport('src/app.ts', 'react', files, config)).toBeNull();
+        });
+    });
+
+    test('loadResolverConfig should read tsconfig paths, extends and workspaces', async () => {
+        const dir = await mkdtemp(join(tmpdir(), 'ctx-resolve-'));
+        try {
+            await writeFile(join(dir, 'tsconfig.base.json'), JSON.stringify({
+                compilerOptions: { baseUrl: '.', paths: { '@/*': ['src/*'] } },
+            }));
+            await writeFile(join(dir, 'tsconfig.json'), [
+                '{',
+                '  // Shared settings',
+                '  "extends": "./tsconfig.base.json",',
+                '  "compilerOptions": { "strict": true, /* no paths here */ },',
+                '}',
+            ].join('\n'));
+            await writeFile(join(dir, 'package.json'), JSON.stringify({ name: 'root', workspaces: ['packages/*'] }));
+            await mkdir(join(dir, 'packages/ui'), { recursive: true });
+            await writeFile(join(dir, 'packages/ui/package.json'), JSON.stringify({ name: '@acme/ui', exports: './src/index.ts' }));
+
+            const config = await loadResolverConfig(dir);
+            expect(config.baseUrl).toBe('');
+            expect(config.paths).toEqual({ '@/*': ['src/*'] });
+            expect(config.packages?.['@acme/ui']).toEqual({ dir: 'packages/ui', exports: './src/index.ts', main: undefined, module: undefined });
+            expect(config.packages?.root.dir).toBe('');
+        } finally {
+            await rm(dir, { recursive: true, force: true });
+        }
+    });
+
+    test('followImports should stop at the given depth', async () => {
+        const graph = await parseImportGraph([
+            createMockResult('main.ts', "import { a } from '@/a';"),
+            createMockResult('src/a.ts', "export * from './b';"),
+            createMockResult('src/b.ts', "const c = require('./c');"),
+            createMockResult('src/c.ts', 'export const c = 1;'),
+            createMockResult('src/unused.ts', 'export const u = 1;'),
+        ], { paths: { '@/*': ['src/*'] } });
+
+        expect(followImports(graph, ['main.ts'])).toEqual(new Map([
+            ['main.ts', 0], ['src/a.ts', 1], ['src/b.ts', 2], ['src/c.ts', 3],
+        ]));
+        expect([...followImports(graph, ['main.ts'], 1).keys()]).toEqual(['main.ts', 'src/a.ts']);
+    });
+});
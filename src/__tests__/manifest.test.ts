@@ -0,0 +1,114 @@
+/**
+ * Manifest Module Tests
+ */
+import { describe, test, expect } from 'bun:test';
+import { buildManifest, getChunkPreamble, formatManifest } from '../manifest';
+import { splitToChunks, formatChunk, type Chunk } from '../chunker';
+import type { ScanResult } from '../scanner';
+import type { CodeSymbol } from '../parser';
+import { countTokens } from '../tokenizer';
+
+const createMockResult = (path: string, content: string, range?: ScanResult['range']): ScanResult => ({
+    path,
+    content,
+    language: 'typescript',
+    tokenInfo: countTokens(content),
+    ...(range ? { range } : {}),
+});
+
+const createSymbol = (name: string, startLine: number, exported = true): CodeSymbol => ({
+    name,
+    kind: 'function',
+    startLine,
+    endLine: startLine + 2,
+    signature: `${exported ? 'export ' : ''}function ${name}()`,
+    content: '',
+    tokens: 5,
+    exported,
+});
+
+const symbols = new Map([
+    ['src/api.ts', [createSymbol('get', 1), createSymbol('helper', 5, false), createSymbol('post', 12)]],
+    ['src/db.ts', [createSymbol('connect', 1)]],
+]);
+
+const chunks: Chunk[] = [
+    { index: 0, total: 3, tokens: 100, files: [createMockResult('src/api.ts', 'a', { startLine: 1, endLine: 10, part: { index: 1, total: 2 } })] },
+    { index: 1, total: 3, tokens: 120, files: [createMockResult('src/api.ts', 'b', { startLine: 11, endLine: 20, part: { index: 2, total: 2 } })] },
+    { index: 2, total: 3, tokens: 80, files: [createMockResult('src/db.ts', 'c'), createMockResult('src/util.ts', 'd')] },
+];
+
+describe('Manifest', () => {
+    describe('buildManifest', () => {
+        test('should list files, tokens and the exports within each part', () => {
+            const manifest = buildManifest(chunks, { symbols, filename: i => `out.${i + 1}.md` });
+
+            expect(manifest.total).toBe(3);
+            expect(manifest.tokens).toBe(300);
+            expect(manifest.chunks[0]).toEqual({
+                chunk: 1,
+                file: 'out.1.md',
+                tokens: 100,
+                files: [{ path: 'src/api.ts', tokens: 1, lines: '1-10', part: '1/2', exports: ['get'] }],
+            });
+            expect(manifest.chunks[1].files[0].exports).toEqual(['post']);
+            expect(manifest.chunks[2].files.map(f => f.exports)).toEqual([['connect'], []]);
+        });
+
+        test('should leave out file names when chunks are not written to files', () => {
+            expect('file' in buildManifest(chunks).chunks[0]).toBe(false);
+        });
+    });
+
+    describe('getChunkPreamble', () => {
+        test('should say which chunk this is and what the others hold', () => {
+            const preamble = getChunkPreamble(buildManifest(chunks, { symbols }), 2);
+
+            expect(preamble).toContain('This is chunk 3 of 3: src/db.ts – src/util.ts (2 files).');
+            expect(preamble).toContain('- Chunk 1: src/api.ts (part 1/2) (1 file); exports get');
+            expect(preamble).toContain('- Chunk 2: src/api.ts (part 2/2) (1 file); exports post');
+            expect(preamble).not.toContain('- Chunk 3');
+            expect(preamble.startsWith('<!--') && preamble.endsWith('-->')).toBe(true);
+        });
+
+        test('should cap the exports listed per chunk', () => {
+            const many = new Map([['src/db.ts', Array.from({ length: 12 }, (_, i) => createSymbol(`fn${i}`, i * 3 + 1))]]);
+            const preamble = getChunkPreamble(buildManifest(chunks, { symbols: many }), 0);
+
+            expect(preamble).toContain('fn7 +4 more');
+        });
+    });
+
+    describe('formatManifest', () => {
+        test('should emit JSON for scripts', () => {
+            const manifest = buildManifest(chunks, { symbols });
+            expect(JSON.parse(formatManifest(manifest, 'json'))).toEqual(manifest);
+        });
+
+        test('should emit Markdown by default', () => {
+            const text = formatManifest(buildManifest(chunks, { symbols, filename: i => `out.${i + 1}.md` }));
+
+            expect(text).toContain('# Chunk Manifest');
+            expect(text).toContain('## Chunk 2/3 · out.2.md · 120 tokens');
+            expect(text).toContain('- src/api.ts (part 2/2) lines 11-20 (1) — exports post');
+        });
+    });
+
+    describe('chunk preambles', () => {
+        test('should open every chunk and keep it within the limit', () => {
+            const results = Array.from({ length: 16 }, (_, i) =>
+                createMockResult(`src/dir${i % 4}/file${i}.ts`, `export const value${i} = "${'x'.repeat(i * 10)}";\n`.repeat(4))
+            );
+            const formatOptions = { format: 'markdown' as const };
+            const split = splitToChunks(results, { maxTokensPerChunk: 900, formatOptions, manifest: true });
+
+            expect(split.length).toBeGreaterThan(1);
+            for (const chunk of split) {
+                const text = formatChunk(chunk, formatOptions);
+                expect(countTokens(text).tokens).toBeLessThanOrEqual(900);
+                expect(chunk.tokens).toBe(countTokens(text).tokens);
+                expect(text).toContain(`This is chunk ${chunk.index + 1} of ${split.length}:`);
+            }
+        });
+    });
+});
@@ -0,0 +1,88 @@
+/**
+ * Model Registry Module Tests
+ */
+import { describe, test, expect } from 'bun:test';
+import {
+    createModelRegistry,
+    getModel,
+    loadModelTokenizer,
+    getInputLimit,
+    getModelFit,
+    estimateInputCost,
+    formatCost,
+    MODEL_LIMITS,
+} from '../models';
+
+describe('Models', () => {
+    describe('getModel', () => {
+        test('should return built-in models', () => {
+            const model = getModel('gpt-4o');
+            expect(model.name).toBe('gpt-4o');
+            expect(model.contextWindow).toBe(128000);
+            expect(model.tokenizer).toBe('o200k_base');
+            expect(getModel('gpt-4').tokenizer).toBe('cl100k_base');
+            expect(getModel('claude-3-opus').tokenizer).toBe('claude-approx');
+        });
+
+        test('should resolve dated and suffixed names to the longest known model', () => {
+            expect(getModel('claude-3-opus-20240229').contextWindow).toBe(200000);
+            expect(getModel('gpt-4o-2024-08-06').tokenizer).toBe('o200k_base');
+            expect(getModel('gpt-4-0613').contextWindow).toBe(8192);
+            expect(getModel('gpt-4o-mini-2024-07-18').inputPrice).toBe(0.15);
+        });
+
+        test('should reject unknown models', () => {
+            expect(() => getModel('my-model')).toThrow('Unknown model "my-model"');
+        });
+    });
+
+    describe('createModelRegistry', () => {
+        test('should add user models with defaults', () => {
+            const registry = createModelRegistry({ 'local-llm': { contextWindow: 8192 } });
+            expect(getModel('local-llm', registry)).toEqual({
+                name: 'local-llm',
+                contextWindow: 8192,
+                outputReserve: 2048,
+                inputPrice: undefined,
+                tokenizer: 'o200k_base',
+            });
+        });
+
+        test('should override only the given fields of built-in models', () => {
+            const registry = createModelRegistry({ 'gpt-4o': { outputReserve: 1000 } });
+            const model = getModel('gpt-4o', registry);
+            expect(model.outputReserve).toBe(1000);
+            expect(model.contextWindow).toBe(128000);
+            expect(model.inputPrice).toBe(2.5);
+        });
+
+        test('should require a window for new models', () => {
+            expect(() => createModelRegistry({ 'local-llm': { inputPrice: 1 } })).toThrow('needs a contextWindow');
+        });
+
+        test('should keep MODEL_LIMITS in sync with the built-ins', () => {
+            expect(MODEL_LIMITS['gpt-4o']).toBe(128000);
+            expect(MODEL_LIMITS['claude-3-haiku']).toBe(200000);
+        });
+    });
+
+    test('should load the model tokenizer', async () => {
+        expect((await loadModelTokenizer('gpt-3.5-turbo')).id).toBe('cl100k_base');
+    });
+
+    test('should check token counts against the window', () => {
+        const model = { contextWindow: 1000, outputReserve: 200, tokenizer: 'o200k_base' };
+        expect(getInputLimit(model)).toBe(800);
+        expect(getModelFit(model, 800)).toBe('ok');
+        expect(getModelFit(model, 900)).toBe('over-reserve');
+        expect(getModelFit(model, 1001)).toBe('over-window');
+    });
+
+    test('should estimate input cost', () => {
+        const model = getModel('gpt-4o');
+        expect(estimateInputCost(model, 1_000_000)).toBe(2.5);
+        expect(estimateInputCost({ ...model, inputPrice: undefined }, 1000)).toBeUndefined();
+        expect(formatCost(2.5)).toBe('$2.50');
+        expect(formatCost(0.00125)).toBe('$0.0013');
+    });
+});
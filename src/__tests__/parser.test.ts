@@ -2,7 +2,7 @@
  * Parser Module Tests
  */
 import { describe, test, expect } from 'bun:test';
-import { parseSymbols, getSymbolSummary } from '../parser';
+import { parseSymbols, getSymbolSummary, getQualifiedName, isSymbolLanguage, type CodeSymbol } from '../parser';
 
 const sampleTS = `
 export function add(a: number, b: number): number {
@@ -25,6 +25,185 @@ interface Operation {
 type NumberPair = [number, number];
 `;
 
+const samplePython = `
+import os
+
+
+class Repository(Base):
+    """Stores items."""
+
+    def __init__(self, path: str):
+        self.path = path
+
+    @property
+    def size(self) -> int:
+        return len(self.items)
+
+    async def load(
+        self,
+        limit: int = 10,
+    ) -> list[str]:
+        return []
+
+
+def main() -> None:
+    print(Repository(os.getcwd()).size)
+
+
+type Vector = list[float]
+`;
+
+const sampleGo = `
+package store
+
+type ID string
+
+type Store interface {
+	Get(id ID) (string, error)
+}
+
+type Memory struct {
+	items map[ID]string
+}
+
+func NewMemory() *Memory {
+	return &Memory{items: map[ID]string{}}
+}
+
+func (m *Memory) Get(id ID) (string, error) {
+	return m.items[id], nil
+}
+`;
+
+const sampleRust = `
+use std::collections::HashMap;
+
+pub type Result<T> = std::result::Result<T, String>;
+
+pub struct Cache {
+    items: HashMap<String, String>,
+}
+
+pub enum Entry {
+    Hit(String),
+    Miss,
+}
+
+pub trait Store {
+    fn get(&self, key: &str) -> Option<String>;
+}
+
+pub async fn warm(cache: &mut Cache) -> Result<()> {
+    Ok(())
+}
+`;
+
+const sampleJava = `
+package com.example;
+
+public interface Repository<T> {
+    List<T> findAll();
+}
+
+public class UserService {
+    private final Repository<String> repository;
+
+    public UserService(Repository<String> repository) {
+        this.repository = repository;
+    }
+
+    private static <T> T first(List<T> items) {
+        return items.get(0);
+    }
+}
+
+enum Role {
+    ADMIN,
+    USER
+}
+`;
+
+const sampleC = `
+#include <stdio.h>
+
+typedef unsigned long size_type;
+
+struct point {
+    int x;
+    int y;
+};
+
+static int add(int a, int b) {
+    return a + b;
+}
+
+int main(int argc, char **argv) {
+    struct point p = { 1, 2 };
+    return add(p.x, p.y);
+}
+`;
+
+const sampleCpp = `
+#include <string>
+
+using Name = std::string;
+
+class Widget : public Base {
+public:
+    int size() const {
+        return size_;
+    }
+
+private:
+    int size_;
+};
+
+void Widget::resize(int n) {
+    size_ = n;
+}
+
+template <typename T>
+T largest(T a, T b) {
+    return a > b ? a : b;
+}
+`;
+
+/** Symbols each language's sample declares, as kind:name */
+const LANGUAGE_SAMPLES: Array<{ language: string; content: string; expected: string[] }> = [
+    {
+        language: 'python',
+        content: samplePython,
+        expected: ['class:Repository', 'method:__init__', 'method:size', 'method:load', 'function:main', 'type:Vector'],
+    },
+    {
+        language: 'go',
+        content: sampleGo,
+        expected: ['type:ID', 'interface:Store', 'class:Memory', 'function:NewMemory', 'method:Get'],
+    },
+    {
+        language: 'rust',
+        content: sampleRust,
+        expected: ['type:Result', 'class:Cache', 'class:Entry', 'interface:Store', 'method:get', 'function:warm'],
+    },
+    {
+        language: 'java',
+        content: sampleJava,
+        expected: ['interface:Repository', 'method:findAll', 'class:UserService', 'method:UserService', 'method:first', 'class:Role'],
+    },
+    {
+        language: 'c',
+        content: sampleC,
+        expected: ['type:size_type', 'class:point', 'function:add', 'function:main'],
+    },
+    {
+        language: 'cpp',
+        content: sampleCpp,
+        expected: ['type:Name', 'class:Widget', 'method:size', 'method:Widget::resize', 'function:largest'],
+    },
+];
+
+const describeSymbols = (symbols: CodeSymbol[]) => symbols.map(s => `${s.kind}:${s.name}`);
+
 describe('Parser', () => {
     describe('parseSymbols', () => {
         test('should parse function declarations', async () => {
@@ -82,6 +261,191 @@ describe('Parser', () => {
         });
     });
 
+    for (const { language, content, expected } of LANGUAGE_SAMPLES) {
+        describe(`parseSymbols for ${language}`, () => {
+            for (const treeSitter of [true, false]) {
+                const backend = treeSitter ? 'Tree-sitter' : 'regex';
+
+                test(`should find functions, methods, types and classes with ${backend}`, async () => {
+                    const symbols = await parseSymbols(content, language, { treeSitter });
+                    expect(describeSymbols(symbols)).toEqual(expect.arrayContaining(expected));
+                });
+
+                test(`should extract signatures without bodies with ${backend}`, async () => {
+                    const symbols = await parseSymbols(content, language, { treeSitter });
+                    for (const symbol of symbols) {
+                        expect(symbol.signature).not.toContain('\n');
+                        expect(symbol.signature).not.toMatch(/\{$/);
+                        expect(symbol.endLine).toBeGreaterThanOrEqual(symbol.startLine);
+                    }
+                });
+            }
+        });
+    }
+
+    describe('Python blocks', () => {
+        test('should end at the dedent and keep multi-line headers', async () => {
+            const symbols = await parseSymbols(samplePython, 'python', { treeSitter: false });
+            const load = symbols.find(s => s.name === 'load')!;
+            const vector = symbols.find(s => s.name === 'Vector')!;
+
+            expect(load.signature).toBe('async def load( self, limit: int = 10, ) -> list[str]');
+            expect(load.content.trimEnd().endsWith('return []')).toBe(true);
+            expect(vector.endLine).toBe(vector.startLine);
+        });
+    });
+
+    describe('hierarchy', () => {
+        const sampleController = `
+/**
+ * Writes chunks to files
+ */
+export class OutputController {
+    constructor(private options: Options) {}
+
+    /** Write every chunk */
+    async writeChunks(chunks: Chunk[]): Promise<void> {
+        const write = (chunk: Chunk) => chunk;
+    }
+
+    private static create(): OutputController {
+        return new OutputController({});
+    }
+
+    #reset() {}
+}
+
+class Internal {
+    run() {}
+}
+`;
+
+        const sampleStore = `
+@dataclass
+class Store:
+    """Keeps records.
+
+    Backed by a file.
+    """
+
+    def __init__(self):
+        pass
+
+    @staticmethod
+    def open(path):
+        """Open a store."""
+        return Store()
+
+    async def _load(self):
+        pass
+
+def _helper():
+    pass
+`;
+
+        test('should qualify methods with their class and link children', async () => {
+            const symbols = await parseSymbols(sampleController, 'typescript');
+            const byName = new Map(symbols.map(s => [getQualifiedName(s), s]));
+
+            expect([...byName.keys()]).toEqual([
+                'OutputController',
+                'OutputController.constructor',
+                'OutputController.writeChunks',
+                'OutputController.writeChunks.write',
+                'OutputController.create',
+                'OutputController.#reset',
+                'Internal',
+                'Internal.run',
+            ]);
+            expect(byName.get('OutputController')!.children).toEqual(['constructor', 'writeChunks', 'create', '#reset']);
+            expect(byName.get('OutputController.writeChunks')!.parent).toBe('OutputController');
+        });
+
+        test('should read exports, visibility and modifiers', async () => {
+            const symbols = await parseSymbols(sampleController, 'typescript');
+            const byName = new Map(symbols.map(s => [getQualifiedName(s), s]));
+
+            expect(byName.get('OutputController')).toMatchObject({ exported: true, doc: 'Writes chunks to files' });
+            expect(byName.get('OutputController.writeChunks')).toMatchObject({ exported: true, visibility: 'public', async: true, doc: 'Write every chunk' });
+            expect(byName.get('OutputController.create')).toMatchObject({ exported: false, visibility: 'private', static: true });
+            expect(byName.get('OutputController.#reset')!.visibility).toBe('private');
+            expect(byName.get('OutputController.writeChunks.write')!.exported).toBe(false);
+            expect(byName.get('Internal.run')).toMatchObject({ exported: false, visibility: 'public' });
+        });
+
+        for (const treeSitter of [true, false]) {
+            test(`should read Python docstrings, decorators and underscores with ${treeSitter ? 'Tree-sitter' : 'regex'}`, async () => {
+                const symbols = await parseSymbols(sampleStore, 'python', { treeSitter });
+                const byName = new Map(symbols.map(s => [getQualifiedName(s), s]));
+
+                expect(byName.get('Store')).toMatchObject({ exported: true, doc: 'Keeps records.\n\nBacked by a file.', children: ['__init__', 'open', '_load'] });
+                expect(byName.get('Store.__init__')!.visibility).toBe('public');
+                expect(byName.get('Store.open')).toMatchObject({ static: true, doc: 'Open a store.' });
+                expect(byName.get('Store._load')).toMatchObject({ visibility: 'protected', async: true, exported: false });
+                expect(byName.get('_helper')!.exported).toBe(false);
+            });
+
+            test(`should attach Go methods to their receiver with ${treeSitter ? 'Tree-sitter' : 'regex'}`, async () => {
+                const symbols = await parseSymbols(sampleGo, 'go', { treeSitter });
+                const methods = symbols.filter(s => s.kind === 'method');
+
+                expect(methods.length).toBeGreaterThan(0);
+                for (const method of methods) {
+                    expect(method.parent).toBe('Memory');
+                    expect(method.exported).toBe(/^[A-Z]/.test(method.name));
+                }
+            });
+        }
+
+        test('should attach Rust impl members to their type', async () => {
+            const symbols = await parseSymbols(`
+/// A point
+pub struct Point<T> { x: T }
+
+impl<T> Point<T> {
+    /// Make one
+    pub fn new(x: T) -> Self { Point { x } }
+    fn get(&self) -> &T { &self.x }
+}
+`, 'rust');
+            const byName = new Map(symbols.map(s => [getQualifiedName(s), s]));
+
+            expect(byName.get('Point')).toMatchObject({ doc: 'A point', children: ['new', 'get'] });
+            expect(byName.get('Point.new')).toMatchObject({ visibility: 'public', static: true, doc: 'Make one' });
+            expect(byName.get('Point.get')).toMatchObject({ visibility: 'private', exported: false });
+            expect(byName.get('Point.get')!.static).toBeUndefined();
+        });
+
+        test('should follow C++ access specifiers', async () => {
+            const symbols = await parseSymbols(`
+class Widget {
+    int id() { return 0; }
+public:
+    /// Resize it
+    void resize(int w) {
+    }
+protected:
+    void layout() {
+    }
+};
+`, 'cpp');
+            const byName = new Map(symbols.map(s => [getQualifiedName(s), s]));
+
+            expect(byName.get('Widget.id')!.visibility).toBe('private');
+            expect(byName.get('Widget.resize')).toMatchObject({ visibility: 'public', exported: true, doc: 'Resize it' });
+            expect(byName.get('Widget.layout')!.visibility).toBe('protected');
+        });
+    });
+
+    describe('isSymbolLanguage', () => {
+        test('should cover the languages with patterns', () => {
+            for (const language of ['typescript', 'python', 'go', 'rust', 'java', 'c', 'cpp']) {
+                expect(isSymbolLanguage(language)).toBe(true);
+            }
+            expect(isSymbolLanguage('markdown')).toBe(false);
+        });
+    });
+
     describe('getSymbolSummary', () => {
         test('should format summary', async () => {
             const symbols = await parseSymbols(sampleTS, 'typescript');
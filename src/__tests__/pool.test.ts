@@ -0,0 +1,84 @@
+/**
+ * Worker Pool Module Tests
+ */
+import { describe, test, expect } from 'bun:test';
+import { mapConcurrent, createTokenizerPool } from '../pool';
+import { countTokens, loadTokenizer } from '../tokenizer';
+
+describe('Pool', () => {
+    describe('mapConcurrent', () => {
+        test('should preserve input order', async () => {
+            const results = await mapConcurrent([30, 10, 20], 3, async (ms, i) => {
+                await Bun.sleep(ms);
+                return i;
+            });
+            expect(results).toEqual([0, 1, 2]);
+        });
+
+        test('should never exceed the concurrency limit', async () => {
+            let active = 0;
+            let peak = 0;
+
+            await mapConcurrent(Array.from({ length: 20 }, (_, i) => i), 4, async () => {
+                active++;
+                peak = Math.max(peak, active);
+                await Bun.sleep(1);
+                active--;
+            });
+
+            expect(peak).toBeLessThanOrEqual(4);
+        });
+
+        test('should handle empty input', async () => {
+            expect(await mapConcurrent([], 4, async x => x)).toEqual([]);
+        });
+    });
+
+    describe('TokenizerPool', () => {
+        test('should match main-thread token counts', async () => {
+            const pool = createTokenizerPool(2)!;
+            const contents = ['const a = 1;', 'function hello() {\n  return "world";\n}', ''];
+
+            try {
+                const counted = await Promise.all(contents.map(c => pool.count(c)));
+                expect(counted).toEqual(contents.map(c => countTokens(c)));
+            } finally {
+                pool.terminate();
+            }
+        });
+
+        test('should count with the requested tokenizer', async () => {
+            const pool = createTokenizerPool(1, 'cl100k_base')!;
+            const content = 'function hello() {\n  return "world";\n}';
+
+            try {
+                expect(await pool.count(content)).toEqual(countTokens(content, await loadTokenizer('cl100k_base')));
+            } finally {
+                pool.terminate();
+            }
+        });
+
+        test('should stop sending work to a crashed worker', async () => {
+            const pool = createTokenizerPool(2)!;
+            const crash = (worker: Worker) => {
+                worker.terminate();
+                worker.onerror!(new ErrorEvent('error', { message: 'boom' }));
+            };
+
+            try {
+                crash(pool['workers'][0]);
+                expect(await pool.count('const a = 1;')).toEqual(countTokens('const a = 1;'));
+                expect(await pool.count('const b = 2;')).toEqual(countTokens('const b = 2;'));
+
+                crash(pool['workers'][0]);
+                await expect(pool.count('const c = 3;')).rejects.toThrow(/no workers left/);
+            } finally {
+                pool.terminate();
+            }
+        });
+
+        test('should be disabled with zero workers', () => {
+            expect(createTokenizerPool(0)).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,57 @@
+/**
+ * Priority Rules Module Tests
+ */
+import { describe, test, expect } from 'bun:test';
+import { parsePriorityRule, parsePriorityRules, createRuleMatcher, parseQuota, getTopDirectory } from '../priority';
+
+describe('Priority rules', () => {
+    describe('parsePriorityRule', () => {
+        test('should parse weights and caps', () => {
+            expect(parsePriorityRule('src/core/**=10')).toEqual({ pattern: 'src/core/**', weight: 10 });
+            expect(parsePriorityRule('**/*.md=-5')).toEqual({ pattern: '**/*.md', weight: -5 });
+            expect(parsePriorityRule('docs/**:max=4k')).toEqual({ pattern: 'docs/**', weight: 1, maxTokens: 4000 });
+            expect(parsePriorityRule('./api=2.5:max=0')).toEqual({ pattern: 'api', weight: 2.5, maxTokens: 0 });
+        });
+
+        test('should reject malformed rules', () => {
+            expect(() => parsePriorityRule('src=high')).toThrow('Invalid priority rule "src=high"');
+            expect(() => parsePriorityRule('docs/**:max=lots')).toThrow('bad token cap "lots"');
+        });
+
+        test('should report every invalid rule at once', () => {
+            expect(() => parsePriorityRules(['a=x', 'b', 'c:max=y'])).toThrow(/"a=x"[\s\S]*"c:max=y"/);
+        });
+    });
+
+    describe('createRuleMatcher', () => {
+        const match = createRuleMatcher(parsePriorityRules(['src/core/**=10', '**/*.md=-5', 'api=3', 'src/**=1']));
+
+        test('should apply the first matching rule', () => {
+            expect(match('src/core/README.md')?.weight).toBe(10);
+            expect(match('docs/intro.md')?.weight).toBe(-5);
+            expect(match('src/util.ts')?.weight).toBe(1);
+            expect(match('lib/other.ts')).toBeUndefined();
+        });
+
+        test('should match plain names as whole path segments', () => {
+            expect(match('lib/api/client.ts')?.weight).toBe(3);
+            expect(match('lib/api.ts')?.weight).toBe(3);
+            expect(match('rapid/index.ts')).toBeUndefined();
+            expect(match('lib/api-client.ts')).toBeUndefined();
+        });
+    });
+
+    describe('parseQuota', () => {
+        test('should accept tokens or a share of the budget', () => {
+            expect(parseQuota('20k', 100000)).toBe(20000);
+            expect(parseQuota('25%', 100000)).toBe(25000);
+            expect(() => parseQuota('150%', 1000)).toThrow('at most 100%');
+            expect(() => parseQuota('half', 1000)).toThrow('Invalid quota "half"');
+        });
+    });
+
+    test('getTopDirectory should skip root files', () => {
+        expect(getTopDirectory('src/a/b.ts')).toBe('src');
+        expect(getTopDirectory('README.md')).toBeUndefined();
+    });
+});
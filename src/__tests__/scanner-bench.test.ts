@@ -0,0 +1,93 @@
+/**
+ * Scanner Benchmark
+ * Compares the single-walk pipeline against the previous per-pattern, per-file approach
+ * on a synthetic 10k-file tree. Wall-clock results depend on the machine, so it only runs
+ * when CTX_BENCH=1 (bun run bench).
+ */
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import { Glob } from 'bun';
+import { mkdir, writeFile, readFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { scan } from '../scanner';
+import { IgnoreMatcher } from '../ignore';
+import { countTokens } from '../tokenizer';
+
+const BENCH_DIR = join(import.meta.dir, '__fixtures_bench__');
+const DIRS = 100;
+const FILES_PER_DIR = 100;
+const EXTENSIONS = ['ts', 'js', 'tsx', 'jsx', 'py', 'rs', 'go', 'java', 'c', 'cpp', 'h', 'hpp', 'css', 'html', 'json', 'yaml', 'yml', 'md', 'sh', 'sql', 'vue', 'svelte'];
+const PATTERNS = EXTENSIONS.map(ext => `**/*.${ext}`);
+const IGNORE = ['node_modules/**', '.git/**', 'dist/**', 'build/**', '*.lock', 'package-lock.json', '.DS_Store'];
+
+/**
+ * The scanner as it worked before: one glob walk per pattern, a fresh Glob per ignore
+ * check, and sequential reads with tokenization on the main thread.
+ */
+async function legacyScan(cwd: string): Promise<string[]> {
+    const gitIgnore = await IgnoreMatcher.create(cwd);
+    const seen = new Set<string>();
+    const paths: string[] = [];
+
+    for (const pattern of PATTERNS) {
+        for await (const file of new Glob(pattern).scan({ cwd, dot: false, onlyFiles: true })) {
+            if (seen.has(file) || IGNORE.some(p => new Glob(p).match(file))) continue;
+            if (await gitIgnore.isIgnored(file)) continue;
+            seen.add(file);
+
+            const content = await readFile(join(cwd, file), 'utf-8');
+            countTokens(content);
+            paths.push(file);
+        }
+    }
+
+    return paths.sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Fastest wall-clock time of several runs
+ */
+async function bestOf(runs: number, fn: () => Promise<void>): Promise<number> {
+    let best = Infinity;
+    for (let i = 0; i < runs; i++) {
+        const start = performance.now();
+        await fn();
+        best = Math.min(best, performance.now() - start);
+    }
+    return best;
+}
+
+describe.if(process.env.CTX_BENCH === '1')('Scanner benchmark', () => {
+    beforeAll(async () => {
+        for (let d = 0; d < DIRS; d++) {
+            const dir = join(BENCH_DIR, 'src', `module${d}`);
+            await mkdir(dir, { recursive: true });
+            await Promise.all(Array.from({ length: FILES_PER_DIR }, (_, f) =>
+                writeFile(join(dir, `file${f}.ts`), `export const value${f} = ${d * f};\n`)
+            ));
+        }
+
+        // Ignored directories should be pruned, not walked
+        const deps = join(BENCH_DIR, 'node_modules', 'dep');
+        await mkdir(deps, { recursive: true });
+        await Promise.all(Array.from({ length: 500 }, (_, f) =>
+            writeFile(join(deps, `dep${f}.js`), 'module.exports = {};\n')
+        ));
+    }, 120_000);
+
+    afterAll(async () => {
+        await rm(BENCH_DIR, { recursive: true, force: true });
+    });
+
+    test('should scan a 10k-file tree faster than the per-pattern approach', async () => {
+        let legacyPaths: string[] = [];
+        let results: Awaited<ReturnType<typeof scan>> = [];
+
+        // Best of several runs, so filesystem caching and GC pauses do not decide the outcome
+        const legacyMs = await bestOf(5, async () => { legacyPaths = await legacyScan(BENCH_DIR); });
+        const ms = await bestOf(5, async () => { results = await scan({ cwd: BENCH_DIR, patterns: PATTERNS }); });
+
+        expect(results.length).toBe(DIRS * FILES_PER_DIR);
+        expect(results.map(r => r.path)).toEqual(legacyPaths);
+        expect(ms).toBeLessThan(legacyMs);
+    }, 120_000);
+});
@@ -1,8 +1,12 @@
 /**
  * Scanner Module Tests
  */
-import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
-import { scan } from '../scanner';
+import { describe, test, expect, beforeAll, afterAll, spyOn } from 'bun:test';
+import { scan, scanWithReport } from '../scanner';
+import { IgnoreMatcher, parseIgnoreRules } from '../ignore';
+import { loadTokenizer } from '../tokenizer';
+import * as pool from '../pool';
+import * as fs from 'fs/promises';
 import { mkdir, writeFile, rm } from 'fs/promises';
 import { join } from 'path';
 
@@ -89,5 +93,244 @@ describe('Scanner', () => {
         expect(results[0].tokenInfo.tokens).toBeGreaterThan(0);
         expect(results[0].tokenInfo.chars).toBe(results[0].content.length);
         expect(results[0].tokenInfo.lines).toBeGreaterThan(0);
+        expect(results[0].tokenInfo.tokenizer).toBe('o200k_base');
     });
+
+    test('should count tokens with the given tokenizer', async () => {
+        const results = await scan({
+            cwd: TEST_DIR,
+            patterns: ['**/main.ts'],
+            tokenizer: await loadTokenizer('cl100k_base'),
+        });
+
+        expect(results[0].tokenInfo.tokenizer).toBe('cl100k_base');
+    });
+});
+
+describe('Scanner gitignore semantics', () => {
+    const GIT_DIR = join(import.meta.dir, '__fixtures_gitignore__');
+
+    const files: Record<string, string> = {
+        '.git/info/exclude': '*.local.ts\n',
+        '.gitignore': [
+            '# build output',
+            'generated/',
+            '!generated/keep.ts',
+            '*.gen.ts',
+            '!keep.gen.ts',
+            '/root-only.ts',
+            'docs/*.ts',
+            '!allowed.local.ts',
+            '\\#hash.ts',
+        ].join('\n'),
+        'pkg/.gitignore': '*.ts\n!index.ts\n!*.gen.ts\n',
+        'src/a.ts': 'a',
+        'src/b.gen.ts': 'b',
+        'src/keep.gen.ts': 'keep',
+        'src/root-only.ts': 'nested',
+        'src/generated/y.ts': 'y',
+        'src/other.local.ts': 'local',
+        'src/allowed.local.ts': 'allowed',
+        'root-only.ts': 'root',
+        'generated/x.ts': 'x',
+        'generated/keep.ts': 'keep',
+        'docs/guide.ts': 'guide',
+        'docs/api/ref.ts': 'ref',
+        'pkg/index.ts': 'index',
+        'pkg/util.ts': 'util',
+        'pkg/c.gen.ts': 'c',
+        '#hash.ts': 'hash',
+    };
+
+    beforeAll(async () => {
+        for (const [file, content] of Object.entries(files)) {
+            await mkdir(join(GIT_DIR, file, '..'), { recursive: true });
+            await writeFile(join(GIT_DIR, file), content);
+        }
+    });
+
+    afterAll(async () => {
+        await rm(GIT_DIR, { recursive: true, force: true });
+    });
+
+    const scanPaths = async (cwd = GIT_DIR) =>
+        (await scan({ cwd, patterns: ['**/*.ts'] })).map(r => r.path);
+
+    test('should apply negation, anchoring and depth rules', async () => {
+        const paths = await scanPaths();
+
+        expect(paths).toContain('src/a.ts');
+        expect(paths).toContain('src/keep.gen.ts');
+        expect(paths).toContain('src/root-only.ts');
+        expect(paths).toContain('docs/api/ref.ts');
+        expect(paths).not.toContain('src/b.gen.ts');
+        expect(paths).not.toContain('root-only.ts');
+        expect(paths).not.toContain('docs/guide.ts');
+        expect(paths).not.toContain('src/generated/y.ts');
+        expect(paths).not.toContain('generated/x.ts');
+    });
+
+    test('should not re-include files inside an ignored directory', async () => {
+        const paths = await scanPaths();
+        expect(paths).not.toContain('generated/keep.ts');
+    });
+
+    test('should let nested .gitignore files override parent rules', async () => {
+        const paths = await scanPaths();
+
+        expect(paths).toContain('pkg/index.ts');
+        expect(paths).toContain('pkg/c.gen.ts');
+        expect(paths).not.toContain('pkg/util.ts');
+    });
+
+    test('should honor .git/info/exclude below .gitignore precedence', async () => {
+        const paths = await scanPaths();
+
+        expect(paths).not.toContain('src/other.local.ts');
+        expect(paths).toContain('src/allowed.local.ts');
+    });
+
+    test('should load explicitly named files regardless of ignore rules', async () => {
+        const report = await scanWithReport({
+            cwd: GIT_DIR,
+            patterns: ['**/*.md'],
+            paths: ['generated/x.ts', './src/b.gen.ts', 'src/b.gen.ts', 'missing.ts'],
+            explicit: true,
+        });
+
+        expect(report.results.map(r => r.path)).toEqual(['generated/x.ts', 'src/b.gen.ts']);
+        expect(report.skipped).toEqual([
+            expect.objectContaining({ path: 'missing.ts', reason: 'unreadable' }),
+        ]);
+    });
+
+    test('should apply parent ignore files when scanning a subdirectory', async () => {
+        const paths = await scanPaths(join(GIT_DIR, 'src'));
+
+        expect(paths).toContain('a.ts');
+        expect(paths).toContain('root-only.ts');
+        expect(paths).not.toContain('b.gen.ts');
+        expect(paths).not.toContain('generated/y.ts');
+    });
+
+    test('should treat escaped leading characters literally', () => {
+        const rules = parseIgnoreRules('\\#hash.ts\n\\!bang.ts\n# comment\n');
+
+        expect(rules.length).toBe(2);
+        expect(rules[0].negated).toBe(false);
+        expect(rules[0].regex.test('#hash.ts')).toBe(true);
+        expect(rules[1].regex.test('!bang.ts')).toBe(true);
+    });
+
+    test('should match "**" across directories', async () => {
+        const matcher = await IgnoreMatcher.create(GIT_DIR, { globalExcludesFile: false });
+        const [rule] = parseIgnoreRules('a/**/z.ts');
+
+        expect(rule.regex.test('a/z.ts')).toBe(true);
+        expect(rule.regex.test('a/b/c/z.ts')).toBe(true);
+        expect(rule.regex.test('b/a/z.ts')).toBe(false);
+        expect(await matcher.isIgnored('src/b.gen.ts')).toBe(true);
+        expect(await matcher.isIgnored('src/keep.gen.ts')).toBe(false);
+    });
+});
+
+describe('Scanner skip reporting', () => {
+    const SKIP_DIR = join(import.meta.dir, '__fixtures_skip__');
+
+    beforeAll(async () => {
+        await mkdir(SKIP_DIR, { recursive: true });
+        await writeFile(join(SKIP_DIR, 'app.js'), 'export const app = 1;\n');
+        await writeFile(join(SKIP_DIR, 'image.js'), new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01, 0x02]));
+        await writeFile(join(SKIP_DIR, 'bundle.js'), 'var a=1;'.repeat(500));
+        await writeFile(join(SKIP_DIR, 'schema.js'), '// @generated by protoc\nexport const schema = {};\n');
+        await writeFile(join(SKIP_DIR, 'big.js'), '// padding\n'.repeat(200));
+    });
+
+    afterAll(async () => {
+        await rm(SKIP_DIR, { recursive: true, force: true });
+    });
+
+    test('should skip binary, generated and minified files with reasons', async () => {
+        const report = await scanWithReport({ cwd: SKIP_DIR, patterns: ['**/*.js'] });
+        const reasons = Object.fromEntries(report.skipped.map(s => [s.path, s.reason]));
+
+        expect(report.results.map(r => r.path)).toEqual(['app.js', 'big.js']);
+        expect(reasons).toEqual({
+            'bundle.js': 'minified',
+            'image.js': 'binary',
+            'schema.js': 'generated',
+        });
+    });
+
+    test('should include generated files when skipGenerated is false', async () => {
+        const report = await scanWithReport({ cwd: SKIP_DIR, patterns: ['**/*.js'], skipGenerated: false });
+
+        expect(report.results.map(r => r.path)).toContain('schema.js');
+        expect(report.results.map(r => r.path)).toContain('bundle.js');
+        expect(report.skipped.map(s => s.reason)).toEqual(['binary']);
+    });
+
+    test('should enforce size and token limits', async () => {
+        const bySize = await scanWithReport({ cwd: SKIP_DIR, patterns: ['**/big.js'], maxFileSize: 1000 });
+        expect(bySize.skipped[0]).toMatchObject({ path: 'big.js', reason: 'too-large' });
+
+        const byTokens = await scanWithReport({ cwd: SKIP_DIR, patterns: ['**/big.js'], maxFileTokens: 100 });
+        expect(byTokens.skipped[0]).toMatchObject({ path: 'big.js', reason: 'too-many-tokens' });
+    });
+});
+
+describe('Scanner walk', () => {
+    const WALK_DIR = join(import.meta.dir, '__fixtures_walk__');
+    const FILES = 300;
+
+    beforeAll(async () => {
+        await mkdir(join(WALK_DIR, 'src', 'small'), { recursive: true });
+        await mkdir(join(WALK_DIR, 'src', 'large'), { recursive: true });
+        await mkdir(join(WALK_DIR, 'node_modules', 'dep', 'lib'), { recursive: true });
+
+        await writeFile(join(WALK_DIR, 'src', 'small', 'a.ts'), 'export const a = 1;\n');
+        await Promise.all(Array.from({ length: FILES }, (_, i) =>
+            writeFile(join(WALK_DIR, 'src', 'large', `file${i}.ts`), `export const value${i} = ${i};\n`)
+        ));
+        await writeFile(join(WALK_DIR, 'node_modules', 'dep', 'lib', 'index.ts'), 'export {};\n');
+    });
+
+    afterAll(async () => {
+        await rm(WALK_DIR, { recursive: true, force: true });
+    });
+
+    test('should list each directory once and never enter ignored ones', async () => {
+        const readdir = spyOn(fs, 'readdir');
+        const readFile = spyOn(fs, 'readFile');
+        try {
+            const results = await scan({ cwd: WALK_DIR, patterns: ['**/*.ts', '**/*.js', '**/*.json'], workers: 0 });
+
+            const listed = readdir.mock.calls.map(call => String(call[0]).slice(WALK_DIR.length));
+            expect(listed.sort()).toEqual(['', '/src', '/src/large', '/src/small']);
+            expect(readFile.mock.calls.some(call => String(call[0]).includes('node_modules'))).toBe(false);
+            expect(results).toHaveLength(FILES + 1);
+        } finally {
+            readdir.mockRestore();
+            readFile.mockRestore();
+        }
+    });
+
+    test('should tokenize in workers only above the file threshold', async () => {
+        const createPool = spyOn(pool, 'createTokenizerPool');
+        try {
+            const small = await scan({ cwd: WALK_DIR, patterns: ['src/small/**/*.ts'], workers: 1 });
+            expect(small).toHaveLength(1);
+            expect(createPool).not.toHaveBeenCalled();
+
+            const large = await scan({ cwd: WALK_DIR, patterns: ['src/large/**/*.ts'], workers: 1 });
+            expect(large).toHaveLength(FILES);
+            expect(createPool).toHaveBeenCalledTimes(1);
+            expect(createPool.mock.calls[0][0]).toBe(1);
+            // Counts match the main thread whichever way they were made
+            const mainThread = await scan({ cwd: WALK_DIR, patterns: ['src/large/**/*.ts'], workers: 0 });
+            expect(large.map(r => r.tokenInfo.tokens)).toEqual(mainThread.map(r => r.tokenInfo.tokens));
+        } finally {
+            createPool.mockRestore();
+        }
+    }, 30_000);
 });
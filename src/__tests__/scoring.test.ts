@@ -0,0 +1,111 @@
+/**
+ * Scoring Module Tests
+ */
+import { describe, test, expect } from 'bun:test';
+import { mkdtemp, rm, utimes, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+    ruleScorer,
+    recencyScorer,
+    centralityScorer,
+    proximityScorer,
+    combineScorers,
+    getModifiedTimes,
+} from '../scoring';
+import { buildImportGraph } from '../imports';
+import { parsePriorityRules } from '../priority';
+import type { ScanResult } from '../scanner';
+import { countTokens } from '../tokenizer';
+
+const createMockResult = (path: string, content = ''): ScanResult => ({
+    path,
+    content,
+    language: 'typescript',
+    tokenInfo: countTokens(content),
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('Scoring', () => {
+    describe('ruleScorer', () => {
+        test('should take the weight of the first matching rule', () => {
+            const score = ruleScorer(parsePriorityRules(['src/core/**=10', '**/*.md=-5', 'api=2']));
+
+            expect(score(createMockResult('src/core/api/client.ts'))).toBe(10);
+            expect(score(createMockResult('src/api.ts'))).toBe(2);
+            expect(score(createMockResult('src/rapid.ts'))).toBe(0);
+            expect(score(createMockResult('docs/intro.md'))).toBe(-5);
+        });
+    });
+
+    describe('recencyScorer', () => {
+        test('should halve the score every half-life', () => {
+            const now = Date.now();
+            const modified = new Map([['new.ts', now], ['old.ts', now - 30 * DAY_MS]]);
+            const score = recencyScorer(modified, 30, now);
+
+            expect(score(createMockResult('new.ts'))).toBe(1);
+            expect(score(createMockResult('old.ts'))).toBeCloseTo(0.5);
+            expect(score(createMockResult('unknown.ts'))).toBe(0);
+        });
+    });
+
+    describe('getModifiedTimes', () => {
+        test('should fall back to file times outside git', async () => {
+            const dir = await mkdtemp(join(tmpdir(), 'ctx-scoring-'));
+            try {
+                await writeFile(join(dir, 'a.ts'), 'export {};\n');
+                const date = new Date('2024-01-02T00:00:00Z');
+                await utimes(join(dir, 'a.ts'), date, date);
+
+                const times = await getModifiedTimes(dir, ['a.ts', 'missing.ts']);
+                expect(times.get('a.ts')).toBe(date.getTime());
+                expect(times.has('missing.ts')).toBe(false);
+            } finally {
+                await rm(dir, { recursive: true, force: true });
+            }
+        });
+    });
+
+    describe('centralityScorer', () => {
+        test('should rank widely imported files highest', () => {
+            const results = [
+                createMockResult('src/a.ts', "import { x } from './shared';"),
+                createMockResult('src/b.ts', "import { x } from './shared';"),
+                createMockResult('src/c.ts', "import { a } from './a';"),
+                createMockResult('src/shared.ts', 'export const x = 1;'),
+            ];
+            const score = centralityScorer(buildImportGraph(results));
+
+            expect(score(results[3])).toBe(1);
+            expect(score(results[3])).toBeGreaterThan(score(results[0]));
+            expect(score(results[0])).toBeGreaterThan(score(results[2]));
+        });
+
+        test('should score nothing without files', () => {
+            const score = centralityScorer({ imports: new Map(), importedBy: new Map() });
+            expect(score(createMockResult('a.ts'))).toBe(0);
+        });
+    });
+
+    describe('proximityScorer', () => {
+        test('should halve with each import step from the entries', () => {
+            const score = proximityScorer(new Map([['main.ts', 0], ['a.ts', 2]]));
+
+            expect(score(createMockResult('main.ts'))).toBe(1);
+            expect(score(createMockResult('a.ts'))).toBe(0.25);
+            expect(score(createMockResult('other.ts'))).toBe(0);
+        });
+    });
+
+    describe('combineScorers', () => {
+        test('should add weighted scores', () => {
+            const score = combineScorers([
+                { scorer: () => 1, weight: 2 },
+                { scorer: result => result.path.length, weight: 0.5 },
+            ]);
+            expect(score(createMockResult('abcd'))).toBe(4);
+        });
+    });
+});
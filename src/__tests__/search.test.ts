@@ -0,0 +1,90 @@
+/**
+ * Search Module Tests
+ */
+import { describe, test, expect } from 'bun:test';
+import { SearchIndex, splitIdentifiers } from '../search';
+import { fitToBudget } from '../budget';
+import type { CodeSymbol } from '../parser';
+import type { ScanResult } from '../scanner';
+import { countTokens } from '../tokenizer';
+
+const createMockResult = (path: string, content: string, language = 'typescript'): ScanResult => ({
+    path,
+    content,
+    language,
+    tokenInfo: countTokens(content),
+});
+
+const files: ScanResult[] = [
+    createMockResult('src/auth/refresh.ts', [
+        '// Rotates refresh tokens on every use',
+        'export async function rotateRefreshToken(session: Session) {',
+        '    const next = issueToken(session.user_id);',
+        '    return next;',
+        '}',
+    ].join('\n')),
+    createMockResult('src/auth/login.ts', 'export function login(user: string, password: string) {\n    return issueToken(user);\n}'),
+    createMockResult('src/ui/button.tsx', 'export const Button = () => <button>Click</button>;', 'tsx'),
+    createMockResult('scripts/cleanup.py', '# remove expired refresh tokens\ndef cleanup():\n    pass\n', 'python'),
+];
+
+describe('Search', () => {
+    describe('splitIdentifiers', () => {
+        test('should split camelCase, snake_case and paths', () => {
+            const terms = splitIdentifiers('rotateRefreshToken user_id src/auth-flow.ts');
+            expect(terms).toContain('refresh');
+            expect(terms).toContain('token');
+            expect(terms).toContain('rotaterefreshtoken');
+            expect(terms).toContain('user');
+            expect(terms).toContain('auth');
+            expect(terms).toContain('flow');
+        });
+
+        test('should split acronyms and stem plurals', () => {
+            expect(splitIdentifiers('HTTPServer tokens')).toEqual(['http', 'server', 'httpserver', 'token']);
+        });
+
+        test('should drop keywords and single letters', () => {
+            expect(splitIdentifiers('const x = function')).toEqual([]);
+        });
+    });
+
+    describe('SearchIndex', () => {
+        test('should rank the most relevant file first', () => {
+            const matches = new SearchIndex(files).search('refresh token rotation');
+
+            expect(matches[0].path).toBe('src/auth/refresh.ts');
+            expect(matches.map(m => m.path)).not.toContain('src/ui/button.tsx');
+            expect(matches[0].terms).toContain('refresh');
+        });
+
+        test('should match words in comments', () => {
+            const matches = new SearchIndex(files).search('expired');
+            expect(matches.map(m => m.path)).toEqual(['scripts/cleanup.py']);
+        });
+
+        test('should match parsed symbol names', () => {
+            const symbols = new Map<string, CodeSymbol[]>([['src/ui/button.tsx', [{
+                name: 'PrimaryAction', kind: 'variable', startLine: 1, endLine: 1, signature: '', content: '', tokens: 0,
+            }]]]);
+            const matches = new SearchIndex(files, { symbols }).search('primary action');
+            expect(matches[0].path).toBe('src/ui/button.tsx');
+        });
+
+        test('should limit results', () => {
+            expect(new SearchIndex(files).search('token', 1).length).toBe(1);
+        });
+
+        test('should find nothing for unknown terms', () => {
+            expect(new SearchIndex(files).search('kubernetes')).toEqual([]);
+        });
+
+        test('should order the budget by relevance', () => {
+            const scorer = new SearchIndex(files).scorer('refresh token rotation');
+            const result = fitToBudget(files, { maxTokens: files[0].tokenInfo.tokens, scorer });
+
+            expect(scorer(files[0])).toBe(1);
+            expect(result.included.map(r => r.path)).toEqual(['src/auth/refresh.ts']);
+        });
+    });
+});
@@ -0,0 +1,165 @@
+/**
+ * Selectors Module Tests
+ */
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import { mkdtemp, mkdir, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { isSelector, parseSelector, parseSelectors, resolveSelectors, selectSymbols } from '../selectors';
+import { parseSymbols } from '../parser';
+import { format } from '../formatter';
+import { fitToBudget } from '../budget';
+import { splitToChunks } from '../chunker';
+
+let dir: string;
+
+const write = async (file: string, content: string) => {
+    await mkdir(join(dir, file, '..'), { recursive: true });
+    await writeFile(join(dir, file), content);
+};
+
+const outputSource = [
+    'export class OutputController {',
+    '    write(content: string) {',
+    '        return content;',
+    '    }',
+    '',
+    '    writeChunks(chunks: string[]) {',
+    '        return chunks.length;',
+    '    }',
+    '}',
+    '',
+].join('\n');
+
+describe('parseSelector', () => {
+    test('should parse symbols, line ranges and whole files', () => {
+        expect(parseSelector('./src/output.ts#OutputController.writeChunks')).toEqual({
+            spec: './src/output.ts#OutputController.writeChunks',
+            path: 'src/output.ts',
+            symbol: 'OutputController.writeChunks',
+        });
+        expect(parseSelector('src/parser.ts:40-120').lines).toEqual({ start: 40, end: 120 });
+        expect(parseSelector('src/parser.ts:40').lines).toEqual({ start: 40, end: 40 });
+        expect(parseSelector('src/**/*.ts#parse*')).toMatchObject({ path: 'src/**/*.ts', symbol: 'parse*' });
+        expect(parseSelector('src/index.ts')).toEqual({ spec: 'src/index.ts', path: 'src/index.ts' });
+    });
+
+    test('should tell selectors from directories', () => {
+        expect(isSelector('src/a.ts#run')).toBe(true);
+        expect(isSelector('src/a.ts:10-20')).toBe(true);
+        expect(isSelector('src')).toBe(false);
+    });
+
+    test('should report every invalid selector at once', () => {
+        expect(() => parseSelectors(['src/a.ts#', 'src/a.ts:20-10'])).toThrow(/"src\/a\.ts#"[\s\S]*"src\/a\.ts:20-10"/);
+    });
+
+    test('should split comma-separated selectors outside braces', () => {
+        const selectors = parseSelectors(['src/a.ts#run,src/{b,c}.ts#stop']);
+        expect(selectors.map(s => s.path)).toEqual(['src/a.ts', 'src/{b,c}.ts']);
+    });
+});
+
+describe('selectSymbols', () => {
+    test('should prefer qualified names and keep the outermost glob matches', async () => {
+        const symbols = await parseSymbols(outputSource, 'typescript');
+
+        expect(selectSymbols(symbols, 'OutputController.write').map(s => s.startLine)).toEqual([2]);
+        expect(selectSymbols(symbols, 'writeChunks').map(s => s.name)).toEqual(['writeChunks']);
+        expect(selectSymbols(symbols, 'write*').map(s => s.name)).toEqual(['write', 'writeChunks']);
+        expect(selectSymbols(symbols, 'Output*').map(s => s.name)).toEqual(['OutputController']);
+    });
+});
+
+describe('resolveSelectors', () => {
+    beforeAll(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'ctx-selectors-'));
+
+        await write('src/output.ts', outputSource);
+        await write('src/parser.ts', Array.from({ length: 30 }, (_, i) => `const line${i + 1} = ${i + 1};`).join('\n') + '\n');
+        await write('src/lib/parse.ts', 'export function parseA() {\n    return 1;\n}\n\nexport function other() {}\n');
+        await write('README.md', '# Title\n');
+    });
+
+    afterAll(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    const scanOptions = () => ({ cwd: dir, patterns: ['**/*.ts', '**/*.md'] });
+
+    test('should resolve symbols, line ranges and symbol globs to fragments', async () => {
+        const { results } = await resolveSelectors(parseSelectors([
+            'src/output.ts#OutputController.writeChunks',
+            'src/parser.ts:10-12',
+            'src/**/*.ts#parse*',
+        ]), scanOptions());
+
+        expect(results.map(r => [r.path, r.range])).toEqual([
+            ['src/lib/parse.ts', { startLine: 1, endLine: 3, symbol: 'parseA' }],
+            ['src/output.ts', { startLine: 6, endLine: 8, symbol: 'OutputController.writeChunks' }],
+            ['src/parser.ts', { startLine: 10, endLine: 12 }],
+        ]);
+        expect(results[2].content).toBe('const line10 = 10;\nconst line11 = 11;\nconst line12 = 12;');
+    });
+
+    test('should render fragments with their symbol and lines', async () => {
+        const { results } = await resolveSelectors(parseSelectors(['src/output.ts#writeChunks']), scanOptions());
+        const output = format(results, { format: 'markdown' });
+
+        expect(output).toContain('<file path="src/output.ts" language="typescript" symbol="OutputController.writeChunks" lines="6-8">');
+        expect(output).not.toContain('return content;');
+    });
+
+    test('should count fragments with their own tokens in the budget', async () => {
+        const { results } = await resolveSelectors(parseSelectors(['src/output.ts#writeChunks', 'src/output.ts']), scanOptions());
+        expect(results).toHaveLength(1);
+        expect(results[0].range).toBeUndefined();
+
+        const fragments = (await resolveSelectors(parseSelectors(['src/output.ts#writeChunks']), scanOptions())).results;
+        const budget = fitToBudget(fragments, { maxTokens: 1000 });
+        expect(budget.totalTokens).toBe(fragments[0].tokenInfo.tokens);
+        expect(fragments[0].tokenInfo.tokens).toBeLessThan(results[0].tokenInfo.tokens);
+    });
+
+    test('should merge overlapping fragments of a file', async () => {
+        const contained = (await resolveSelectors(parseSelectors([
+            'src/output.ts#writeChunks',
+            'src/output.ts:1-9',
+        ]), scanOptions())).results;
+        expect(contained.map(r => r.range)).toEqual([{ startLine: 1, endLine: 9 }]);
+
+        const overlapping = (await resolveSelectors(parseSelectors([
+            'src/parser.ts:3-6',
+            'src/parser.ts:5-8',
+            'src/parser.ts:20',
+        ]), scanOptions())).results;
+        expect(overlapping.map(r => r.range)).toEqual([{ startLine: 3, endLine: 8 }, { startLine: 20, endLine: 20 }]);
+        expect(overlapping[0].content.split('\n')).toHaveLength(6);
+    });
+
+    test('should chunk fragments by their own tokens', async () => {
+        const { results } = await resolveSelectors(parseSelectors(['src/output.ts#write*', 'src/parser.ts:1-5']), scanOptions());
+        const chunks = splitToChunks(results, { maxTokensPerChunk: 10000 });
+
+        expect(chunks).toHaveLength(1);
+        expect(chunks[0].files.map(f => f.range?.symbol ?? `${f.range?.startLine}-${f.range?.endLine}`))
+            .toEqual(['OutputController.write', 'OutputController.writeChunks', '1-5']);
+        expect(chunks[0].tokens).toBe(results.reduce((sum, r) => sum + r.tokenInfo.tokens, 0));
+    });
+
+    test('should list every selector that matches nothing', async () => {
+        const resolving = resolveSelectors(parseSelectors([
+            'src/output.ts#Missing',
+            'src/gone.ts:1-2',
+            'src/parser.ts:99',
+            'README.md#Title',
+            'lib/**/*.ts#parse*',
+        ]), scanOptions());
+
+        await expect(resolving).rejects.toThrow(/no symbol "Missing" in src\/output\.ts/);
+        await expect(resolving).rejects.toThrow(/cannot read src\/gone\.ts/);
+        await expect(resolving).rejects.toThrow(/src\/parser\.ts has 31 lines/);
+        await expect(resolving).rejects.toThrow(/symbols are not parsed in markdown files/);
+        await expect(resolving).rejects.toThrow(/no file matches lib\/\*\*\/\*\.ts/);
+    });
+});
@@ -0,0 +1,192 @@
+/**
+ * Context Sets Module Tests
+ */
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import { mkdtemp, mkdir, writeFile, rm, readFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+    parseSelection,
+    updateSelection,
+    saveContextSet,
+    loadContextSet,
+    listContextSets,
+    deleteContextSet,
+    resolveContextSet,
+    getSetFile,
+    SETS_DIR,
+} from '../sets';
+
+let dir: string;
+
+const write = async (file: string, content: string) => {
+    await mkdir(join(dir, file, '..'), { recursive: true });
+    await writeFile(join(dir, file), content);
+};
+
+describe('parseSelection', () => {
+    test('should classify paths, globs and symbols', () => {
+        expect(parseSelection(['./src/a.ts', 'src/**/*.ts', 'src/b.ts#parse', 'docs/'])).toEqual({
+            paths: ['src/a.ts', 'docs'],
+            globs: ['src/**/*.ts'],
+            symbols: ['src/b.ts#parse'],
+        });
+    });
+});
+
+describe('updateSelection', () => {
+    const set = { paths: ['docs', 'src/a.ts'], globs: ['src/**/*.ts'], symbols: ['lib/c.ts#parse'] };
+    const available = ['docs/guide.md', 'docs/intro.md', 'lib/c.ts', 'src/a.ts', 'src/b.ts', 'README.md'];
+
+    test('should keep globs and symbols and replace the explicit paths', () => {
+        const selected = ['docs/guide.md', 'docs/intro.md', 'src/a.ts', 'src/b.ts', 'README.md'];
+        expect(updateSelection(set, selected, available)).toEqual({
+            paths: ['docs', 'README.md'],
+            globs: ['src/**/*.ts'],
+            symbols: ['lib/c.ts#parse'],
+        });
+    });
+
+    test('should list the remaining files of a directory that is no longer fully selected', () => {
+        expect(updateSelection(set, ['docs/intro.md'], available).paths).toEqual(['docs/intro.md']);
+    });
+
+    test('should save every selected file of a new set as a path', () => {
+        expect(updateSelection(undefined, ['src/a.ts', 'lib/c.ts'], available)).toEqual({
+            paths: ['src/a.ts', 'lib/c.ts'],
+            globs: [],
+            symbols: [],
+        });
+    });
+});
+
+describe('Context sets', () => {
+    beforeAll(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'ctx-sets-'));
+
+        await write('src/auth/login.ts', 'export function login() {\n    return true;\n}\n');
+        await write('src/auth/token.ts', 'export const token = 1;\n');
+        await write('src/session.ts', [
+            'export function start() {',
+            '    return 1;',
+            '}',
+            '',
+            'export function stop() {',
+            '    return 0;',
+            '}',
+            '',
+        ].join('\n'));
+        await write('src/store.ts', [
+            'export class Store {',
+            '    get(key: string) {',
+            '        return key;',
+            '    }',
+            '}',
+            '',
+        ].join('\n'));
+        await write('src/ignored.ts', 'export {};\n');
+        await write('.gitignore', 'src/ignored.ts\n');
+    });
+
+    afterAll(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    const scanOptions = () => ({ cwd: dir, patterns: ['**/*.ts'] });
+
+    test('should round-trip, list and delete sets', async () => {
+        const file = await saveContextSet(dir, {
+            name: 'auth',
+            paths: ['src/session.ts'],
+            globs: ['src/auth/**'],
+            symbols: [],
+            options: { format: 'xml', budget: '8k' },
+        });
+        expect(file).toBe(join(dir, SETS_DIR, 'auth.json'));
+
+        const loaded = await loadContextSet(dir, 'auth');
+        expect(loaded.paths).toEqual(['src/session.ts']);
+        expect(loaded.options).toEqual({ format: 'xml', budget: '8k' });
+        expect(loaded.updatedAt).toBeDefined();
+
+        await saveContextSet(dir, { name: 'other', paths: [], globs: [], symbols: [], options: {} });
+        expect((await listContextSets(dir)).map(s => s.name)).toEqual(['auth', 'other']);
+
+        expect(await deleteContextSet(dir, 'other')).toBe(true);
+        expect(await deleteContextSet(dir, 'other')).toBe(false);
+        expect((await listContextSets(dir)).map(s => s.name)).toEqual(['auth']);
+    });
+
+    test('should reject unsafe names and missing sets', async () => {
+        expect(() => getSetFile(dir, '../escape')).toThrow('Invalid set name');
+        await expect(loadContextSet(dir, 'nope')).rejects.toThrow('Context set "nope" not found');
+    });
+
+    test('should validate stored options', async () => {
+        await write(`${SETS_DIR}/broken.json`, JSON.stringify({ paths: [], options: { budget: 'huge' } }));
+        await expect(loadContextSet(dir, 'broken')).rejects.toThrow('Invalid budget format: huge');
+        await rm(join(dir, SETS_DIR, 'broken.json'));
+    });
+
+    test('should resolve paths, globs and symbols', async () => {
+        const resolved = await resolveContextSet({
+            name: 'mixed',
+            paths: ['src/ignored.ts'],
+            globs: ['src/auth/**'],
+            symbols: ['src/session.ts#stop'],
+            options: {},
+        }, scanOptions());
+
+        expect(resolved.missing).toEqual([]);
+        expect(resolved.results.map(r => r.path)).toEqual([
+            'src/auth/login.ts',
+            'src/auth/token.ts',
+            'src/ignored.ts',
+            'src/session.ts',
+        ]);
+
+        const fragment = resolved.results.find(r => r.path === 'src/session.ts')!;
+        expect(fragment.range).toEqual({ startLine: 5, endLine: 7, symbol: 'stop' });
+        expect(fragment.content).toContain('return 0;');
+        expect(fragment.content).not.toContain('return 1;');
+    });
+
+    test('should merge overlapping symbols of the same file', async () => {
+        const resolved = await resolveContextSet({
+            name: 'nested',
+            paths: [],
+            globs: [],
+            symbols: ['src/store.ts#Store.get', 'src/store.ts#Store'],
+            options: {},
+        }, scanOptions());
+
+        expect(resolved.missing).toEqual([]);
+        expect(resolved.results).toHaveLength(1);
+        expect(resolved.results[0].range).toEqual({ startLine: 1, endLine: 5, symbol: 'Store' });
+        expect(resolved.results[0].content.match(/return key;/g)).toHaveLength(1);
+    });
+
+    test('should warn about entries that no longer exist', async () => {
+        const resolved = await resolveContextSet({
+            name: 'stale',
+            paths: ['src/session.ts', 'src/removed.ts'],
+            globs: ['lib/**'],
+            symbols: ['src/auth/login.ts#logout', 'src/gone.ts#start'],
+            options: {},
+        }, scanOptions());
+
+        expect(resolved.results.map(r => r.path)).toEqual(['src/session.ts']);
+        expect(resolved.missing).toEqual([
+            { kind: 'path', entry: 'src/removed.ts' },
+            { kind: 'glob', entry: 'lib/**' },
+            { kind: 'symbol', entry: 'src/auth/login.ts#logout' },
+            { kind: 'symbol', entry: 'src/gone.ts#start' },
+        ]);
+    });
+
+    test('should store sets as readable JSON', async () => {
+        const content = await readFile(join(dir, SETS_DIR, 'auth.json'), 'utf-8');
+        expect(JSON.parse(content).globs).toEqual(['src/auth/**']);
+        expect(content.endsWith('\n')).toBe(true);
+    });
+});
@@ -0,0 +1,142 @@
+/**
+ * Stubs Module Tests
+ */
+import { describe, test, expect } from 'bun:test';
+import { generateStub } from '../stubs';
+import { formatBlock } from '../formatter';
+import { countTokens } from '../tokenizer';
+import type { ScanResult } from '../scanner';
+
+const sampleTS = `import { readFile } from 'fs/promises';
+import type { Options } from './options';
+
+export const DEFAULT_LIMIT = 100;
+
+export enum Mode {
+    Fast = 'fast',
+    Safe = 'safe',
+}
+
+export interface Loader {
+    load(path: string): Promise<string>;
+}
+
+/** Loads files */
+export class FileLoader implements Loader {
+    private cache = new Map<string, string>();
+
+    constructor(private options: Options) {}
+
+    /** Read a file, once */
+    async load(path: string): Promise<string> {
+        const helper = () => {
+            return path;
+        };
+        return readFile(helper(), 'utf8');
+    }
+}
+
+export const double = (n: number) => n * 2;
+
+export const handler = async (path: string) => {
+    const text = await readFile(path, 'utf8');
+    return text.length;
+};
+`;
+
+describe('Stubs', () => {
+    describe('generateStub', () => {
+        test('should keep imports, constants, enums, interfaces and fields as written', async () => {
+            const stub = (await generateStub(sampleTS, 'typescript'))!;
+
+            expect(stub).toContain("import { readFile } from 'fs/promises';");
+            expect(stub).toContain('export const DEFAULT_LIMIT = 100;');
+            expect(stub).toContain("    Safe = 'safe',");
+            expect(stub).toContain('    load(path: string): Promise<string>;\n}');
+            expect(stub).toContain('    private cache = new Map<string, string>();');
+            expect(stub).toContain('/** Read a file, once */');
+        });
+
+        test('should replace function and method bodies, nested functions included', async () => {
+            const stub = (await generateStub(sampleTS, 'typescript'))!;
+
+            expect(stub).toContain('    async load(path: string): Promise<string> { … }');
+            expect(stub).toContain('export const handler = async (path: string) => { … };');
+            expect(stub).not.toContain('readFile(path');
+            expect(stub).not.toContain('helper');
+            expect(stub.match(/async load\(/g)).toHaveLength(1);
+        });
+
+        test('should keep empty bodies and expression-bodied arrow functions', async () => {
+            const stub = (await generateStub(sampleTS, 'typescript'))!;
+
+            expect(stub).toContain('    constructor(private options: Options) {}');
+            expect(stub).toContain('export const double = (n: number) => n * 2;');
+        });
+
+        test('should keep Python docstrings and stand in "..." for the rest', async () => {
+            const stub = await generateStub([
+                'class Store:',
+                '    """Keeps records."""',
+                '',
+                '    limit: int = 10',
+                '',
+                '    def open(self, path):',
+                '        """Open a store."""',
+                '        return Store()',
+                '',
+                'def close(store):',
+                '    store.flush()',
+                '',
+            ].join('\n'), 'python');
+
+            expect(stub).toBe([
+                'class Store:',
+                '    """Keeps records."""',
+                '',
+                '    limit: int = 10',
+                '',
+                '    def open(self, path):',
+                '        """Open a store."""',
+                '        ...',
+                '',
+                'def close(store):',
+                '    ...',
+                '',
+            ].join('\n'));
+        });
+
+        test('should stub Go, Rust, Java and C++ bodies', async () => {
+            const samples: Array<[string, string, string]> = [
+                ['go', 'func (s *Server) Start() error {\n\treturn nil\n}\n', 'func (s *Server) Start() error { … }\n'],
+                ['rust', 'impl Point {\n    pub fn new() -> Self {\n        Point {}\n    }\n}\n', 'impl Point {\n    pub fn new() -> Self { … }\n}\n'],
+                ['java', 'class A {\n    int x = 1;\n    A() {\n        x = 2;\n    }\n}\n', 'class A {\n    int x = 1;\n    A() { … }\n}\n'],
+                ['cpp', 'int Widget::size() const {\n    return 1;\n}\n', 'int Widget::size() const { … }\n'],
+            ];
+
+            for (const [language, content, expected] of samples) {
+                expect(await generateStub(content, language)).toBe(expected);
+            }
+        });
+
+        test('should return null for languages without a grammar', async () => {
+            expect(await generateStub('# Title\n\nText\n', 'markdown')).toBeNull();
+        });
+    });
+
+    describe('signatures output', () => {
+        test('should prefer the stub to the symbol outline', async () => {
+            const result: ScanResult = {
+                path: 'src/loader.ts',
+                content: sampleTS,
+                language: 'typescript',
+                tokenInfo: countTokens(sampleTS),
+            };
+            const stubs = new Map([[result.path, (await generateStub(sampleTS, 'typescript'))!]]);
+            const block = formatBlock(result, { format: 'markdown', signaturesOnly: true, stubs });
+
+            expect(block).toContain('export enum Mode {');
+            expect(block).not.toContain('// class: FileLoader');
+        });
+    });
+});
@@ -2,7 +2,16 @@
  * Tokenizer Module Tests
  */
 import { describe, test, expect } from 'bun:test';
-import { countTokens, estimateTokens, formatTokens, parseBudget, getTokenColor } from '../tokenizer';
+import {
+    countTokens,
+    estimateTokens,
+    formatTokens,
+    parseBudget,
+    getTokenColor,
+    getTokenCount,
+    getTokenizerIds,
+    loadTokenizer,
+} from '../tokenizer';
 
 describe('Tokenizer', () => {
     describe('countTokens (precise)', () => {
@@ -32,6 +41,48 @@ describe('Tokenizer', () => {
         });
     });
 
+    describe('tokenizer registry', () => {
+        const code = 'export function parseConfig(raw: unknown): Record<string, string> { return {}; }';
+
+        test('should list the available tokenizers', () => {
+            expect(getTokenizerIds()).toEqual(['o200k_base', 'cl100k_base', 'claude-approx']);
+        });
+
+        test('should record the tokenizer in TokenInfo', async () => {
+            expect(countTokens(code).tokenizer).toBe('o200k_base');
+
+            const cl100k = await loadTokenizer('cl100k_base');
+            const info = countTokens(code, cl100k);
+            expect(info.tokenizer).toBe('cl100k_base');
+            expect(info.tokens).toBeGreaterThan(0);
+        });
+
+        test('should scale the Claude approximation from cl100k', async () => {
+            const cl100k = await loadTokenizer('cl100k_base');
+            const claude = await loadTokenizer('claude-approx');
+            expect(claude.count(code)).toBeGreaterThan(cl100k.count(code));
+        });
+
+        test('should reject unknown tokenizers', async () => {
+            await expect(loadTokenizer('nope')).rejects.toThrow('Unknown tokenizer "nope"');
+        });
+
+        test('should recount results from another tokenizer only', async () => {
+            const cl100k = await loadTokenizer('cl100k_base');
+            const result = { content: code, tokenInfo: { ...countTokens(code), tokens: 999 } };
+            expect(getTokenCount(result)).toBe(999);
+            expect(getTokenCount(result, await loadTokenizer('o200k_base'))).toBe(999);
+            expect(getTokenCount(result, cl100k)).toBe(cl100k.count(code));
+        });
+
+        test('should treat counts without a tokenizer as the default one', async () => {
+            const cl100k = await loadTokenizer('cl100k_base');
+            const result = { content: code, tokenInfo: { chars: code.length, lines: 1, tokens: 999 } };
+            expect(getTokenCount(result, await loadTokenizer('o200k_base'))).toBe(999);
+            expect(getTokenCount(result, cl100k)).toBe(cl100k.count(code));
+        });
+    });
+
     describe('estimateTokens (fast)', () => {
         test('should estimate English text', () => {
             const estimate = estimateTokens('Hello World');
@@ -0,0 +1,45 @@
+/**
+ * TUI Output Tests
+ */
+import { describe, test, expect } from 'bun:test';
+import { formatSelection } from '../tui/App';
+import type { ScanResult } from '../scanner';
+import { countTokens } from '../tokenizer';
+
+// Assembled at runtime so the fixture itself never looks like a real credential
+const GITHUB_TOKEN = 'ghp_' + 'a1B2c3D4e5F6g7H8i9J0k1L2m3N4o5P6q7R8';
+
+const result = (path: string, content: string): ScanResult => ({
+    path,
+    content,
+    language: 'typescript',
+    tokenInfo: countTokens(content),
+});
+
+describe('formatSelection', () => {
+    const selection = [
+        result('src/clean.ts', 'export const clean = 1;\n'),
+        result('src/config.ts', `export const token = "${GITHUB_TOKEN}";\n`),
+    ];
+
+    test('should redact secrets and return the findings for the summary', () => {
+        const { output, findings } = formatSelection(selection, {});
+        expect(output).toContain('[REDACTED:github-token#1]');
+        expect(output).not.toContain(GITHUB_TOKEN);
+        expect(findings.map(f => [f.path, f.line, f.rule])).toEqual([['src/config.ts', 1, 'github-token']]);
+    });
+
+    test('should refuse the selection in strict mode, listing every finding', () => {
+        expect(() => formatSelection(selection, {}, true)).toThrow(/src\/config\.ts:1 \(github-token\)/);
+    });
+
+    test('should emit a clean selection in strict mode', () => {
+        const { output, findings } = formatSelection(selection.slice(0, 1), {}, true);
+        expect(output).toContain('export const clean = 1;');
+        expect(findings).toEqual([]);
+    });
+
+    test('should leave secrets alone when redaction is disabled', () => {
+        expect(formatSelection(selection, false, true).output).toContain(GITHUB_TOKEN);
+    });
+});
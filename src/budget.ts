@@ -2,78 +2,444 @@
  * Budget Module
  * Context budget control for fitting content within token limits
  */
-import type { ScanResult } from './scanner';
-import { formatTokens } from './tokenizer';
+import type { Fidelity, ScanResult } from './scanner';
+import { countTokens, formatTokens, getTokenCount, type Tokenizer } from './tokenizer';
+import { format, estimateFormatCost, estimateFileCost, type FormatOptions } from './formatter';
+import { ruleScorer, type Scorer } from './scoring';
+import { createRuleMatcher, getTopDirectory, parsePriorityRules, type PriorityRule } from './priority';
+
+/** greedy: highest score first, then smallest first. value: most score-weighted tokens that fit */
+export type BudgetStrategy = 'greedy' | 'value';
 
 export interface BudgetConfig {
     maxTokens: number;
     reserveTokens?: number;
+    /**
+     * Ordered priority rules: "glob", "glob=weight", "glob:max=tokens" (see parsePriorityRule).
+     * The first matching rule sets a file's weight and the cap it counts against.
+     */
     priorityPatterns?: string[];
+    /** Most tokens the files of any one top-level directory may take together */
+    dirQuota?: number;
+    /** Tokenizer the budget is measured in; results counted by another one are recounted */
+    tokenizer?: Tokenizer;
+    /**
+     * Measure files as format() will emit them with these options, including the fixed header.
+     * The formatted output of `included` is then guaranteed to fit the budget.
+     */
+    formatOptions?: FormatOptions;
+    /**
+     * Shorten files before excluding any: compact, then signatures only (needs
+     * formatOptions.symbols), then a path line in the tree. Requires formatOptions.
+     */
+    degrade?: boolean;
+    /** How files are chosen (default: greedy) */
+    strategy?: BudgetStrategy;
+    /** Value of each file, also ordering the greedy fill; defaults to the matching priority rule's weight */
+    scorer?: Scorer;
+}
+
+export interface FileScore {
+    path: string;
+    score: number;
+}
+
+export interface FileFidelity {
+    path: string;
+    fidelity: Fidelity;
+    /** Tokens the file takes at that fidelity */
+    tokens: number;
 }
 
 export interface BudgetResult {
     included: ScanResult[];
     excluded: ScanResult[];
+    /** Raw content tokens, or the formatted output's tokens when formatOptions is given */
     totalTokens: number;
     budgetUsed: number;
     budgetRemaining: number;
+    /** Final fidelity of every input result, in input order */
+    fidelity: FileFidelity[];
+    /** Score of every input result, in input order */
+    scores: FileScore[];
+}
+
+/** Degradation steps, from most to least complete */
+export const FIDELITY_LADDER: Fidelity[] = ['full', 'compact', 'signatures', 'path', 'excluded'];
+
+/** Capacity steps of the knapsack table, and its largest size in cells */
+const KNAPSACK_RESOLUTION = 2000;
+const KNAPSACK_MAX_CELLS = 50_000_000;
+
+interface ScoredFile {
+    result: ScanResult;
+    tokens: number;
+    score: number;
+}
+
+/** Token limits each file counts against: its priority rule's cap and its directory's quota */
+type Quotas = Map<ScanResult, Array<{ group: string; limit: number }>>;
+
+/**
+ * Collect the limits that apply to each file
+ */
+function getQuotas(results: ScanResult[], rules: PriorityRule[], dirQuota?: number): Quotas {
+    const match = createRuleMatcher(rules);
+
+    return new Map(results.map(result => {
+        const limits: Array<{ group: string; limit: number }> = [];
+        const rule = match(result.path);
+        if (rule?.maxTokens !== undefined) {
+            limits.push({ group: `rule:${rules.indexOf(rule)}`, limit: rule.maxTokens });
+        }
+        const dir = getTopDirectory(result.path);
+        if (dirQuota !== undefined && dir) {
+            limits.push({ group: `dir:${dir}`, limit: dirQuota });
+        }
+        return [result, limits];
+    }));
+}
+
+/**
+ * Whether a file's tokens still fit every limit it counts against
+ */
+function fitsQuotas(quotas: Quotas, used: Map<string, number>, result: ScanResult, tokens: number): boolean {
+    return quotas.get(result)!.every(({ group, limit }) => (used.get(group) ?? 0) + tokens <= limit);
+}
+
+/**
+ * Charge a file's tokens (or a change in them) to its limits
+ */
+function useQuotas(quotas: Quotas, used: Map<string, number>, result: ScanResult, tokens: number): void {
+    for (const { group } of quotas.get(result)!) {
+        used.set(group, (used.get(group) ?? 0) + tokens);
+    }
+}
+
+/**
+ * Sort files by score, highest first; smaller files break ties
+ */
+function sortByScore(files: ScoredFile[]): ScoredFile[] {
+    return files.sort((a, b) => b.score - a.score || a.tokens - b.tokens);
 }
 
 /**
- * Sort files by priority (smaller files first, matching patterns get priority)
+ * Worth of including a file: its score for every token it brings, so one important module
+ * outweighs many small files of the same score
  */
-function sortByPriority(
-    files: Array<{ result: ScanResult; tokens: number }>,
-    priorityPatterns: string[] = []
-): Array<{ result: ScanResult; tokens: number }> {
-    return files.sort((a, b) => {
-        // Priority patterns first
-        const aMatch = priorityPatterns.some(p => a.result.path.includes(p));
-        const bMatch = priorityPatterns.some(p => b.result.path.includes(p));
-        if (aMatch !== bMatch) return aMatch ? -1 : 1;
+function value(file: ScoredFile): number {
+    return file.score * Math.max(file.tokens, 1);
+}
+
+/**
+ * 0/1 knapsack over a scaled capacity. Token counts are rounded up to whole capacity steps,
+ * so the chosen files always fit; the table is capped at KNAPSACK_MAX_CELLS.
+ */
+function knapsack(files: ScoredFile[], capacity: number): Set<ScanResult> {
+    const chosen = new Set<ScanResult>();
+    if (files.length === 0 || capacity <= 0) return chosen;
+
+    const steps = Math.max(1, Math.min(KNAPSACK_RESOLUTION, Math.floor(KNAPSACK_MAX_CELLS / files.length)));
+    const unit = Math.max(1, Math.ceil(capacity / steps));
+    const slots = Math.floor(capacity / unit) + 1;
+    const weights = files.map(file => Math.ceil(file.tokens / unit));
 
-        // Smaller files first (more files = more context coverage)
-        return a.tokens - b.tokens;
+    const best = new Float64Array(slots);
+    const taken = new Uint8Array(files.length * slots);
+    files.forEach((file, i) => {
+        for (let c = slots - 1; c >= weights[i]; c--) {
+            const total = best[c - weights[i]] + value(file);
+            if (total > best[c]) {
+                best[c] = total;
+                taken[i * slots + c] = 1;
+            }
+        }
     });
+
+    let c = slots - 1;
+    for (let i = files.length - 1; i >= 0; i--) {
+        if (taken[i * slots + c]) {
+            chosen.add(files[i].result);
+            c -= weights[i];
+        }
+    }
+    return chosen;
+}
+
+/**
+ * Add files in order while they fit the capacity and their quotas
+ */
+function fill(files: ScoredFile[], capacity: number, quotas: Quotas, chosen = new Set<ScanResult>()): Set<ScanResult> {
+    const quotaUsed = new Map<string, number>();
+    let used = 0;
+    for (const file of files.filter(f => chosen.has(f.result))) {
+        useQuotas(quotas, quotaUsed, file.result, file.tokens);
+        used += file.tokens;
+    }
+
+    for (const file of files) {
+        if (!chosen.has(file.result) && used + file.tokens <= capacity &&
+            fitsQuotas(quotas, quotaUsed, file.result, file.tokens)) {
+            chosen.add(file.result);
+            useQuotas(quotas, quotaUsed, file.result, file.tokens);
+            used += file.tokens;
+        }
+    }
+    return chosen;
+}
+
+/**
+ * Files with the most value that fit the capacity: the knapsack's choice or a fill in score
+ * order, whichever is worth more, topped up with whatever still fits. The knapsack ignores
+ * quotas, so its choice is trimmed to them, lowest score first.
+ */
+function selectByValue(files: ScoredFile[], capacity: number, quotas: Quotas): Set<ScanResult> {
+    const valued = files.filter(file => file.score > 0);
+    const worth = (chosen: Set<ScanResult>) =>
+        valued.filter(file => chosen.has(file.result)).reduce((sum, file) => sum + value(file), 0);
+
+    const knapsackChoice = knapsack(valued.filter(file => file.tokens <= capacity), capacity);
+    const exact = fill(valued.filter(file => knapsackChoice.has(file.result)), capacity, quotas);
+    const greedy = fill(valued, capacity, quotas);
+
+    return fill(files, capacity, quotas, worth(greedy) > worth(exact) ? greedy : exact);
 }
 
 /**
- * Fit files within token budget using greedy algorithm
+ * Cache a function of a step count, so each output is formatted and counted once
+ */
+function memoize(fn: (count: number) => number): (count: number) => number {
+    const cache = new Map<number, number>();
+    return count => {
+        if (!cache.has(count)) cache.set(count, fn(count));
+        return cache.get(count)!;
+    };
+}
+
+/**
+ * Fewest of `total` shortening steps after which the output fits, by binary search: each step
+ * only shrinks the output, so it is measured O(log total) times instead of once per step.
+ * Returns `total` when even that does not fit.
+ */
+function findFewestSteps(total: number, fits: (count: number) => boolean): number {
+    if (fits(0)) return 0;
+
+    let low = 1;
+    let high = total;
+    while (low < high) {
+        const mid = Math.floor((low + high) / 2);
+        if (fits(mid)) high = mid;
+        else low = mid + 1;
+    }
+    return high;
+}
+
+/**
+ * Fit files within token budget, greedily or by total score
  */
 export function fitToBudget(results: ScanResult[], config: BudgetConfig): BudgetResult {
-    const { maxTokens, reserveTokens = 0, priorityPatterns = [] } = config;
+    const { maxTokens, reserveTokens = 0, priorityPatterns = [], tokenizer, formatOptions, strategy = 'greedy' } = config;
     const effectiveBudget = maxTokens - reserveTokens;
+    const rules = parsePriorityRules(priorityPatterns);
+    const scorer = config.scorer ?? ruleScorer(rules);
+    const quotas = getQuotas(results, rules, config.dirQuota);
+
+    const cost = formatOptions ? estimateFormatCost(results, formatOptions, tokenizer) : null;
+    const filesWithTokens = results.map((r, i) => ({
+        result: r,
+        tokens: cost ? cost.files[i] : getTokenCount(r, tokenizer),
+        score: scorer(r),
+    }));
+    const scores = filesWithTokens.map(f => ({ path: f.result.path, score: f.score }));
+    const sortedFiles = sortByScore([...filesWithTokens]);
 
-    const filesWithTokens = results.map(r => ({ result: r, tokens: r.tokenInfo.tokens }));
-    const sortedFiles = sortByPriority(filesWithTokens, priorityPatterns);
+    if (config.degrade && formatOptions) {
+        return { ...fitWithDegradation(results, sortedFiles, effectiveBudget, quotas, config), scores };
+    }
 
     const included: ScanResult[] = [];
     const excluded: ScanResult[] = [];
-    let totalTokens = 0;
-
-    for (const { result, tokens } of sortedFiles) {
-        if (totalTokens + tokens <= effectiveBudget) {
-            included.push(result);
-            totalTokens += tokens;
-        } else {
-            excluded.push(result);
+    let totalTokens = cost ? cost.frame : 0;
+
+    if (strategy === 'value') {
+        const chosen = selectByValue(sortedFiles, effectiveBudget - totalTokens, quotas);
+        for (const { result, tokens } of sortedFiles) {
+            if (chosen.has(result)) {
+                included.push(result);
+                totalTokens += tokens;
+            } else {
+                excluded.push(result);
+            }
         }
+    } else {
+        const quotaUsed = new Map<string, number>();
+        for (const { result, tokens } of sortedFiles) {
+            if (totalTokens + tokens <= effectiveBudget && fitsQuotas(quotas, quotaUsed, result, tokens)) {
+                included.push(result);
+                useQuotas(quotas, quotaUsed, result, tokens);
+                totalTokens += tokens;
+            } else {
+                excluded.push(result);
+            }
+        }
+    }
+
+    if (formatOptions) {
+        // Estimates are not exact: measure the real output and drop the lowest-priority files until it fits
+        const measure = memoize((count: number) => countTokens(format(included.slice(0, count), formatOptions), tokenizer).tokens);
+        const dropped = findFewestSteps(included.length, count => measure(included.length - count) <= effectiveBudget);
+        totalTokens = measure(included.length - dropped);
+        excluded.unshift(...included.splice(included.length - dropped));
     }
 
+    const tokensOf = new Map(filesWithTokens.map(f => [f.result, f.tokens]));
+    const excludedSet = new Set(excluded);
+
     return {
         included,
         excluded,
         totalTokens,
         budgetUsed: totalTokens,
         budgetRemaining: effectiveBudget - totalTokens,
+        fidelity: results.map(result => excludedSet.has(result)
+            ? { path: result.path, fidelity: 'excluded', tokens: 0 }
+            : { path: result.path, fidelity: 'full', tokens: tokensOf.get(result)! }),
+        scores,
     };
 }
 
+/**
+ * Result as it is emitted at a fidelity level
+ */
+function atFidelity(result: ScanResult, fidelity: Fidelity): ScanResult {
+    return fidelity === 'full' || fidelity === 'excluded' ? result : { ...result, fidelity };
+}
+
+/**
+ * Whether a result can be shortened to a level: diffs are never rewritten,
+ * and signatures need whole files with a stub or parsed symbols
+ */
+function canDegrade(result: ScanResult, fidelity: Fidelity, options: FormatOptions): boolean {
+    switch (fidelity) {
+        case 'compact':
+            return !result.diff;
+        case 'signatures':
+            return !result.diff && !result.range
+                && (options.stubs?.has(result.path) || (options.symbols?.get(result.path)?.length ?? 0) > 0);
+        case 'path':
+            return options.includeTree !== false;
+        default:
+            return true;
+    }
+}
+
+/**
+ * Walk the ladder one rung at a time: every file (lowest priority first) is compacted before any
+ * is cut to signatures, and so on, stopping as soon as the estimate fits. Files over a quota
+ * keep being shortened until their group fits. The real output is then measured, and the
+ * lowest-priority files are shortened further until it fits too.
+ */
+function fitWithDegradation(
+    results: ScanResult[],
+    sortedFiles: ScoredFile[],
+    effectiveBudget: number,
+    quotas: Quotas,
+    config: BudgetConfig
+): Omit<BudgetResult, 'scores'> {
+    const { tokenizer } = config;
+    const formatOptions = config.formatOptions!;
+    const costAt = (result: ScanResult, fidelity: Fidelity) =>
+        fidelity === 'excluded' ? 0 : estimateFileCost(atFidelity(result, fidelity), formatOptions, tokenizer);
+
+    const entries = sortedFiles.map(({ result, tokens }) => ({ result, fidelity: 'full' as Fidelity, tokens }));
+    let estimate = estimateFormatCost([], formatOptions, tokenizer).frame +
+        entries.reduce((sum, entry) => sum + entry.tokens, 0);
+    const quotaUsed = new Map<string, number>();
+    for (const entry of entries) {
+        useQuotas(quotas, quotaUsed, entry.result, entry.tokens);
+    }
+
+    const overQuota = (entry: (typeof entries)[number]) =>
+        quotas.get(entry.result)!.some(({ group, limit }) => quotaUsed.get(group)! > limit);
+
+    const degrade = (entry: (typeof entries)[number], fidelity: Fidelity) => {
+        const tokens = costAt(entry.result, fidelity);
+        estimate += tokens - entry.tokens;
+        useQuotas(quotas, quotaUsed, entry.result, tokens - entry.tokens);
+        entry.fidelity = fidelity;
+        entry.tokens = tokens;
+    };
+
+    for (const fidelity of FIDELITY_LADDER.slice(1)) {
+        for (let i = entries.length - 1; i >= 0; i--) {
+            const entry = entries[i];
+            if ((estimate > effectiveBudget || overQuota(entry)) &&
+                FIDELITY_LADDER.indexOf(entry.fidelity) < FIDELITY_LADDER.indexOf(fidelity) &&
+                canDegrade(entry.result, fidelity, formatOptions)) {
+                degrade(entry, fidelity);
+            }
+        }
+    }
+
+    // Further shortening goes one rung at a time, lowest-priority file first, down to excluded
+    const steps: Array<{ entry: (typeof entries)[number]; fidelity: Fidelity }> = [];
+    for (let i = entries.length - 1; i >= 0; i--) {
+        const entry = entries[i];
+        for (const fidelity of FIDELITY_LADDER.slice(FIDELITY_LADDER.indexOf(entry.fidelity) + 1)) {
+            if (canDegrade(entry.result, fidelity, formatOptions)) steps.push({ entry, fidelity });
+        }
+    }
+
+    const render = (count: number) => {
+        const fidelities = new Map(entries.map(entry => [entry, entry.fidelity]));
+        for (const step of steps.slice(0, count)) fidelities.set(step.entry, step.fidelity);
+        return entries
+            .filter(entry => fidelities.get(entry) !== 'excluded')
+            .map(entry => atFidelity(entry.result, fidelities.get(entry)!));
+    };
+    const measure = memoize((count: number) => countTokens(format(render(count), formatOptions), tokenizer).tokens);
+
+    const taken = findFewestSteps(steps.length, count => measure(count) <= effectiveBudget);
+    const included = render(taken);
+    const totalTokens = measure(taken);
+    for (const { entry, fidelity } of steps.slice(0, taken)) {
+        degrade(entry, fidelity);
+    }
+
+    const byResult = new Map(entries.map(entry => [entry.result, entry]));
+
+    return {
+        included,
+        excluded: entries.filter(e => e.fidelity === 'excluded').map(e => e.result),
+        totalTokens,
+        budgetUsed: totalTokens,
+        budgetRemaining: effectiveBudget - totalTokens,
+        fidelity: results.map(result => {
+            const { fidelity, tokens } = byResult.get(result)!;
+            return { path: result.path, fidelity, tokens };
+        }),
+    };
+}
+
+/**
+ * Count files per fidelity level (e.g., "3 full, 2 compact, 1 excluded")
+ */
+export function getFidelitySummary(fidelity: FileFidelity[]): string {
+    return FIDELITY_LADDER
+        .map(level => [level, fidelity.filter(f => f.fidelity === level).length] as const)
+        .filter(([, count]) => count > 0)
+        .map(([level, count]) => `${count} ${level}`)
+        .join(', ');
+}
+
 /**
  * Get budget summary message
  */
 export function getBudgetSummary(result: BudgetResult, maxTokens: number): string {
     const pct = ((result.budgetUsed / maxTokens) * 100).toFixed(1);
+    const shortened = result.included.filter(r => r.fidelity).length;
     return `${formatTokens(result.budgetUsed)}/${formatTokens(maxTokens)} (${pct}%) | ` +
-        `${result.included.length} included, ${result.excluded.length} excluded`;
+        `${result.included.length} included, ` +
+        (shortened > 0 ? `${shortened} shortened, ` : '') +
+        `${result.excluded.length} excluded`;
 }
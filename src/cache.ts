@@ -0,0 +1,145 @@
+/**
+ * Cache Module
+ * Persistent token and symbol cache keyed by content hash, tokenizer and parser version
+ */
+import { createHash } from 'crypto';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { homedir } from 'os';
+import { dirname, join, resolve } from 'path';
+import { TOKENIZER_ID, type TokenInfo } from './tokenizer';
+import { getParserId, type CodeSymbol } from './parser';
+
+/** Bump when the on-disk layout changes */
+const CACHE_FORMAT_VERSION = 2;
+
+interface CacheEntry {
+    hash: string;
+    tokenInfo?: TokenInfo;
+    symbols?: CodeSymbol[];
+}
+
+interface CacheFile {
+    version: number;
+    tokenizer: string;
+    parser: string;
+    entries: Record<string, CacheEntry>;
+}
+
+export interface TokenCacheOptions {
+    /** Directory holding cache files (default: $XDG_CACHE_HOME/ctx) */
+    cacheDir?: string;
+    /** Tokenizer the cached counts belong to (default: TOKENIZER_ID) */
+    tokenizer?: string;
+}
+
+/**
+ * Default cache directory, following the XDG base directory spec
+ */
+export function getCacheDir(): string {
+    const cacheHome = process.env.XDG_CACHE_HOME || join(homedir(), '.cache');
+    return join(cacheHome, 'ctx');
+}
+
+/**
+ * Hash file content for cache lookups
+ */
+export function hashContent(content: string): string {
+    return createHash('sha1').update(content).digest('hex');
+}
+
+/**
+ * On-disk cache of token counts and parsed symbols for one project.
+ * Entries are only reused when the file's content hash matches; a different
+ * tokenizer discards everything, a different parser discards only symbols.
+ */
+export class TokenCache {
+    private dirty = false;
+
+    private constructor(
+        private readonly filePath: string,
+        private readonly data: CacheFile
+    ) {}
+
+    /**
+     * Open (or start) the cache for a project directory
+     */
+    static async open(cwd: string, options: TokenCacheOptions = {}): Promise<TokenCache> {
+        const { cacheDir = getCacheDir(), tokenizer = TOKENIZER_ID } = options;
+        const parser = await getParserId();
+        const projectKey = hashContent(resolve(cwd)).slice(0, 16);
+        const filePath = join(cacheDir, `${projectKey}.json`);
+
+        let data: CacheFile = { version: CACHE_FORMAT_VERSION, tokenizer, parser, entries: {} };
+
+        try {
+            const stored = JSON.parse(await readFile(filePath, 'utf-8')) as CacheFile;
+            if (stored.version === CACHE_FORMAT_VERSION && stored.tokenizer === tokenizer) {
+                if (stored.parser !== parser) {
+                    for (const entry of Object.values(stored.entries)) {
+                        delete entry.symbols;
+                    }
+                }
+                data = { ...stored, parser };
+            }
+        } catch {
+            // Missing or corrupt cache: start fresh
+        }
+
+        return new TokenCache(filePath, data);
+    }
+
+    /**
+     * Look up an entry whose content hash still matches
+     */
+    private lookup(path: string, content: string): CacheEntry | undefined {
+        const entry = this.data.entries[path];
+        return entry && entry.hash === hashContent(content) ? entry : undefined;
+    }
+
+    /**
+     * Get (or create) the entry for the current content, dropping stale data
+     */
+    private upsert(path: string, content: string): CacheEntry {
+        const hash = hashContent(content);
+        let entry = this.data.entries[path];
+        if (!entry || entry.hash !== hash) {
+            entry = { hash };
+            this.data.entries[path] = entry;
+        }
+        this.dirty = true;
+        return entry;
+    }
+
+    getTokens(path: string, content: string): TokenInfo | undefined {
+        return this.lookup(path, content)?.tokenInfo;
+    }
+
+    setTokens(path: string, content: string, tokenInfo: TokenInfo): void {
+        this.upsert(path, content).tokenInfo = tokenInfo;
+    }
+
+    getSymbols(path: string, content: string): CodeSymbol[] | undefined {
+        return this.lookup(path, content)?.symbols;
+    }
+
+    setSymbols(path: string, content: string, symbols: CodeSymbol[]): void {
+        this.upsert(path, content).symbols = symbols;
+    }
+
+    /**
+     * Persist the cache if anything changed
+     */
+    async save(): Promise<void> {
+        if (!this.dirty) return;
+        await mkdir(dirname(this.filePath), { recursive: true });
+        await writeFile(this.filePath, JSON.stringify(this.data), 'utf-8');
+        this.dirty = false;
+    }
+}
+
+/**
+ * Remove every cached project
+ */
+export async function clearCache(cacheDir = getCacheDir()): Promise<void> {
+    await rm(cacheDir, { recursive: true, force: true });
+}
@@ -3,38 +3,192 @@
  * Split large content into manageable chunks
  */
 import type { ScanResult } from './scanner';
-import { formatTokens } from './tokenizer';
+import type { CodeSymbol, SymbolKind } from './parser';
+import { countTokens, formatTokens, getTokenCount, type Tokenizer } from './tokenizer';
+import { format, estimateFormatCost, estimateFileCost, type FormatOptions } from './formatter';
+import { IMPORT_STATEMENT_PATTERNS } from './patterns';
+import { buildImportGraph, type ImportGraph } from './imports';
+import { buildManifest, getChunkPreamble } from './manifest';
+
+/** How files are ordered into chunks: as given, or grouped by directory and import clusters */
+export type ChunkStrategy = 'sequential' | 'cohesive';
 
 export interface Chunk {
     index: number;
     total: number;
     files: ScanResult[];
     tokens: number;
+    modules?: string[]; // Directories the chunk covers, largest share first (cohesive strategy)
+    preamble?: string; // What the other chunks hold (see getChunkPreamble)
 }
 
 export interface ChunkOptions {
     maxTokensPerChunk: number;
     overlap?: number; // Files to repeat at chunk boundaries
+    tokenizer?: Tokenizer; // Recount results counted by another tokenizer
+    formatOptions?: FormatOptions; // Measure chunks as formatChunk() emits them, header included
+    symbols?: Map<string, CodeSymbol[]>; // Where oversized files may be split (default: formatOptions.symbols)
+    strategy?: ChunkStrategy; // Default: sequential; overlap only applies to sequential chunks
+    graph?: ImportGraph; // Import clusters for cohesive chunks (default: built from the results)
+    manifest?: boolean; // Open each chunk with a preamble describing the others
+}
+
+export interface SplitOptions {
+    tokenizer?: Tokenizer;
+    formatOptions?: FormatOptions;
+    /** The file's symbols; parts start at their boundaries where possible */
+    symbols?: CodeSymbol[];
 }
 
+/** Widest header a chunk can get, used to reserve room for it */
+const HEADER_ESTIMATE: Chunk = { index: 998, total: 999, files: Array(9999), tokens: 999999 };
+
+/** Most modules named in a chunk header */
+const MAX_HEADER_MODULES = 4;
+
+/** Label propagation rounds when finding import clusters */
+const COMMUNITY_ITERATIONS = 20;
+
+/** Symbols a part may start at */
+const SPLIT_KINDS: SymbolKind[] = ['class', 'function', 'method', 'interface', 'type'];
+
+/** Lines that belong to the symbol below them: comments, doc comments and decorators */
+const LEADING_LINE = /^\s*(?:\/\/|\/\*|\*|@|#)/;
+
 /**
- * Split files into chunks that fit within token limits
+ * The file's import statements and the line they end before, or null when it has none
  */
-export function splitToChunks(results: ScanResult[], options: ChunkOptions): Chunk[] {
-    const { maxTokensPerChunk, overlap = 0 } = options;
+function findImports(content: string, language: string): { text: string; end: number } | null {
+    const pattern = IMPORT_STATEMENT_PATTERNS[language];
+    if (!pattern) return null;
+
+    const matches = [...content.matchAll(pattern)];
+    if (matches.length === 0) return null;
+
+    const last = matches[matches.length - 1];
+    return {
+        text: matches.map(match => match[0].trimEnd()).join('\n'),
+        end: content.slice(0, last.index! + last[0].length).split('\n').length,
+    };
+}
+
+/**
+ * Whether a file's content is emitted as is, so that parts of it can stand in for it
+ */
+function isSplittable(result: ScanResult, formatOptions?: FormatOptions): boolean {
+    return !result.diff && !result.range && !result.fidelity && !formatOptions?.signaturesOnly;
+}
+
+/**
+ * Split a file too large for any chunk into parts that fit `maxTokens`. Parts start at
+ * symbol boundaries (classes, functions, methods) where possible, then at blank lines,
+ * and each repeats the file's imports and the signature of the class it starts inside.
+ * Files that cannot be split are returned whole.
+ */
+export function splitFile(result: ScanResult, maxTokens: number, options: SplitOptions = {}): ScanResult[] {
+    const { tokenizer, formatOptions, symbols = [] } = options;
+    const tokens = (text: string) => countTokens(text, tokenizer).tokens;
+
+    const lines = result.content.split('\n');
+    if (lines.length > 1 && lines[lines.length - 1] === '') lines.pop();
+    const lineTokens = lines.map(line => tokens(line + '\n'));
+    const sum = (start: number, end: number) => lineTokens.slice(start, end).reduce((a, b) => a + b, 0);
+
+    const imports = findImports(result.content, result.language);
+    const classes = symbols.filter(s => s.kind === 'class').sort((a, b) => a.startLine - b.startLine);
+    const comment = result.language === 'python' ? '#' : '//';
+
+    const headerOf = (start: number): string => {
+        const header: string[] = [];
+        if (imports && start >= imports.end) header.push(imports.text);
+        const enclosing = classes.filter(s => s.startLine - 1 < start && s.endLine - 1 >= start).pop();
+        if (enclosing) header.push(`${enclosing.signature} {`);
+        return header.length > 0 ? [...header, `${comment} …`].join('\n') + '\n' : '';
+    };
+
+    const partOf = (start: number, end: number, index: number, total: number): ScanResult => {
+        const content = headerOf(start) + lines.slice(start, end).join('\n');
+        return {
+            ...result,
+            content,
+            tokenInfo: countTokens(content, tokenizer),
+            range: { startLine: start + 1, endLine: end, part: { index, total } },
+        };
+    };
+    const costOf = (part: ScanResult) => formatOptions ? estimateFileCost(part, formatOptions, tokenizer) : part.tokenInfo.tokens;
+    // What a part costs besides its lines: its tags and tree entry, then its header
+    const frame = costOf(partOf(0, 0, lines.length, lines.length));
+    const roomAt = (start: number) => maxTokens - frame - tokens(headerOf(start));
+
+    // Symbol boundaries, with the comments and decorators above each symbol kept with it
+    const boundaries = new Set([0, lines.length]);
+    for (const symbol of symbols.filter(s => SPLIT_KINDS.includes(s.kind))) {
+        let start = symbol.startLine - 1;
+        while (start > 0 && LEADING_LINE.test(lines[start - 1])) start--;
+        boundaries.add(start);
+        boundaries.add(Math.min(symbol.endLine, lines.length));
+    }
+    const sorted = [...boundaries].sort((a, b) => a - b);
+
+    // Units too large for a part are cut at blank lines, then line by line
+    const units: Array<{ start: number; end: number; tokens: number }> = [];
+    for (let i = 0; i < sorted.length - 1; i++) {
+        const [start, end] = [sorted[i], sorted[i + 1]];
+        if (sum(start, end) <= roomAt(start)) {
+            units.push({ start, end, tokens: sum(start, end) });
+            continue;
+        }
+
+        const cuts = [start];
+        for (let j = start + 1; j < end; j++) {
+            if (lines[j - 1].trim() === '' && lines[j].trim() !== '') cuts.push(j);
+        }
+        cuts.push(end);
+        for (let k = 0; k < cuts.length - 1; k++) {
+            const [from, to] = [cuts[k], cuts[k + 1]];
+            if (sum(from, to) <= roomAt(from)) {
+                units.push({ start: from, end: to, tokens: sum(from, to) });
+            } else {
+                for (let j = from; j < to; j++) units.push({ start: j, end: j + 1, tokens: lineTokens[j] });
+            }
+        }
+    }
 
-    const filesWithTokens = results.map(result => ({
-        result,
-        tokens: result.tokenInfo.tokens,
-    }));
+    // Pack units into parts; line counts only estimate a part, so measure it before closing it
+    const ranges: Array<[number, number]> = [];
+    let i = 0;
+    while (i < units.length) {
+        const start = units[i].start;
+        const room = roomAt(start);
+        let total = units[i].tokens;
+        let j = i + 1;
+        while (j < units.length && total + units[j].tokens <= room) {
+            total += units[j].tokens;
+            j++;
+        }
+        while (j - i > 1 && costOf(partOf(start, units[j - 1].end, units.length, units.length)) > maxTokens) j--;
 
+        ranges.push([start, units[j - 1].end]);
+        i = j;
+    }
+
+    if (ranges.length < 2) return [result];
+    return ranges.map(([start, end], index) => partOf(start, end, index + 1, ranges.length));
+}
+
+/**
+ * Fill chunks in the order files are given
+ */
+function packSequential(files: ScanResult[], tokensOf: Map<ScanResult, number>, maxFileTokens: number, overlap: number): Chunk[] {
     const chunks: Chunk[] = [];
     let currentChunk: ScanResult[] = [];
     let currentTokens = 0;
 
-    for (const { result, tokens } of filesWithTokens) {
+    for (const result of files) {
+        const tokens = tokensOf.get(result)!;
+
         // If single file exceeds limit, put it in its own chunk
-        if (tokens > maxTokensPerChunk) {
+        if (tokens > maxFileTokens) {
             // Save current chunk if not empty
             if (currentChunk.length > 0) {
                 chunks.push({
@@ -58,7 +212,7 @@ export function splitToChunks(results: ScanResult[], options: ChunkOptions): Chu
         }
 
         // Check if file fits in current chunk
-        if (currentTokens + tokens <= maxTokensPerChunk) {
+        if (currentTokens + tokens <= maxFileTokens) {
             currentChunk.push(result);
             currentTokens += tokens;
         } else {
@@ -77,7 +231,7 @@ export function splitToChunks(results: ScanResult[], options: ChunkOptions): Chu
                 ? currentChunk.slice(-overlap)
                 : [];
             const overlapTokens = overlapFiles.reduce(
-                (sum, f) => sum + f.tokenInfo.tokens,
+                (sum, f) => sum + tokensOf.get(f)!,
                 0
             );
 
@@ -96,6 +250,211 @@ export function splitToChunks(results: ScanResult[], options: ChunkOptions): Chu
         });
     }
 
+    return chunks;
+}
+
+/**
+ * Directory of a path, "." for files at the root
+ */
+function dirname(path: string): string {
+    const index = path.lastIndexOf('/');
+    return index > 0 ? path.slice(0, index) : '.';
+}
+
+/**
+ * Directories of a chunk's files, the ones holding most of its tokens first
+ */
+function getChunkModules(files: ScanResult[]): string[] {
+    const tokens = new Map<string, number>();
+    for (const file of files) {
+        const dir = dirname(file.path);
+        tokens.set(dir, (tokens.get(dir) ?? 0) + file.tokenInfo.tokens);
+    }
+    return [...tokens].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([dir]) => dir);
+}
+
+/**
+ * Import clusters by label propagation: each file repeatedly takes the label most of its
+ * importers and imports share, until labels settle. Returns a label per path.
+ */
+function findCommunities(paths: string[], graph: ImportGraph): Map<string, string> {
+    const neighbours = new Map(paths.map(path => [path, new Set<string>()]));
+    for (const [from, targets] of graph.imports) {
+        for (const to of targets) {
+            if (from === to || !neighbours.has(from) || !neighbours.has(to)) continue;
+            neighbours.get(from)!.add(to);
+            neighbours.get(to)!.add(from);
+        }
+    }
+
+    const labels = new Map(paths.map(path => [path, path]));
+    for (let i = 0; i < COMMUNITY_ITERATIONS; i++) {
+        let changed = false;
+        for (const path of paths) {
+            const counts = new Map<string, number>();
+            for (const neighbour of neighbours.get(path)!) {
+                const label = labels.get(neighbour)!;
+                counts.set(label, (counts.get(label) ?? 0) + 1);
+            }
+            if (counts.size === 0) continue;
+
+            const best = Math.max(...counts.values());
+            if (counts.get(labels.get(path)!) === best) continue;
+            labels.set(path, [...counts].filter(([, count]) => count === best).map(([label]) => label).sort()[0]);
+            changed = true;
+        }
+        if (!changed) break;
+    }
+
+    return labels;
+}
+
+/**
+ * Group files by directory subtree: a subtree that fits is one group, a larger one is split
+ * into its subdirectories, and the files directly inside it are packed in order
+ */
+function groupByDirectory(files: ScanResult[], tokensOf: Map<ScanResult, number>, maxFileTokens: number, dir = ''): ScanResult[][] {
+    const total = files.reduce((sum, file) => sum + tokensOf.get(file)!, 0);
+    if (total <= maxFileTokens) return [files];
+
+    const direct: ScanResult[] = [];
+    const subtrees = new Map<string, ScanResult[]>();
+    for (const file of files) {
+        const slash = file.path.indexOf('/', dir.length);
+        if (slash < 0) {
+            direct.push(file);
+            continue;
+        }
+        const subdir = file.path.slice(0, slash + 1);
+        subtrees.set(subdir, [...(subtrees.get(subdir) ?? []), file]);
+    }
+
+    const groups = [...subtrees.keys()].sort().flatMap(subdir =>
+        groupByDirectory(subtrees.get(subdir)!, tokensOf, maxFileTokens, subdir));
+    return groups.concat(packSequential(direct, tokensOf, maxFileTokens, 0).map(chunk => chunk.files));
+}
+
+/**
+ * Keep tightly coupled files together: the parts of a split file fill consecutive chunks in
+ * order, import clusters that fit a chunk are groups of their own, the remaining files are
+ * grouped by directory subtree, and the groups are bin-packed largest first into the first
+ * chunk with room
+ */
+function packCohesive(files: ScanResult[], tokensOf: Map<ScanResult, number>, maxFileTokens: number, graph: ImportGraph): Chunk[] {
+    const tokensIn = (group: ScanResult[]) => group.reduce((sum, file) => sum + tokensOf.get(file)!, 0);
+
+    const split = new Map<string, ScanResult[]>();
+    const whole: ScanResult[] = [];
+    for (const file of files) {
+        if (file.range?.part) {
+            split.set(file.path, [...(split.get(file.path) ?? []), file]);
+        } else {
+            whole.push(file);
+        }
+    }
+
+    const paths = [...new Set(whole.map(file => file.path))].sort();
+    const labels = findCommunities(paths, graph);
+
+    const clusters = new Map<string, ScanResult[]>();
+    for (const file of whole) {
+        const label = labels.get(file.path)!;
+        clusters.set(label, [...(clusters.get(label) ?? []), file]);
+    }
+
+    const groups: ScanResult[][] = [];
+    const rest: ScanResult[] = [];
+    for (const cluster of clusters.values()) {
+        if (new Set(cluster.map(file => file.path)).size > 1 && tokensIn(cluster) <= maxFileTokens) {
+            groups.push(cluster);
+        } else {
+            rest.push(...cluster);
+        }
+    }
+    groups.push(...groupByDirectory(rest.sort((a, b) => a.path.localeCompare(b.path)), tokensOf, maxFileTokens));
+
+    const chunks = [...split.keys()].sort()
+        .flatMap(path => packSequential(split.get(path)!, tokensOf, maxFileTokens, 0))
+        .map((chunk, index) => ({ ...chunk, index }));
+    const sized = groups.map(group => ({ group, tokens: tokensIn(group) }))
+        .sort((a, b) => b.tokens - a.tokens || a.group[0].path.localeCompare(b.group[0].path));
+    for (const { group, tokens } of sized) {
+        const chunk = chunks.find(c => c.tokens + tokens <= maxFileTokens);
+        if (chunk) {
+            chunk.files.push(...group);
+            chunk.tokens += tokens;
+        } else {
+            chunks.push({ index: chunks.length, total: 0, files: [...group], tokens });
+        }
+    }
+
+    return chunks;
+}
+
+/**
+ * Split files into chunks that fit within token limits
+ */
+export function splitToChunks(results: ScanResult[], options: ChunkOptions): Chunk[] {
+    const {
+        maxTokensPerChunk,
+        overlap = 0,
+        tokenizer,
+        formatOptions,
+        symbols = formatOptions?.symbols,
+        strategy = 'sequential',
+        graph,
+        manifest = false,
+    } = options;
+
+    // Modules and preambles describe which files each chunk holds, so they follow every move
+    const annotate = (chunks: Chunk[]) => {
+        if (strategy === 'cohesive') {
+            for (const chunk of chunks) chunk.modules = getChunkModules(chunk.files);
+        }
+        if (manifest) {
+            const described = buildManifest(chunks, { symbols });
+            chunks.forEach((chunk, i) => { chunk.preamble = getChunkPreamble(described, i); });
+        }
+    };
+
+    const cost = formatOptions ? estimateFormatCost(results, formatOptions, tokenizer) : null;
+    // Cohesive headers name up to MAX_HEADER_MODULES directories: reserve room for the longest
+    const widestHeader = strategy === 'cohesive'
+        ? { ...HEADER_ESTIMATE, modules: [...new Set(results.map(r => dirname(r.path)))].sort((a, b) => b.length - a.length).concat(Array(999).fill('')) }
+        : HEADER_ESTIMATE;
+    let fixedTokens = cost ? cost.frame + countTokens(getChunkHeader(widestHeader) + '\n\n', tokenizer).tokens : 0;
+
+    // Preambles grow with the number of chunks: reserve room for those of a split without them
+    if (manifest) {
+        const draft = splitToChunks(results, { ...options, manifest: false });
+        annotate(draft);
+        fixedTokens += Math.max(0, ...draft.map(chunk => countTokens(chunk.preamble! + '\n\n', tokenizer).tokens));
+    }
+    const maxFileTokens = maxTokensPerChunk - fixedTokens;
+
+    // Files too large for any chunk are split into parts that each fit one
+    const tokensOf = new Map<ScanResult, number>();
+    const files = results.flatMap((result, i) => {
+        const tokens = cost ? cost.files[i] : getTokenCount(result, tokenizer);
+        const parts = tokens > maxFileTokens && isSplittable(result, formatOptions)
+            ? splitFile(result, maxFileTokens, { tokenizer, formatOptions, symbols: symbols?.get(result.path) })
+            : [result];
+
+        for (const part of parts) {
+            tokensOf.set(part, part === result ? tokens : formatOptions ? estimateFileCost(part, formatOptions, tokenizer) : part.tokenInfo.tokens);
+        }
+        return parts;
+    });
+
+    const chunks = strategy === 'cohesive'
+        ? packCohesive(files, tokensOf, maxFileTokens, graph ?? buildImportGraph(results))
+        : packSequential(files, tokensOf, maxFileTokens, overlap);
+
+    if (formatOptions) {
+        return measureChunks(chunks, maxTokensPerChunk, formatOptions, tokenizer, annotate);
+    }
+    annotate(chunks);
+
     // Update total count
     const total = chunks.length;
     for (const chunk of chunks) {
@@ -105,9 +464,75 @@ export function splitToChunks(results: ScanResult[], options: ChunkOptions): Chu
     return chunks;
 }
 
+/**
+ * Replace estimates with the formatted size of each chunk. A chunk that still overshoots passes
+ * its last files on to the next one; chunks are measured again only when what they show changed.
+ */
+function measureChunks(
+    chunks: Chunk[],
+    maxTokensPerChunk: number,
+    formatOptions: FormatOptions,
+    tokenizer?: Tokenizer,
+    annotate?: (chunks: Chunk[]) => void
+): Chunk[] {
+    const measuredAs = new Map<Chunk, { files: ScanResult[]; text: string }>();
+    const measure = (chunk: Chunk) => {
+        const text = `${chunk.index}/${chunk.total}\n${chunk.modules?.join('\n') ?? ''}\n${chunk.preamble ?? ''}`;
+        const last = measuredAs.get(chunk);
+        if (last && last.text === text && last.files.length === chunk.files.length && last.files.every((file, i) => file === chunk.files[i])) {
+            return;
+        }
+        // The header shows the chunk's own size: format once, then swap the printed size for the measured one
+        const printed = formatTokens(chunk.tokens);
+        const measured = countTokens(formatChunk(chunk, formatOptions), tokenizer).tokens;
+        chunk.tokens = measured
+            - countTokens(printed, tokenizer).tokens
+            + countTokens(formatTokens(measured), tokenizer).tokens;
+        measuredAs.set(chunk, { files: [...chunk.files], text });
+    };
+
+    let moved = true;
+    while (moved) {
+        moved = false;
+        annotate?.(chunks);
+        chunks.forEach((chunk, i) => { chunk.index = i; chunk.total = chunks.length; });
+
+        for (let i = 0; i < chunks.length; i++) {
+            const chunk = chunks[i];
+            measure(chunk);
+
+            while (chunk.tokens > maxTokensPerChunk && chunk.files.length > 1) {
+                const file = chunk.files.pop()!;
+                if (i + 1 === chunks.length) {
+                    chunks.push({ index: i + 1, total: 0, files: [], tokens: 0 });
+                }
+                // Overlapping chunks may already repeat the file
+                if (!chunks[i + 1].files.includes(file)) chunks[i + 1].files.unshift(file);
+                moved = true;
+                measure(chunk);
+            }
+        }
+    }
+
+    return chunks;
+}
+
 /**
  * Get chunk header for output
  */
 export function getChunkHeader(chunk: Chunk): string {
-    return `<!-- Chunk ${chunk.index + 1}/${chunk.total} | ${chunk.files.length} files | ${formatTokens(chunk.tokens)} tokens -->`;
+    let modules = '';
+    if (chunk.modules && chunk.modules.length > 0) {
+        const more = chunk.modules.length - MAX_HEADER_MODULES;
+        modules = ` | ${chunk.modules.slice(0, MAX_HEADER_MODULES).join(', ')}${more > 0 ? ` +${more} more` : ''}`;
+    }
+    return `<!-- Chunk ${chunk.index + 1}/${chunk.total}${modules} | ${chunk.files.length} files | ${formatTokens(chunk.tokens)} tokens -->`;
+}
+
+/**
+ * Full text of a chunk: its header, its preamble if any, then the formatted files
+ */
+export function formatChunk(chunk: Chunk, formatOptions: FormatOptions): string {
+    const preamble = chunk.preamble ? chunk.preamble + '\n\n' : '';
+    return getChunkHeader(chunk) + '\n\n' + preamble + format(chunk.files, formatOptions);
 }
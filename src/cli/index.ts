@@ -7,185 +7,890 @@ import cac from 'cac';
 import pc from 'picocolors';
 import { resolve } from 'path';
 import { writeFile } from 'fs/promises';
-import { scan } from '../scanner';
-import { format } from '../formatter';
-import { formatTokens, parseBudget, MODEL_LIMITS } from '../tokenizer';
-import { fitToBudget, getBudgetSummary } from '../budget';
-import { splitToChunks } from '../chunker';
-import { parseSymbols, getSymbolSummary, type CodeSymbol } from '../parser';
+import { scanWithReport, createPathFilter, type ScanOptions, type ScanResult, type ScanReport } from '../scanner';
+import { parseSize, getSkipSummary } from '../filters';
+import { format, type FormatOptions } from '../formatter';
+import { formatTokens, parseBudget, countTokens, loadTokenizer } from '../tokenizer';
+import {
+    createModelRegistry,
+    getModel,
+    getInputLimit,
+    getModelFit,
+    estimateInputCost,
+    formatCost,
+    type ModelInfo,
+    type ModelOverrides,
+} from '../models';
+import { fitToBudget, getBudgetSummary, getFidelitySummary, type BudgetStrategy } from '../budget';
+import { createBaseScorer, createDefaultScorer, proximityScorer, type Scorer } from '../scoring';
+import { SearchIndex } from '../search';
+import { parsePriorityRules, parseQuota } from '../priority';
+import { splitToChunks, type ChunkStrategy } from '../chunker';
+import type { ManifestFormat } from '../manifest';
+import { parseSymbols, getSymbolSummary, getQualifiedName, isSymbolLanguage, type CodeSymbol } from '../parser';
+import { generateStub } from '../stubs';
+import { isSelector, parseSelectors, resolveSelectors, type Selector } from '../selectors';
 import { outputController } from '../output';
+import { TokenCache, clearCache, getCacheDir } from '../cache';
+import { getChangedFiles, hasGitScope, type GitScopeOptions } from '../git';
+import { findImporters, followImports, loadResolverConfig, parseImportGraph, type ImportGraph } from '../imports';
+import { readFileList, resolveFileList } from '../filelist';
+import { resolveConfig, mergeCliOptions, parseOptions, type ConfigOptions } from '../config';
+import {
+    saveContextSet,
+    loadContextSet,
+    listContextSets,
+    deleteContextSet,
+    resolveContextSet,
+    parseSelection,
+    type ContextSet,
+} from '../sets';
+import { redactResults, getRedactionSummary, type RedactOptions } from '../redact';
+import { getFileDiffsWithReport, buildDiffResults, type DiffContextMode, type DiffOptions } from '../diff';
 import { t } from '../i18n';
 
 const cli = cac('ctx');
 
-const DEFAULT_EXTENSIONS = 'ts,js,tsx,jsx,py,rs,go,java,c,cpp,h,hpp,css,html,json,yaml,yml,md,sh,sql,vue,svelte';
+/**
+ * Flags merged over config files. cac reads numeric values as numbers and negated flags
+ * ("--no-tree") as false; config files give budgets, sizes and counts as strings.
+ */
+interface CliOptions {
+    ext: string;
+    ignore?: string;
+    output?: string;
+    format: string;
+    tree?: boolean;
+    copy?: boolean;
+    interactive?: boolean;
+    budget?: string | number;
+    chunk?: string | number;
+    chunkStrategy?: string;
+    /** true when given without a format */
+    manifest?: string | boolean;
+    model: string;
+    models?: ModelOverrides;
+    priority?: string;
+    dirQuota?: string | number;
+    symbols?: boolean;
+    signaturesOnly?: boolean;
+    test?: boolean;
+    stats?: boolean;
+    compact?: boolean;
+    degrade?: boolean;
+    strategy?: string;
+    query?: string | number;
+    top?: string | number;
+    maxFileSize?: string | number;
+    maxFileTokens?: string | number;
+    includeGenerated?: boolean;
+    cache?: boolean;
+    changed?: boolean;
+    staged?: boolean;
+    since?: string | number;
+    withImporters?: boolean;
+    follow?: string;
+    depth?: string | number;
+    filesFrom?: string;
+    stdin?: boolean;
+    /** An array when given more than once */
+    select?: string | string[];
+    /** true when given without a base */
+    diff?: string | number | boolean;
+    diffHead?: string | number;
+    diffContext: string;
+    redact?: boolean;
+    strict?: boolean;
+    redactPatterns?: Record<string, string>;
+    profile?: string;
+    /** Project directory of the set commands */
+    dir?: string;
+}
+
+/**
+ * Print an error and exit
+ */
+function exitWithError(err: unknown): never {
+    console.error(pc.red(t('cli.error')), err instanceof Error ? err.message : err);
+    process.exit(1);
+}
+
+/**
+ * Merge CLI flags over config files (CLI flag > set > profile > project config > user config)
+ */
+async function loadOptions(cwd: string, cliOptions: Partial<CliOptions>, setOptions: ConfigOptions = {}): Promise<CliOptions> {
+    try {
+        const config = await resolveConfig(cwd, cliOptions.profile);
+        if (config.files.length > 0) {
+            console.log(pc.dim(t('cli.config_loaded', config.files.join(', '))));
+        }
+        return mergeCliOptions({ ...config.options, ...setOptions }, cliOptions) as CliOptions;
+    } catch (err) {
+        exitWithError(err);
+    }
+}
+
+/**
+ * Look up --model in the built-in models plus those from config files
+ */
+function resolveModel(options: CliOptions): ModelInfo {
+    try {
+        return getModel(options.model, createModelRegistry(options.models));
+    } catch (err) {
+        exitWithError(err);
+    }
+}
+
+/**
+ * Warn when tokens leave no room for the model's output reserve; fail when they exceed its window
+ */
+function checkModelFit(model: ModelInfo, tokens: number, label: string): void {
+    const fit = getModelFit(model, tokens);
+    if (fit === 'over-window') {
+        exitWithError(t('cli.model_overflow', label, formatTokens(tokens), model.name, formatTokens(model.contextWindow)));
+    }
+    if (fit === 'over-reserve') {
+        console.log(pc.yellow(`  ${t('cli.model_over_reserve', label, formatTokens(tokens), model.name, formatTokens(model.outputReserve))}`));
+    }
+}
+
+/**
+ * Print the estimated input cost of sending `tokens` to the model
+ */
+function printCost(model: ModelInfo, tokens: number): void {
+    const cost = estimateInputCost(model, tokens);
+    console.log(pc.dim(cost === undefined
+        ? `   ${t('cli.cost_unknown', model.name)}`
+        : `   ${t('cli.cost', formatCost(cost), formatTokens(tokens), model.name, model.inputPrice)}`));
+}
+
+/**
+ * Build scan options from merged CLI options
+ */
+async function createScanOptions(cwd: string, options: CliOptions, explicitPaths?: string[]): Promise<ScanOptions> {
+    const extensions = options.ext.split(',').map(e => e.trim());
+    const patterns = extensions.map(ext => `**/*.${ext}`);
+
+    let ignore = options.ignore
+        ? options.ignore.split(',').map(p => p.trim())
+        : [];
+
+    // Add test file patterns if --no-test is specified
+    if (options.test === false) {
+        ignore = [...ignore, '**/*.test.*', '**/*.spec.*', '**/__tests__/**'];
+    }
+
+    const tokenizer = await loadTokenizer(resolveModel(options).tokenizer);
+
+    return {
+        cwd,
+        patterns,
+        ignore,
+        paths: explicitPaths,
+        explicit: explicitPaths !== undefined,
+        maxFileSize: options.maxFileSize ? parseSize(String(options.maxFileSize)) : undefined,
+        maxFileTokens: options.maxFileTokens ? parseBudget(String(options.maxFileTokens)) : undefined,
+        skipGenerated: !options.includeGenerated,
+        cache: options.cache === false ? undefined : await TokenCache.open(cwd, { tokenizer: tokenizer.id }),
+        tokenizer,
+    };
+}
+
+/**
+ * Resolve git scope options to the cwd-relative files to scan,
+ * optionally adding the files that import them
+ */
+async function resolveGitScope(
+    scanOptions: ScanOptions,
+    gitScope: GitScopeOptions,
+    withImporters: boolean
+): Promise<string[]> {
+    const changedFiles = await getChangedFiles(scanOptions.cwd, gitScope);
+    console.log(pc.dim(`   ${t('cli.git_scope', changedFiles.length)}`));
+
+    if (!withImporters || changedFiles.length === 0) {
+        return changedFiles;
+    }
+
+    const { results } = await scanWithReport(scanOptions);
+    // Resolved like --follow, so path aliases, workspace packages and ESM specifiers count too
+    const graph = await parseImportGraph(results, await loadResolverConfig(scanOptions.cwd));
+    const importers = findImporters(graph, changedFiles);
+    console.log(pc.dim(`   ${t('cli.git_importers', importers.length)}`));
+
+    return [...changedFiles, ...importers];
+}
+
+/**
+ * --follow entries (cwd-relative) and --depth
+ */
+function getFollowOptions(options: CliOptions): { entries: string[]; depth?: number } {
+    const entries = String(options.follow).split(',')
+        .map(entry => entry.trim().replace(/\\/g, '/').replace(/^\.\//, ''))
+        .filter(Boolean);
+    if (options.depth !== undefined && !/^[1-9]\d*$/.test(String(options.depth))) {
+        exitWithError(t('cli.depth_invalid', String(options.depth)));
+    }
+    return { entries, depth: options.depth !== undefined ? Number(options.depth) : undefined };
+}
+
+/**
+ * Import graph of the scanned files, and each file's distance from the --follow entries
+ */
+async function getFollowGraph(
+    results: ScanResult[],
+    cwd: string,
+    options: CliOptions
+): Promise<{ graph: ImportGraph; distances: Map<string, number> }> {
+    const { entries, depth } = getFollowOptions(options);
+    const graph = await parseImportGraph(results, await loadResolverConfig(cwd));
+
+    const missing = entries.filter(entry => !graph.imports.has(entry));
+    if (missing.length > 0) {
+        throw new Error(t('cli.follow_missing', missing.join(', ')));
+    }
+    return { graph, distances: followImports(graph, entries, depth) };
+}
+
+/**
+ * Resolve --follow to the cwd-relative files the entries import, transitively up to --depth
+ */
+async function resolveFollowScope(scanOptions: ScanOptions, options: CliOptions): Promise<string[]> {
+    const { results } = await scanWithReport(scanOptions);
+    const { distances } = await getFollowGraph(results, scanOptions.cwd, options);
+    console.log(pc.dim(`   ${t('cli.follow_scope', distances.size)}`));
+
+    return [...distances.keys()];
+}
+
+/**
+ * Collect diffs (and the requested context) as results, limited to files matching the scan patterns;
+ * untracked files the scan checks reject are reported as skipped
+ */
+async function resolveDiffResults(
+    scanOptions: ScanOptions,
+    diffOptions: DiffOptions,
+    mode: DiffContextMode
+): Promise<ScanReport> {
+    const matches = createPathFilter(scanOptions);
+    const { cwd, ...scan } = scanOptions;
+    const report = await getFileDiffsWithReport(cwd, { ...diffOptions, scan });
+    const diffs = report.diffs.filter(diff => matches(diff.path));
+    console.log(pc.dim(`   ${t('cli.diff_files', diffs.length, diffOptions.base ?? 'HEAD')}`));
+
+    return {
+        results: await buildDiffResults(cwd, diffs, mode, scanOptions.tokenizer),
+        skipped: report.skipped,
+    };
+}
+
+/**
+ * Redaction settings from merged CLI options, or false when disabled with --no-redact
+ */
+function getRedactOptions(options: CliOptions): RedactOptions | false {
+    return options.redact === false ? false : { patterns: options.redactPatterns };
+}
+
+/**
+ * Run the TUI and deliver its output
+ */
+async function runInteractive(
+    options: CliOptions,
+    scanOptions: ScanOptions,
+    selection: { contextSet?: ContextSet; selectedPaths?: string[] } = {}
+): Promise<void> {
+    const { launchTUI } = await import('../tui/App');
+    let output: string;
+    try {
+        output = await launchTUI({
+            ...scanOptions,
+            ...selection,
+            copyToClipboard: options.copy,
+            redact: getRedactOptions(options),
+            strict: options.strict,
+            tokenLimit: getInputLimit(resolveModel(options)),
+        });
+    } catch (err) {
+        // --strict refuses the selection when it contains secrets
+        exitWithError(err);
+    }
+
+    if (options.output) {
+        await writeFile(options.output, output, 'utf-8');
+        console.log(pc.green(`\n${t('cli.written_to', options.output)}`));
+    } else if (!options.copy) {
+        console.log('\n' + output);
+    }
+}
+
+/**
+ * Report, budget, chunk and write collected results
+ */
+async function emitContext(report: ScanReport, options: CliOptions, scanOptions: ScanOptions): Promise<void> {
+    let results = report.results;
+    const model = resolveModel(options);
+
+    console.log(pc.green(t('cli.found_files', results.length)));
+
+    if (report.skipped.length > 0) {
+        console.log(pc.yellow(`  ${t('cli.skipped', report.skipped.length, getSkipSummary(report.skipped))}`));
+        for (const file of report.skipped.slice(0, 5)) {
+            console.log(pc.dim(`    ${file.path} (${file.reason}${file.detail ? `: ${file.detail}` : ''})`));
+        }
+        if (report.skipped.length > 5) {
+            console.log(pc.dim(`    ...`));
+        }
+    }
+
+    // Redact secrets before anything is formatted
+    const redact = getRedactOptions(options);
+    if (redact) {
+        const redaction = redactResults(results, redact, scanOptions.tokenizer);
+        const { findings } = redaction;
+
+        if (findings.length > 0) {
+            const summary = getRedactionSummary(findings);
+            if (options.strict) {
+                for (const finding of findings) {
+                    console.error(pc.dim(`    ${finding.path}:${finding.line} (${finding.rule})`));
+                }
+                exitWithError(t('cli.redaction_strict', findings.length, summary));
+            }
+
+            console.log(pc.yellow(`  ${t('cli.redacted', findings.length, summary)}`));
+            for (const finding of findings.slice(0, 5)) {
+                console.log(pc.dim(`    ${finding.path}:${finding.line} → ${finding.placeholder}`));
+            }
+            if (findings.length > 5) {
+                console.log(pc.dim(`    ...`));
+            }
+        }
+
+        results = redaction.results;
+    }
+
+    // Parse symbols if needed
+    const symbolsMap = new Map<string, CodeSymbol[]>();
+
+    // Degradation may cut files to their signatures, symbol names help --query, and chunks split files between symbols
+    const degrade = Boolean(options.degrade) && (Boolean(options.budget) || !options.chunk);
+    if (options.symbols || options.signaturesOnly || degrade || options.query || options.chunk) {
+        console.log(pc.dim(`  ${t('cli.parsing_symbols')}`));
+
+        for (const result of results) {
+            if (isSymbolLanguage(result.language)) {
+                let symbols = scanOptions.cache?.getSymbols(result.path, result.content);
+                if (!symbols) {
+                    symbols = await parseSymbols(result.content, result.language);
+                    scanOptions.cache?.setSymbols(result.path, result.content, symbols);
+                }
+                symbolsMap.set(result.path, symbols);
+
+                if (options.symbols) {
+                    console.log(pc.dim(`    ${result.path}: ${getSymbolSummary(symbols)}`));
+                    for (const symbol of symbols) {
+                        console.log(pc.dim(`      ${symbol.kind} ${getQualifiedName(symbol)}`));
+                    }
+                }
+            }
+        }
+    }
+
+    // Signatures keep each file's skeleton where Tree-sitter parses its language
+    const stubsMap = new Map<string, string>();
+    if (options.signaturesOnly || degrade) {
+        for (const result of results) {
+            if (result.diff || result.range) continue;
+            const stub = await generateStub(result.content, result.language);
+            if (stub !== null) stubsMap.set(result.path, stub);
+        }
+    }
+
+    // The cache only saves work next time: failing to write it must not cost this run its output
+    try {
+        await scanOptions.cache?.save();
+    } catch (err) {
+        console.log(pc.yellow(`  ${t('cli.cache_save_failed', err instanceof Error ? err.message : String(err))}`));
+    }
+
+    // Rank files against --query; the ranking orders the budget and --top keeps only the best matches
+    let relevance: Scorer | undefined;
+    if (options.top && !options.query) {
+        exitWithError(t('cli.top_needs_query'));
+    }
+    if (options.top && !/^[1-9]\d*$/.test(String(options.top))) {
+        exitWithError(t('cli.top_invalid', String(options.top)));
+    }
+    if (options.query) {
+        const index = new SearchIndex(results, { symbols: symbolsMap });
+        const query = String(options.query);
+        const matches = index.search(query);
+
+        console.log(pc.cyan(`  ${t('cli.query_matches', matches.length, query)}`));
+        for (const match of matches.slice(0, 10)) {
+            console.log(pc.dim(`    ${match.score.toFixed(2).padStart(6)}  ${match.path}`));
+        }
+
+        if (options.top) {
+            const top = new Set(matches.slice(0, Number(options.top)).map(m => m.path));
+            results = results.filter(r => top.has(r.path));
+            console.log(pc.dim(`  ${t('cli.query_top', results.length)}`));
+        }
+        relevance = index.scorer(query);
+    }
+
+    // Calculate total tokens from preloaded tokenInfo
+    const totalTokens = results.reduce((sum, r) => sum + r.tokenInfo.tokens, 0);
+    console.log(pc.dim(`  ${t('cli.total_tokens', formatTokens(totalTokens))}`));
+
+    // Show detailed stats if requested
+    if (options.stats) {
+        const langStats: Record<string, { files: number; tokens: number }> = {};
+        for (const r of results) {
+            if (!langStats[r.language]) {
+                langStats[r.language] = { files: 0, tokens: 0 };
+            }
+            langStats[r.language].files++;
+            langStats[r.language].tokens += r.tokenInfo.tokens;
+        }
+
+        console.log(pc.cyan(`\n${t('cli.statistics')}`));
+        console.log(pc.dim(`   ${t('cli.total_files', results.length)}`));
+        console.log(pc.dim(`   ${t('cli.total_tokens', formatTokens(totalTokens))}`));
+        console.log(pc.dim(`   ${t('cli.tokenizer', scanOptions.tokenizer.id, model.name)}`));
+        console.log(pc.dim(`   ${t('cli.languages')}`));
+        for (const [lang, stat] of Object.entries(langStats).sort((a, b) => b[1].tokens - a[1].tokens)) {
+            console.log(pc.dim(`     ${t('cli.lang_stat', lang, stat.files, formatTokens(stat.tokens))}`));
+        }
+    }
+
+    if (options.manifest && !options.chunk) {
+        exitWithError(t('cli.manifest_needs_chunk'));
+    }
+
+    const formatOptions: FormatOptions = {
+        format: options.format as 'markdown' | 'xml',
+        includeTree: options.tree !== false,
+        signaturesOnly: options.signaturesOnly,
+        symbols: symbolsMap,
+        stubs: stubsMap,
+        compact: options.compact,
+    };
+
+    // Apply the budget; without --budget, single outputs are fitted to the model's input limit
+    if (options.budget || !options.chunk) {
+        const maxTokens = options.budget ? parseBudget(String(options.budget)) : getInputLimit(model);
+        if (!options.budget) {
+            console.log(pc.dim(`  ${t('cli.budget_model', model.name, formatTokens(model.contextWindow), formatTokens(model.outputReserve))}`));
+        }
+        const priorityPatterns = options.priority
+            ? options.priority.split(',').map(p => p.trim())
+            : [];
+        let dirQuota: number | undefined;
+        try {
+            parsePriorityRules(priorityPatterns);
+            dirQuota = options.dirQuota ? parseQuota(String(options.dirQuota), maxTokens) : undefined;
+        } catch (err) {
+            exitWithError(err);
+        }
+
+        const strategy = (options.strategy ?? 'greedy') as BudgetStrategy;
+        if (!['greedy', 'value'].includes(strategy)) {
+            exitWithError(t('cli.strategy_invalid', strategy));
+        }
+        // With --follow, files close to the entry points come first
+        let graph: ImportGraph | undefined;
+        let proximity: Scorer | undefined;
+        if (options.follow) {
+            const follow = await getFollowGraph(results, scanOptions.cwd, options);
+            graph = follow.graph;
+            proximity = proximityScorer(follow.distances);
+        }
+
+        const scorer = strategy === 'value'
+            ? await createDefaultScorer(results, { cwd: scanOptions.cwd, priorityPatterns, relevance, proximity, graph })
+            : createBaseScorer({ priorityPatterns, relevance, proximity });
+
+        const budgetResult = fitToBudget(results, {
+            maxTokens,
+            priorityPatterns,
+            dirQuota,
+            tokenizer: scanOptions.tokenizer,
+            formatOptions,
+            degrade,
+            strategy,
+            scorer,
+        });
+
+        results = budgetResult.included;
+        console.log(pc.yellow(`  ${t('cli.budget', getBudgetSummary(budgetResult, maxTokens))}`));
+        if (degrade) {
+            console.log(pc.dim(`  ${t('cli.fidelity', getFidelitySummary(budgetResult.fidelity))}`));
+        }
+
+        if (budgetResult.excluded.length > 0) {
+            console.log(pc.dim(`  ${t('cli.excluded', budgetResult.excluded.slice(0, 3).map(f => f.path).join(', ') + (budgetResult.excluded.length > 3 ? '...' : ''))}`));
+        }
+    }
+
+    // Chunking mode
+    if (options.chunk) {
+        const maxTokensPerChunk = parseBudget(String(options.chunk));
+        const chunkStrategy = (options.chunkStrategy ?? 'sequential') as ChunkStrategy;
+        if (!['sequential', 'cohesive'].includes(chunkStrategy)) {
+            exitWithError(t('cli.chunk_strategy_invalid', chunkStrategy));
+        }
+        // Cohesive chunks follow import clusters, resolved like --follow resolves them
+        const graph = chunkStrategy === 'cohesive'
+            ? await parseImportGraph(results, await loadResolverConfig(scanOptions.cwd))
+            : undefined;
+
+        const manifest = options.manifest === true ? 'markdown' : options.manifest as ManifestFormat | undefined;
+        if (manifest && !['markdown', 'json'].includes(manifest)) {
+            exitWithError(t('cli.manifest_invalid', manifest));
+        }
+
+        const chunks = splitToChunks(results, {
+            maxTokensPerChunk,
+            tokenizer: scanOptions.tokenizer,
+            formatOptions,
+            strategy: chunkStrategy,
+            graph,
+            manifest: Boolean(manifest),
+        });
+        for (const chunk of chunks) {
+            checkModelFit(model, chunk.tokens, t('cli.chunk_label', chunk.index + 1, chunk.total));
+        }
+
+        await outputController.writeChunks(chunks, {
+            file: options.output,
+            clipboard: options.copy,
+            formatOptions,
+            manifest,
+        });
+
+        if (options.stats) {
+            printCost(model, chunks.reduce((sum, chunk) => sum + chunk.tokens, 0));
+        }
+        return;
+    }
+
+    // Normal output
+    const output = format(results, formatOptions);
+
+    const outputTokens = countTokens(output, scanOptions.tokenizer).tokens;
+    checkModelFit(model, outputTokens, t('cli.output_label'));
+
+    await outputController.write(output, {
+        file: options.output,
+        clipboard: options.copy,
+    });
+
+    if (options.stats) {
+        printCost(model, outputTokens);
+    }
+}
 
 cli
-    .command('[dir]', t('cli.cmd.desc'))
-    .option('-e, --ext <extensions>', t('cli.opt.ext'), {
-        default: DEFAULT_EXTENSIONS,
-    })
+    .command('[...targets]', t('cli.cmd.desc'))
+    .option('-e, --ext <extensions>', t('cli.opt.ext'))
     .option('-i, --ignore <patterns>', t('cli.opt.ignore'))
     .option('-o, --output <file>', t('cli.opt.output'))
-    .option('-f, --format <type>', t('cli.opt.format'), { default: 'markdown' })
+    .option('-f, --format <type>', t('cli.opt.format'))
     .option('--no-tree', t('cli.opt.no_tree'))
     .option('-c, --copy', t('cli.opt.copy'))
     .option('--interactive', t('cli.opt.interactive'))
     .option('-b, --budget <tokens>', t('cli.opt.budget'))
     .option('--chunk <tokens>', t('cli.opt.chunk'))
-    .option('-m, --model <name>', t('cli.opt.model'), { default: 'gpt-4o' })
-    .option('--priority <patterns>', t('cli.opt.priority'))
+    .option('--chunk-strategy <name>', t('cli.opt.chunk_strategy'))
+    .option('--manifest [format]', t('cli.opt.manifest'))
+    .option('-m, --model <name>', t('cli.opt.model'))
+    .option('--priority <rules>', t('cli.opt.priority'))
+    .option('--dir-quota <tokens>', t('cli.opt.dir_quota'))
     .option('-s, --symbols', t('cli.opt.symbols'))
     .option('--signatures-only', t('cli.opt.signatures_only'))
     .option('--no-test', t('cli.opt.no_test'))
     .option('--stats', t('cli.opt.stats'))
     .option('--compact', t('cli.opt.compact'))
-    .action(async (dir: string | undefined, options) => {
-        const cwd = resolve(dir || '.');
+    .option('--degrade', t('cli.opt.degrade'))
+    .option('--strategy <name>', t('cli.opt.strategy'))
+    .option('-q, --query <text>', t('cli.opt.query'))
+    .option('--top <n>', t('cli.opt.top'))
+    .option('--max-file-size <size>', t('cli.opt.max_file_size'))
+    .option('--max-file-tokens <tokens>', t('cli.opt.max_file_tokens'))
+    .option('--include-generated', t('cli.opt.include_generated'))
+    .option('--no-cache', t('cli.opt.no_cache'))
+    .option('--changed', t('cli.opt.changed'))
+    .option('--staged', t('cli.opt.staged'))
+    .option('--since <ref>', t('cli.opt.since'))
+    .option('--with-importers', t('cli.opt.with_importers'))
+    .option('--follow <entries>', t('cli.opt.follow'))
+    .option('--depth <n>', t('cli.opt.depth'))
+    .option('--files-from <file>', t('cli.opt.files_from'))
+    .option('--stdin', t('cli.opt.stdin'))
+    .option('--select <selectors>', t('cli.opt.select'))
+    .option('--diff [base]', t('cli.opt.diff'))
+    .option('--diff-head <ref>', t('cli.opt.diff_head'))
+    .option('--diff-context <mode>', t('cli.opt.diff_context'))
+    .option('--no-redact', t('cli.opt.no_redact'))
+    .option('--strict', t('cli.opt.strict'))
+    .option('-p, --profile <name>', t('cli.opt.profile'))
+    .action(async (targets: string[], cliOptions: Partial<CliOptions>) => {
+        // Positionals are the project directory plus any selectors (path#symbol, path:40-120)
+        const dirs = targets.filter(target => !isSelector(target));
+        if (dirs.length > 1) {
+            exitWithError(t('cli.dir_multiple', dirs.join(', ')));
+        }
+        let cwd = resolve(dirs[0] || '.');
+        const options = await loadOptions(cwd, cliOptions);
 
-        const extensions = (options.ext as string).split(',').map(e => e.trim());
-        const patterns = extensions.map(ext => `**/*.${ext}`);
+        let selectors: Selector[] = [];
+        try {
+            const selected = [options.select ?? []].flat().map(String);
+            selectors = parseSelectors([...targets.filter(isSelector), ...selected]);
+        } catch (err) {
+            exitWithError(err);
+        }
 
-        let ignore = options.ignore
-            ? (options.ignore as string).split(',').map(p => p.trim())
-            : [];
+        // Explicitly listed files bypass patterns and ignore rules
+        let explicitPaths: string[] | undefined;
+        if (options.filesFrom || options.stdin) {
+            if (options.stdin && options.interactive) {
+                exitWithError(t('cli.stdin_interactive'));
+            }
+            try {
+                const listed = await readFileList(options.stdin ? '-' : String(options.filesFrom));
+                const resolved = resolveFileList(cwd, listed);
+                cwd = resolved.root;
+                explicitPaths = resolved.paths;
+            } catch (err) {
+                exitWithError(err);
+            }
+        }
 
-        // Add test file patterns if --no-test is specified
-        if (options.test === false) {
-            ignore = [...ignore, '**/*.test.*', '**/*.spec.*', '**/__tests__/**'];
+        const scanOptions = await createScanOptions(cwd, options, explicitPaths);
+        const { patterns, ignore } = scanOptions;
+
+        // Diff mode: --diff alone diffs against --since, or HEAD
+        const diffMode = options.diff !== undefined && options.diff !== false;
+        const diffContext = options.diffContext as DiffContextMode;
+        if (diffMode && !['none', 'full', 'symbols'].includes(diffContext)) {
+            exitWithError(t('cli.diff_context_invalid', String(diffContext)));
+        }
+
+        // Limit the scan to files touched according to git (diffs are already scoped)
+        const gitScope: GitScopeOptions = {
+            changed: options.changed,
+            staged: options.staged,
+            since: options.since !== undefined ? String(options.since) : undefined,
+        };
+        if (selectors.length > 0 && (diffMode || explicitPaths || options.follow || options.interactive || hasGitScope(gitScope))) {
+            exitWithError(t('cli.select_conflict'));
+        }
+        if (options.follow) {
+            if (diffMode || explicitPaths || hasGitScope(gitScope)) {
+                exitWithError(t('cli.follow_conflict'));
+            }
+            try {
+                scanOptions.paths = await resolveFollowScope(scanOptions, options);
+            } catch (err) {
+                exitWithError(err);
+            }
+        } else if (!diffMode && !explicitPaths && hasGitScope(gitScope)) {
+            try {
+                scanOptions.paths = await resolveGitScope(scanOptions, gitScope, Boolean(options.withImporters));
+            } catch (err) {
+                exitWithError(err);
+            }
         }
 
         // Interactive mode
         if (options.interactive) {
-            const { launchTUI } = await import('../tui/App');
-            const output = await launchTUI({
-                cwd,
-                patterns,
-                ignore,
-                copyToClipboard: options.copy,
-            });
-
-            if (options.output) {
-                await writeFile(options.output, output, 'utf-8');
-                console.log(pc.green(`\n${t('cli.written_to', options.output)}`));
-            } else if (!options.copy) {
-                console.log('\n' + output);
-            }
+            await runInteractive(options, scanOptions);
             return;
         }
 
         // Non-interactive mode
         console.log(pc.cyan(t('cli.scanning')), cwd);
-        console.log(pc.dim(`   ${t('cli.patterns', patterns.slice(0, 5).join(', ') + (patterns.length > 5 ? '...' : ''))}`));
-        if (ignore.length > 0) {
+        if (explicitPaths) {
+            console.log(pc.dim(`   ${t('cli.file_list', explicitPaths.length)}`));
+        } else if (selectors.length > 0) {
+            console.log(pc.dim(`   ${t('cli.selectors', selectors.length)}`));
+        } else {
+            console.log(pc.dim(`   ${t('cli.patterns', patterns.slice(0, 5).join(', ') + (patterns.length > 5 ? '...' : ''))}`));
+        }
+        if (!explicitPaths && ignore.length > 0) {
             console.log(pc.dim(`   ${t('cli.ignoring', ignore.join(', '))}`));
         }
 
+        // Selectors resolve to fragments; one that matches nothing stops here
+        let selection: ScanReport | undefined;
+        if (selectors.length > 0) {
+            try {
+                selection = await resolveSelectors(selectors, scanOptions);
+            } catch (err) {
+                exitWithError(t('cli.select_unresolved', err instanceof Error ? err.message : String(err)));
+            }
+        }
+
         try {
-            let results = await scan({ cwd, patterns, ignore });
+            const report = diffMode
+                ? await resolveDiffResults(scanOptions, {
+                    base: typeof options.diff !== 'boolean' ? String(options.diff) : (gitScope.since ?? 'HEAD'),
+                    head: options.diffHead !== undefined ? String(options.diffHead) : undefined,
+                    staged: options.staged,
+                }, diffContext)
+                : selection ?? await scanWithReport(scanOptions);
 
-            console.log(pc.green(t('cli.found_files', results.length)));
+            await emitContext(report, options, scanOptions);
+        } catch (err) {
+            console.error(pc.red(t('cli.error')), err);
+            process.exit(1);
+        }
+    });
 
-            // Parse symbols if needed
-            const symbolsMap = new Map<string, CodeSymbol[]>();
+cli
+    .command('save <name> [...selection]', t('cli.cmd.save'))
+    .option('-d, --dir <dir>', t('cli.opt.set_dir'))
+    .option('-f, --format <type>', t('cli.opt.format'))
+    .option('--no-tree', t('cli.opt.no_tree'))
+    .option('-b, --budget <tokens>', t('cli.opt.budget'))
+    .option('--chunk <tokens>', t('cli.opt.chunk'))
+    .option('--chunk-strategy <name>', t('cli.opt.chunk_strategy'))
+    .option('--manifest [format]', t('cli.opt.manifest'))
+    .option('-m, --model <name>', t('cli.opt.model'))
+    .option('--priority <rules>', t('cli.opt.priority'))
+    .option('--dir-quota <tokens>', t('cli.opt.dir_quota'))
+    .option('--signatures-only', t('cli.opt.signatures_only'))
+    .option('--compact', t('cli.opt.compact'))
+    .option('--degrade', t('cli.opt.degrade'))
+    .option('--strategy <name>', t('cli.opt.strategy'))
+    .option('-q, --query <text>', t('cli.opt.query'))
+    .option('--top <n>', t('cli.opt.top'))
+    .action(async (name: string, selection: string[], cliOptions: Partial<CliOptions>) => {
+        const cwd = resolve(cliOptions.dir || '.');
+        if (selection.length === 0) {
+            exitWithError(t('cli.set_empty'));
+        }
 
-            if (options.symbols || options.signaturesOnly) {
-                console.log(pc.dim(`  ${t('cli.parsing_symbols')}`));
+        // Only options given on the command line are recorded with the set
+        const recorded: ConfigOptions = {};
+        const keys: (keyof CliOptions)[] = ['format', 'budget', 'chunk', 'chunkStrategy', 'manifest', 'model', 'priority', 'dirQuota', 'signaturesOnly', 'compact', 'degrade', 'strategy', 'query', 'top'];
+        for (const key of keys) {
+            const value = cliOptions[key];
+            if (value !== undefined) recorded[key] = typeof value === 'boolean' ? value : String(value);
+        }
+        if (cliOptions.tree === false) recorded.tree = false;
+        if (recorded.manifest === true) recorded.manifest = 'markdown';
 
-                for (const result of results) {
-                    if (['typescript', 'javascript', 'tsx', 'jsx'].includes(result.language)) {
-                        const symbols = await parseSymbols(result.content, result.language);
-                        symbolsMap.set(result.path, symbols);
+        try {
+            const options = parseOptions(recorded, 'command line');
+            const file = await saveContextSet(cwd, { name, ...parseSelection(selection), options });
+            console.log(pc.green(t('cli.set_saved', name, file)));
+        } catch (err) {
+            exitWithError(err);
+        }
+    });
 
-                        if (options.symbols) {
-                            console.log(pc.dim(`    ${result.path}: ${getSymbolSummary(symbols)}`));
-                        }
-                    }
-                }
-            }
+cli
+    .command('load <name>', t('cli.cmd.load'))
+    .option('-d, --dir <dir>', t('cli.opt.set_dir'))
+    .option('-o, --output <file>', t('cli.opt.output'))
+    .option('-f, --format <type>', t('cli.opt.format'))
+    .option('--no-tree', t('cli.opt.no_tree'))
+    .option('-c, --copy', t('cli.opt.copy'))
+    .option('--interactive', t('cli.opt.interactive'))
+    .option('-b, --budget <tokens>', t('cli.opt.budget'))
+    .option('--chunk <tokens>', t('cli.opt.chunk'))
+    .option('--chunk-strategy <name>', t('cli.opt.chunk_strategy'))
+    .option('--manifest [format]', t('cli.opt.manifest'))
+    .option('-m, --model <name>', t('cli.opt.model'))
+    .option('--priority <rules>', t('cli.opt.priority'))
+    .option('--dir-quota <tokens>', t('cli.opt.dir_quota'))
+    .option('-s, --symbols', t('cli.opt.symbols'))
+    .option('--signatures-only', t('cli.opt.signatures_only'))
+    .option('--stats', t('cli.opt.stats'))
+    .option('--compact', t('cli.opt.compact'))
+    .option('--degrade', t('cli.opt.degrade'))
+    .option('--strategy <name>', t('cli.opt.strategy'))
+    .option('-q, --query <text>', t('cli.opt.query'))
+    .option('--top <n>', t('cli.opt.top'))
+    .option('--no-cache', t('cli.opt.no_cache'))
+    .option('--no-redact', t('cli.opt.no_redact'))
+    .option('--strict', t('cli.opt.strict'))
+    .option('-p, --profile <name>', t('cli.opt.profile'))
+    .action(async (name: string, cliOptions: Partial<CliOptions>) => {
+        const cwd = resolve(cliOptions.dir || '.');
 
-            // Calculate total tokens from preloaded tokenInfo
-            const totalTokens = results.reduce((sum, r) => sum + r.tokenInfo.tokens, 0);
-            console.log(pc.dim(`  ${t('cli.total_tokens', formatTokens(totalTokens))}`));
+        let contextSet: ContextSet;
+        try {
+            contextSet = await loadContextSet(cwd, name);
+        } catch (err) {
+            exitWithError(err);
+        }
 
-            // Show detailed stats if requested
-            if (options.stats) {
-                const langStats: Record<string, { files: number; tokens: number }> = {};
-                for (const r of results) {
-                    if (!langStats[r.language]) {
-                        langStats[r.language] = { files: 0, tokens: 0 };
-                    }
-                    langStats[r.language].files++;
-                    langStats[r.language].tokens += r.tokenInfo.tokens;
-                }
+        const options = await loadOptions(cwd, cliOptions, contextSet.options);
+        const scanOptions = await createScanOptions(cwd, options);
 
-                console.log(pc.cyan(`\n${t('cli.statistics')}`));
-                console.log(pc.dim(`   ${t('cli.total_files', results.length)}`));
-                console.log(pc.dim(`   ${t('cli.total_tokens', formatTokens(totalTokens))}`));
-                console.log(pc.dim(`   ${t('cli.languages')}`));
-                for (const [lang, stat] of Object.entries(langStats).sort((a, b) => b[1].tokens - a[1].tokens)) {
-                    console.log(pc.dim(`     ${t('cli.lang_stat', lang, stat.files, formatTokens(stat.tokens))}`));
-                }
+        try {
+            const resolved = await resolveContextSet(contextSet, scanOptions);
+            for (const missing of resolved.missing) {
+                console.log(pc.yellow(`  ${t('cli.set_missing', missing.kind, missing.entry)}`));
             }
 
-            // Apply budget if specified
-            if (options.budget) {
-                const maxTokens = parseBudget(options.budget as string);
-                const priorityPatterns = options.priority
-                    ? (options.priority as string).split(',').map(p => p.trim())
-                    : [];
-
-                const budgetResult = fitToBudget(results, {
-                    maxTokens,
-                    priorityPatterns,
-                    reserveTokens: 1000,
-                });
+            if (options.interactive) {
+                // Tick the files the set's paths and globs include; symbols stay fragments of their file
+                const selectedPaths = resolved.results.filter(r => !r.range).map(r => r.path);
+                await runInteractive(options, scanOptions, { contextSet, selectedPaths });
+                return;
+            }
 
-                results = budgetResult.included;
-                console.log(pc.yellow(`  ${t('cli.budget', getBudgetSummary(budgetResult, maxTokens))}`));
+            console.log(pc.cyan(t('cli.set_loading', name)), cwd);
+            await emitContext(resolved, options, scanOptions);
+        } catch (err) {
+            exitWithError(err);
+        }
+    });
 
-                if (budgetResult.excluded.length > 0) {
-                    console.log(pc.dim(`  ${t('cli.excluded', budgetResult.excluded.slice(0, 3).map(f => f.path).join(', ') + (budgetResult.excluded.length > 3 ? '...' : ''))}`));
-                }
-            }
+cli
+    .command('list', t('cli.cmd.list'))
+    .option('-d, --dir <dir>', t('cli.opt.set_dir'))
+    .action(async (cliOptions: Partial<CliOptions>) => {
+        const sets = await listContextSets(resolve(cliOptions.dir || '.'));
+        if (sets.length === 0) {
+            console.log(pc.dim(t('cli.set_none')));
+            return;
+        }
 
-            // Chunking mode
-            if (options.chunk) {
-                const maxTokensPerChunk = parseBudget(options.chunk as string);
-                const chunks = splitToChunks(results, { maxTokensPerChunk });
-
-                await outputController.writeChunks(chunks, {
-                    file: options.output,
-                    clipboard: options.copy,
-                    formatOptions: {
-                        format: options.format as 'markdown' | 'xml',
-                        includeTree: options.tree !== false,
-                        signaturesOnly: options.signaturesOnly,
-                        symbols: symbolsMap,
-                        compact: options.compact,
-                    },
-                });
+        for (const set of sets) {
+            const entries = set.paths.length + set.globs.length + set.symbols.length;
+            console.log(`${pc.cyan(set.name)}  ${pc.dim(t('cli.set_summary', entries, set.updatedAt ?? '-'))}`);
+        }
+    });
 
-                return;
+cli
+    .command('delete <name>', t('cli.cmd.delete'))
+    .option('-d, --dir <dir>', t('cli.opt.set_dir'))
+    .action(async (name: string, cliOptions: Partial<CliOptions>) => {
+        try {
+            if (!(await deleteContextSet(resolve(cliOptions.dir || '.'), name))) {
+                exitWithError(t('cli.set_not_found', name));
             }
-
-            // Normal output
-            const output = format(results, {
-                format: options.format as 'markdown' | 'xml',
-                includeTree: options.tree !== false,
-                signaturesOnly: options.signaturesOnly,
-                symbols: symbolsMap,
-                compact: options.compact,
-            });
-
-            await outputController.write(output, {
-                file: options.output,
-                clipboard: options.copy,
-            });
+            console.log(pc.green(t('cli.set_deleted', name)));
         } catch (err) {
-            console.error(pc.red(t('cli.error')), err);
-            process.exit(1);
+            exitWithError(err);
+        }
+    });
+
+cli
+    .command('cache <action>', t('cli.cmd.cache'))
+    .action(async (action: string) => {
+        if (action !== 'clear') {
+            exitWithError(t('cli.cache_unknown_action', action));
         }
+
+        await clearCache();
+        console.log(pc.green(t('cli.cache_cleared', getCacheDir())));
     });
 
 cli.help();
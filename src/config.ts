@@ -0,0 +1,382 @@
+/**
+ * Config Module
+ * Project and user config files with named profiles, providing defaults for CLI options
+ */
+import { readFile } from 'fs/promises';
+import { homedir } from 'os';
+import { dirname, join, resolve } from 'path';
+import { parseBudget, getTokenizerIds } from './tokenizer';
+import { parseSize } from './filters';
+import { BUILTIN_MODELS, type ModelOverrides } from './models';
+import { parsePriorityRules, parseQuota } from './priority';
+
+/** Option values as the CLI sees them; lists are comma-separated strings */
+export type ConfigOptions = Record<string, string | boolean | Record<string, string> | ModelOverrides>;
+
+export interface CtxConfig {
+    /** File the config was loaded from */
+    file: string;
+    options: ConfigOptions;
+    profiles: Record<string, ConfigOptions>;
+}
+
+export interface ResolvedConfig {
+    options: ConfigOptions;
+    /** Config files that contributed, lowest precedence first */
+    files: string[];
+}
+
+/** Project config file names, checked in order in each directory from cwd upwards */
+export const PROJECT_CONFIG_FILES = ['ctx.config.json', '.ctxrc'];
+
+type ValueKind = 'string' | 'boolean' | 'list' | 'budget' | 'size' | 'count' | 'quota' | 'rules' | 'ref' | 'patterns' | 'models' | { oneOf: string[] };
+
+/** Every CLI option that can be set from a config file, keyed by its camelCase name */
+const OPTION_SCHEMA: Record<string, ValueKind> = {
+    ext: 'list',
+    ignore: 'list',
+    output: 'string',
+    format: { oneOf: ['markdown', 'xml'] },
+    tree: 'boolean',
+    copy: 'boolean',
+    interactive: 'boolean',
+    budget: 'budget',
+    chunk: 'budget',
+    chunkStrategy: { oneOf: ['sequential', 'cohesive'] },
+    manifest: { oneOf: ['markdown', 'json'] },
+    model: 'string',
+    priority: 'rules',
+    symbols: 'boolean',
+    signaturesOnly: 'boolean',
+    test: 'boolean',
+    stats: 'boolean',
+    compact: 'boolean',
+    degrade: 'boolean',
+    dirQuota: 'quota',
+    strategy: { oneOf: ['greedy', 'value'] },
+    query: 'string',
+    top: 'count',
+    maxFileSize: 'size',
+    maxFileTokens: 'budget',
+    includeGenerated: 'boolean',
+    cache: 'boolean',
+    changed: 'boolean',
+    staged: 'boolean',
+    since: 'string',
+    withImporters: 'boolean',
+    follow: 'list',
+    depth: 'count',
+    filesFrom: 'string',
+    stdin: 'boolean',
+    diff: 'ref',
+    diffHead: 'string',
+    diffContext: { oneOf: ['none', 'full', 'symbols'] },
+    redact: 'boolean',
+    strict: 'boolean',
+    redactPatterns: 'patterns',
+    models: 'models',
+};
+
+/** Defaults applied below every config file */
+export const DEFAULT_OPTIONS: ConfigOptions = {
+    ext: 'ts,js,tsx,jsx,py,rs,go,java,c,cpp,h,hpp,css,html,json,yaml,yml,md,sh,sql,vue,svelte',
+    format: 'markdown',
+    model: 'gpt-4o',
+    diffContext: 'none',
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Validate user model entries, returning the first problem found
+ */
+function validateModels(key: string, value: unknown): { value: ModelOverrides } | { error: string } {
+    if (!isObject(value)) {
+        return { error: `"${key}" must map model names to { contextWindow, outputReserve, inputPrice, tokenizer }` };
+    }
+
+    for (const [name, spec] of Object.entries(value)) {
+        const where = `"${key}.${name}"`;
+        if (!isObject(spec)) return { error: `${where} must be an object` };
+
+        for (const [field, fieldValue] of Object.entries(spec)) {
+            if (field === 'tokenizer') {
+                if (!getTokenizerIds().includes(fieldValue as string)) {
+                    return { error: `${where}: tokenizer must be one of ${getTokenizerIds().join(', ')}` };
+                }
+            } else if (field === 'contextWindow' || field === 'outputReserve' || field === 'inputPrice') {
+                if (typeof fieldValue !== 'number' || !(fieldValue >= 0)) {
+                    return { error: `${where}: ${field} must be a non-negative number` };
+                }
+            } else {
+                return { error: `${where}: unknown field "${field}"` };
+            }
+        }
+
+        const contextWindow = (spec.contextWindow as number) ?? BUILTIN_MODELS[name]?.contextWindow;
+        if (contextWindow === undefined) {
+            return { error: `${where}: contextWindow is required for models that are not built in` };
+        }
+        const outputReserve = (spec.outputReserve as number) ?? BUILTIN_MODELS[name]?.outputReserve ?? 0;
+        if (outputReserve >= contextWindow) {
+            return { error: `${where}: outputReserve must be smaller than contextWindow` };
+        }
+    }
+
+    return { value: value as ModelOverrides };
+}
+
+/**
+ * Config keys use camelCase, but kebab-case (as typed on the command line) is accepted too
+ */
+function toCamelCase(key: string): string {
+    return key.replace(/-([a-z])/g, (_, ch: string) => ch.toUpperCase());
+}
+
+/**
+ * Validate one option value, returning its CLI form or an error message
+ */
+function validateValue(key: string, kind: ValueKind, value: unknown): { value: ConfigOptions[string] } | { error: string } {
+    if (typeof kind === 'object') {
+        return typeof value === 'string' && kind.oneOf.includes(value)
+            ? { value }
+            : { error: `"${key}" must be one of ${kind.oneOf.join(', ')}` };
+    }
+
+    switch (kind) {
+        case 'boolean':
+            return typeof value === 'boolean' ? { value } : { error: `"${key}" must be true or false` };
+        case 'string':
+            return typeof value === 'string' ? { value } : { error: `"${key}" must be a string` };
+        case 'ref':
+            return typeof value === 'string' || typeof value === 'boolean'
+                ? { value }
+                : { error: `"${key}" must be a git ref or true` };
+        case 'list':
+        case 'rules': {
+            let list: string;
+            if (typeof value === 'string') {
+                list = value;
+            } else if (Array.isArray(value) && value.every(item => typeof item === 'string')) {
+                list = value.join(',');
+            } else {
+                return { error: `"${key}" must be a string or an array of strings` };
+            }
+            // Rules are checked here so a bad rule is reported with the file it came from
+            if (kind === 'rules') {
+                try {
+                    parsePriorityRules(list.split(','));
+                } catch (err) {
+                    return { error: `"${key}": ${err instanceof Error ? err.message : err}` };
+                }
+            }
+            return { value: list };
+        }
+        case 'patterns': {
+            if (!isObject(value) || !Object.values(value).every(item => typeof item === 'string')) {
+                return { error: `"${key}" must map names to regular expressions` };
+            }
+            for (const [name, source] of Object.entries(value as Record<string, string>)) {
+                try {
+                    new RegExp(source);
+                } catch (err) {
+                    return { error: `"${key}.${name}": ${err instanceof Error ? err.message : err}` };
+                }
+            }
+            return { value: value as Record<string, string> };
+        }
+        case 'models':
+            return validateModels(key, value);
+        case 'count':
+            return (typeof value === 'string' || typeof value === 'number') && /^[1-9]\d*$/.test(String(value))
+                ? { value: String(value) }
+                : { error: `"${key}" must be a positive whole number` };
+        case 'budget':
+        case 'size':
+        case 'quota': {
+            if (typeof value !== 'string' && typeof value !== 'number') {
+                return { error: `"${key}" must be a string or a number` };
+            }
+            try {
+                if (kind === 'quota') parseQuota(String(value), 0);
+                else (kind === 'budget' ? parseBudget : parseSize)(String(value));
+                return { value: String(value) };
+            } catch (err) {
+                return { error: `"${key}": ${err instanceof Error ? err.message : err}` };
+            }
+        }
+    }
+}
+
+/**
+ * Validate a set of options, collecting errors prefixed with `where`
+ */
+function validateOptions(raw: Record<string, unknown>, where: string, errors: string[]): ConfigOptions {
+    const options: ConfigOptions = {};
+
+    for (const [rawKey, value] of Object.entries(raw)) {
+        const key = toCamelCase(rawKey);
+        const kind = OPTION_SCHEMA[key];
+        if (!kind) {
+            errors.push(`${where}: unknown key "${rawKey}"`);
+            continue;
+        }
+
+        const checked = validateValue(key, kind, value);
+        if ('error' in checked) {
+            errors.push(`${where}: ${checked.error}`);
+        } else {
+            options[key] = checked.value;
+        }
+    }
+
+    return options;
+}
+
+/**
+ * Validate parsed config content; throws one error listing every problem
+ */
+export function parseConfig(raw: unknown, file: string): CtxConfig {
+    if (!isObject(raw)) {
+        throw new Error(`Invalid config ${file}: expected a JSON object`);
+    }
+
+    const errors: string[] = [];
+    const { profiles: rawProfiles, ...rawOptions } = raw;
+    const options = validateOptions(rawOptions, file, errors);
+    const profiles: Record<string, ConfigOptions> = {};
+
+    if (rawProfiles !== undefined) {
+        if (!isObject(rawProfiles)) {
+            errors.push(`${file}: "profiles" must be an object`);
+        } else {
+            for (const [name, profile] of Object.entries(rawProfiles)) {
+                if (!isObject(profile)) {
+                    errors.push(`${file}: profile "${name}" must be an object`);
+                    continue;
+                }
+                profiles[name] = validateOptions(profile, `${file} (profile "${name}")`, errors);
+            }
+        }
+    }
+
+    if (errors.length > 0) {
+        throw new Error(`Invalid config:\n  ${errors.join('\n  ')}`);
+    }
+
+    return { file, options, profiles };
+}
+
+/**
+ * Validate options stored elsewhere (e.g., a saved context set); throws listing every problem
+ */
+export function parseOptions(raw: unknown, where: string): ConfigOptions {
+    if (!isObject(raw)) {
+        throw new Error(`Invalid options in ${where}: expected an object`);
+    }
+
+    const errors: string[] = [];
+    const options = validateOptions(raw, where, errors);
+    if (errors.length > 0) {
+        throw new Error(`Invalid options:\n  ${errors.join('\n  ')}`);
+    }
+    return options;
+}
+
+/**
+ * Load and validate a config file, returning null if it does not exist
+ */
+export async function loadConfigFile(file: string): Promise<CtxConfig | null> {
+    let content: string;
+    try {
+        content = await readFile(file, 'utf-8');
+    } catch {
+        return null;
+    }
+
+    let raw: unknown;
+    try {
+        raw = JSON.parse(content);
+    } catch (err) {
+        throw new Error(`Invalid config ${file}: ${err instanceof Error ? err.message : err}`);
+    }
+
+    return parseConfig(raw, file);
+}
+
+/**
+ * Default location of the user config file
+ */
+export function getUserConfigFile(): string {
+    const configHome = process.env.XDG_CONFIG_HOME || join(homedir(), '.config');
+    return join(configHome, 'ctx', 'config.json');
+}
+
+/**
+ * Find the nearest project config from `cwd` upwards
+ */
+export async function findProjectConfig(cwd: string): Promise<CtxConfig | null> {
+    let dir = resolve(cwd);
+    while (true) {
+        for (const name of PROJECT_CONFIG_FILES) {
+            const config = await loadConfigFile(join(dir, name));
+            if (config) return config;
+        }
+
+        const parent = dirname(dir);
+        if (parent === dir) return null;
+        dir = parent;
+    }
+}
+
+/**
+ * Merge defaults, user config, project config and a named profile, lowest precedence first.
+ * A profile is looked up in the project config, then the user config.
+ */
+export async function resolveConfig(
+    cwd: string,
+    profile?: string,
+    userConfigFile: string | false = getUserConfigFile()
+): Promise<ResolvedConfig> {
+    const user = userConfigFile ? await loadConfigFile(userConfigFile) : null;
+    const project = await findProjectConfig(cwd);
+    const configs = [user, project].filter((config): config is CtxConfig => config !== null);
+
+    const options: ConfigOptions = { ...DEFAULT_OPTIONS };
+    for (const config of configs) {
+        Object.assign(options, config.options);
+    }
+
+    if (profile) {
+        const source = [...configs].reverse().find(config => profile in config.profiles);
+        if (!source) {
+            const available = [...new Set(configs.flatMap(config => Object.keys(config.profiles)))];
+            throw new Error(
+                `Unknown profile "${profile}"` +
+                (available.length > 0 ? ` (available: ${available.join(', ')})` : ' (no profiles defined)')
+            );
+        }
+        Object.assign(options, source.profiles[profile]);
+    }
+
+    return { options, files: configs.map(config => config.file) };
+}
+
+/**
+ * Apply CLI flags over resolved config options. Flags left unset are undefined,
+ * and negated flags ("--no-tree") only count when they are actually given (false).
+ */
+export function mergeCliOptions<T extends Record<string, unknown>>(
+    config: ConfigOptions,
+    cli: T,
+    negated: string[] = ['tree', 'test', 'cache', 'redact']
+): T & ConfigOptions {
+    const merged: Record<string, unknown> = { ...config };
+    for (const [key, value] of Object.entries(cli)) {
+        if (value === undefined) continue;
+        if (negated.includes(key) && value === true) continue;
+        merged[key] = value;
+    }
+    return merged as T & ConfigOptions;
+}
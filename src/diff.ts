@@ -0,0 +1,299 @@
+/**
+ * Diff Module
+ * Unified diffs between refs (or the working tree) as review-oriented context
+ */
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { runGit } from './git';
+import { detectLanguage, scanWithReport, type ScanOptions, type ScanResult } from './scanner';
+import type { SkippedFile } from './filters';
+import { countTokens, type Tokenizer } from './tokenizer';
+import { parseSymbols, getQualifiedName, type CodeSymbol } from './parser';
+
+/** Labels used when one side of the diff is not a commit */
+export const WORKTREE_REF = 'worktree';
+export const INDEX_REF = 'index';
+
+export type DiffStatus = 'added' | 'modified' | 'deleted' | 'renamed' | 'binary';
+
+/** What to emit alongside each diff */
+export type DiffContextMode = 'none' | 'full' | 'symbols';
+
+export interface DiffOptions {
+    /** Ref to diff from (default: HEAD) */
+    base?: string;
+    /** Ref to diff to (default: the working tree, or the index when staged) */
+    head?: string;
+    /** Diff the index against the base instead of the working tree */
+    staged?: boolean;
+    /** Include untracked files as additions when diffing the working tree (default: true) */
+    untracked?: boolean;
+    /**
+     * Scan settings untracked files are loaded with, so their patterns, ignores and the
+     * binary, size and generated checks apply (default: every file under `cwd`)
+     */
+    scan?: Omit<ScanOptions, 'cwd' | 'paths' | 'explicit'>;
+}
+
+export interface DiffReport {
+    diffs: FileDiff[];
+    /** Untracked files left out by the scan checks */
+    skipped: SkippedFile[];
+}
+
+export interface LineRange {
+    start: number;
+    end: number;
+}
+
+export interface FileDiff {
+    path: string;
+    base: string;
+    head: string;
+    status: DiffStatus;
+    patch: string;
+    /** Changed line ranges in the post-change file */
+    changedRanges: LineRange[];
+}
+
+/**
+ * Strip git's "a/" or "b/" prefix from a path in a diff header
+ */
+function stripPrefix(path: string): string {
+    return path.replace(/^[ab]\//, '');
+}
+
+/**
+ * Compute the post-change line ranges touched by a file's hunks
+ */
+function computeChangedRanges(lines: string[]): LineRange[] {
+    const ranges: LineRange[] = [];
+    let newLine = 0;
+    let inHunk = false;
+
+    const touch = (line: number) => {
+        const last = ranges[ranges.length - 1];
+        if (last && line <= last.end + 1) {
+            last.end = Math.max(last.end, line);
+        } else {
+            ranges.push({ start: line, end: line });
+        }
+    };
+
+    for (const line of lines) {
+        const hunk = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+        if (hunk) {
+            newLine = parseInt(hunk[1], 10);
+            inHunk = true;
+            continue;
+        }
+        if (!inHunk) continue;
+
+        if (line.startsWith('+')) {
+            touch(newLine);
+            newLine++;
+        } else if (line.startsWith('-')) {
+            // A removal is anchored to the line that now follows it
+            touch(Math.max(1, newLine));
+        } else if (line.startsWith(' ')) {
+            newLine++;
+        }
+    }
+
+    return ranges;
+}
+
+/**
+ * Split `git diff` output into per-file diffs
+ */
+export function parseUnifiedDiff(output: string, base: string, head: string): FileDiff[] {
+    const diffs: FileDiff[] = [];
+    const sections = output.split(/^(?=diff --git )/m).filter(section => section.startsWith('diff --git '));
+
+    for (const section of sections) {
+        const patch = section.replace(/\n$/, '');
+        const lines = patch.split('\n');
+
+        let oldPath: string | null = null;
+        let newPath: string | null = null;
+        let status: DiffStatus = 'modified';
+
+        for (const line of lines) {
+            if (line.startsWith('@@')) break;
+            if (line.startsWith('--- ')) oldPath = line.slice(4);
+            else if (line.startsWith('+++ ')) newPath = line.slice(4);
+            else if (line.startsWith('rename to ')) newPath = 'b/' + line.slice(10);
+            else if (line.startsWith('rename from ')) oldPath = 'a/' + line.slice(12);
+            else if (line.startsWith('Binary files ')) status = 'binary';
+        }
+
+        if (newPath === '/dev/null') status = 'deleted';
+        else if (oldPath === '/dev/null') status = 'added';
+        else if (oldPath && newPath && stripPrefix(oldPath) !== stripPrefix(newPath)) status = 'renamed';
+
+        let path = newPath && newPath !== '/dev/null' ? newPath : oldPath;
+        if (!path || path === '/dev/null') {
+            // Binary or mode-only changes carry no ---/+++ lines
+            const header = lines[0].match(/^diff --git (\S+) (\S+)$/);
+            path = header ? header[2] : lines[0].slice('diff --git '.length);
+        }
+
+        diffs.push({
+            path: stripPrefix(path.replace(/\t.*$/, '')),
+            base,
+            head,
+            status,
+            patch,
+            changedRanges: status === 'deleted' ? [] : computeChangedRanges(lines),
+        });
+    }
+
+    return diffs;
+}
+
+/**
+ * Build an "added file" diff for an untracked file
+ */
+function untrackedDiff(path: string, content: string, base: string): FileDiff {
+    const lines = content.split('\n');
+    if (lines[lines.length - 1] === '') lines.pop();
+
+    const patch = [
+        `diff --git a/${path} b/${path}`,
+        'new file',
+        '--- /dev/null',
+        `+++ b/${path}`,
+        `@@ -0,0 +1,${lines.length} @@`,
+        ...lines.map(line => `+${line}`),
+    ].join('\n');
+
+    return {
+        path,
+        base,
+        head: WORKTREE_REF,
+        status: 'added',
+        patch,
+        changedRanges: lines.length > 0 ? [{ start: 1, end: lines.length }] : [],
+    };
+}
+
+/**
+ * Collect per-file diffs for `cwd` (paths are relative to `cwd`)
+ */
+export async function getFileDiffs(cwd: string, options: DiffOptions = {}): Promise<FileDiff[]> {
+    return (await getFileDiffsWithReport(cwd, options)).diffs;
+}
+
+/**
+ * Collect per-file diffs along with the untracked files that were skipped
+ */
+export async function getFileDiffsWithReport(cwd: string, options: DiffOptions = {}): Promise<DiffReport> {
+    const { base = 'HEAD', head, staged = false, untracked = true, scan = { patterns: ['**/*'] } } = options;
+    const headLabel = head ?? (staged ? INDEX_REF : WORKTREE_REF);
+
+    const args = ['diff', '--no-color', '--no-ext-diff', '--relative', '-M'];
+    if (staged && !head) args.push('--cached');
+    args.push(base);
+    if (head) args.push(head);
+    args.push('--', '.');
+
+    const diffs = parseUnifiedDiff(await runGit(cwd, args), base, headLabel);
+    const skipped: SkippedFile[] = [];
+
+    if (headLabel === WORKTREE_REF && untracked) {
+        const output = await runGit(cwd, ['ls-files', '--others', '--exclude-standard', '-z']);
+        const paths = output.split('\0').filter(Boolean);
+
+        if (paths.length > 0) {
+            // Untracked files go through the scanner so binary, oversized and generated files stay out
+            const report = await scanWithReport({ ...scan, cwd, paths });
+            for (const result of report.results) {
+                diffs.push(untrackedDiff(result.path, result.content, base));
+            }
+            skipped.push(...report.skipped);
+        }
+    }
+
+    return { diffs: diffs.sort((a, b) => a.path.localeCompare(b.path)), skipped };
+}
+
+/**
+ * Read a file as it is on the head side of a diff
+ */
+export async function readFileAtHead(cwd: string, path: string, head: string): Promise<string | null> {
+    try {
+        if (head === WORKTREE_REF) return await readFile(join(cwd, path), 'utf-8');
+        const spec = head === INDEX_REF ? `:./${path}` : `${head}:./${path}`;
+        return await runGit(cwd, ['show', spec]);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Pick the outermost symbols overlapping any changed range
+ */
+export function selectEnclosingSymbols(symbols: CodeSymbol[], ranges: LineRange[]): CodeSymbol[] {
+    const touched = symbols.filter(symbol =>
+        ranges.some(range => symbol.startLine <= range.end && symbol.endLine >= range.start)
+    );
+
+    return touched.filter(symbol => !touched.some(other =>
+        other !== symbol &&
+        other.startLine <= symbol.startLine &&
+        other.endLine >= symbol.endLine &&
+        (other.startLine < symbol.startLine || other.endLine > symbol.endLine)
+    ));
+}
+
+/**
+ * Turn a diff into a scan result, so budgeting and chunking treat it like any other file
+ */
+export function diffToScanResult(diff: FileDiff, tokenizer?: Tokenizer): ScanResult {
+    return {
+        path: diff.path,
+        content: diff.patch,
+        language: 'diff',
+        tokenInfo: countTokens(diff.patch, tokenizer),
+        diff: { base: diff.base, head: diff.head },
+    };
+}
+
+/**
+ * Build scan results for diffs plus the requested surrounding context
+ */
+export async function buildDiffResults(
+    cwd: string,
+    diffs: FileDiff[],
+    mode: DiffContextMode = 'none',
+    tokenizer?: Tokenizer
+): Promise<ScanResult[]> {
+    const results = diffs.map(diff => diffToScanResult(diff, tokenizer));
+    if (mode === 'none') return results;
+
+    for (const diff of diffs) {
+        if (diff.status === 'deleted' || diff.status === 'binary') continue;
+
+        const content = await readFileAtHead(cwd, diff.path, diff.head);
+        if (content === null) continue;
+        const language = detectLanguage(diff.path);
+
+        if (mode === 'full') {
+            results.push({ path: diff.path, content, language, tokenInfo: countTokens(content, tokenizer) });
+            continue;
+        }
+
+        const symbols = await parseSymbols(content, language);
+        for (const symbol of selectEnclosingSymbols(symbols, diff.changedRanges)) {
+            results.push({
+                path: diff.path,
+                content: symbol.content,
+                language,
+                tokenInfo: countTokens(symbol.content, tokenizer),
+                range: { startLine: symbol.startLine, endLine: symbol.endLine, symbol: getQualifiedName(symbol) },
+            });
+        }
+    }
+
+    return results;
+}
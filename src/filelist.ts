@@ -0,0 +1,76 @@
+/**
+ * File List Module
+ * Explicit file lists from other tools (rg -l, fd, scripts) via a file or stdin
+ */
+import { readFile } from 'fs/promises';
+import { dirname, isAbsolute, relative, resolve, sep } from 'path';
+
+export interface ResolvedFileList {
+    /** Directory the paths are relative to */
+    root: string;
+    /** Root-relative paths, forward slashes, deduplicated */
+    paths: string[];
+}
+
+/**
+ * Split a file list into paths; NUL-separated if it contains any NUL byte, newline-separated otherwise
+ */
+export function parseFileList(input: string): string[] {
+    const entries = input.includes('\0') ? input.split('\0') : input.split(/\r?\n/);
+    return entries.filter(entry => entry.trim() !== '');
+}
+
+/**
+ * Read all of stdin as text
+ */
+export async function readStdin(): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) {
+        chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+    }
+    return Buffer.concat(chunks).toString('utf-8');
+}
+
+/**
+ * Read a file list from a file, or from stdin when the source is "-"
+ */
+export async function readFileList(source: string): Promise<string[]> {
+    const input = source === '-' ? await readStdin() : await readFile(source, 'utf-8');
+    return parseFileList(input);
+}
+
+/**
+ * Deepest directory containing every given absolute path
+ */
+function commonAncestor(paths: string[]): string {
+    let ancestor = dirname(paths[0]);
+    for (const path of paths.slice(1)) {
+        while (path !== ancestor && !path.startsWith(ancestor.endsWith(sep) ? ancestor : ancestor + sep)) {
+            ancestor = dirname(ancestor);
+        }
+    }
+    return ancestor;
+}
+
+/**
+ * Resolve listed paths against `cwd`. Paths stay relative to `cwd` when they all live below it;
+ * otherwise everything is made relative to the deepest directory shared by all of them.
+ */
+export function resolveFileList(cwd: string, paths: string[]): ResolvedFileList {
+    const base = resolve(cwd);
+    const absolutePaths = [...new Set(paths.map(path => resolve(base, path)))];
+    if (absolutePaths.length === 0) {
+        return { root: base, paths: [] };
+    }
+
+    const inside = absolutePaths.every(path => {
+        const rel = relative(base, path);
+        return rel && !rel.startsWith('..') && !isAbsolute(rel);
+    });
+    const root = inside ? base : commonAncestor(absolutePaths);
+
+    return {
+        root,
+        paths: absolutePaths.map(path => relative(root, path).replace(/\\/g, '/')),
+    };
+}
@@ -0,0 +1,115 @@
+/**
+ * File Filters Module
+ * Content sniffing for binary, generated and minified files, plus size parsing
+ */
+
+export type SkipReason = 'binary' | 'too-large' | 'too-many-tokens' | 'generated' | 'minified' | 'unreadable';
+
+export interface SkippedFile {
+    path: string;
+    reason: SkipReason;
+    detail?: string;
+}
+
+/** Bytes inspected when sniffing for binary content (same window git uses) */
+const SNIFF_BYTES = 8000;
+
+/** Share of undecodable characters above which content is treated as binary */
+const INVALID_UTF8_RATIO = 0.1;
+
+/** Lines longer than this are a strong hint for minified or bundled output */
+const MINIFIED_LINE_LENGTH = 1000;
+
+/** Average line length above which a file is considered minified */
+const MINIFIED_AVG_LINE_LENGTH = 300;
+
+/** Number of leading lines searched for generated-file markers */
+const GENERATED_HEADER_LINES = 5;
+
+const utf8Decoder = new TextDecoder('utf-8', { fatal: false });
+
+const GENERATED_MARKERS = [
+    /@generated\b/,
+    /\bCode generated\b.*\bDO NOT EDIT\b/i,
+    /\bauto-?generated\b.*\bdo not (?:edit|modify)\b/i,
+];
+
+/**
+ * Detect binary content from the leading bytes: any NUL byte, or too many invalid UTF-8 sequences
+ */
+export function isBinaryContent(buffer: Uint8Array): boolean {
+    const sample = buffer.subarray(0, SNIFF_BYTES);
+    if (sample.length === 0) return false;
+    if (sample.includes(0)) return true;
+
+    const decoded = utf8Decoder.decode(sample);
+    let invalid = 0;
+    for (const char of decoded) {
+        if (char === '�') invalid++;
+    }
+
+    return invalid / decoded.length > INVALID_UTF8_RATIO;
+}
+
+/**
+ * Detect generated or minified source, returning the skip reason or null
+ */
+export function detectGenerated(content: string): { reason: 'generated' | 'minified'; detail: string } | null {
+    const lines = content.split('\n');
+
+    const header = lines.slice(0, GENERATED_HEADER_LINES).join('\n');
+    if (GENERATED_MARKERS.some(marker => marker.test(header))) {
+        return { reason: 'generated', detail: 'generated-file header' };
+    }
+
+    let longest = 0;
+    for (const line of lines) {
+        if (line.length > longest) longest = line.length;
+    }
+    const average = content.length / lines.length;
+
+    if (longest > MINIFIED_LINE_LENGTH && average > MINIFIED_AVG_LINE_LENGTH) {
+        return { reason: 'minified', detail: `longest line ${longest} chars` };
+    }
+
+    return null;
+}
+
+/**
+ * Parse a file size string (e.g., "500kb", "2mb", "4096")
+ */
+export function parseSize(size: string): number {
+    const match = size.toLowerCase().match(/^(\d+(?:\.\d+)?)\s*(b|kb?|mb?|gb?)?$/);
+    if (!match) {
+        throw new Error(`Invalid size format: ${size}`);
+    }
+
+    const value = parseFloat(match[1]);
+    const unit = match[2]?.[0] ?? 'b';
+    const multiplier = { b: 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3 }[unit] ?? 1;
+
+    return Math.floor(value * multiplier);
+}
+
+/**
+ * Format a byte count for display
+ */
+export function formatSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes}B`;
+    if (bytes < 1024 ** 2) return `${(bytes / 1024).toFixed(1)}KB`;
+    return `${(bytes / 1024 ** 2).toFixed(1)}MB`;
+}
+
+/**
+ * Summarize skipped files by reason (e.g., "2 binary, 1 minified")
+ */
+export function getSkipSummary(skipped: SkippedFile[]): string {
+    const counts: Record<string, number> = {};
+    for (const file of skipped) {
+        counts[file.reason] = (counts[file.reason] || 0) + 1;
+    }
+
+    return Object.entries(counts)
+        .map(([reason, count]) => `${count} ${reason}`)
+        .join(', ');
+}
@@ -3,20 +3,41 @@
  * Converts scan results into AI-friendly Markdown or XML format
  */
 import type { ScanResult } from './scanner';
-import type { CodeSymbol } from './parser';
+import { getQualifiedName, type CodeSymbol } from './parser';
+import { countTokens, type Tokenizer } from './tokenizer';
 
 export interface FormatOptions {
     format: 'markdown' | 'xml';
     includeTree?: boolean;
     signaturesOnly?: boolean;
     symbols?: Map<string, CodeSymbol[]>;
+    /** Skeletons by path (generateStub); signatures use them over the symbol outline */
+    stubs?: Map<string, string>;
     compact?: boolean;
 }
 
+export interface FormatCost {
+    /** Tokens of the fixed text around the files (title, notes, headings, XML envelope) */
+    frame: number;
+    /** Tokens each result adds: its block plus, at most, its lines in the structure tree */
+    files: number[];
+}
+
+const MARKDOWN_TITLE = '# Project Context';
+const MARKDOWN_NOTE = '> **Note**: Signatures only mode - implementations omitted';
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8"?>';
+const XML_NOTE = '  <note>Signatures only mode - implementations omitted</note>';
+
+/** Indentation of each nesting level in a signatures outline */
+const OUTLINE_INDENT = '    ';
+
+/** Marks a path-only file in the structure tree */
+const PATH_ONLY_LABEL = ' (path only)';
+
 /**
- * Build a directory tree structure from file paths
+ * Build a directory tree structure from file paths; `pathOnly` files are labelled
  */
-function buildTree(paths: string[]): string {
+function buildTree(paths: string[], pathOnly: Set<string> = new Set()): string {
     const tree: Record<string, any> = {};
 
     for (const path of paths) {
@@ -36,7 +57,7 @@ function buildTree(paths: string[]): string {
         }
     }
 
-    function render(node: Record<string, any>, prefix = ''): string[] {
+    function render(node: Record<string, any>, prefix = '', dir = ''): string[] {
         const entries = Object.entries(node).sort(([a], [b]) => {
             const aIsDir = node[a] !== null;
             const bIsDir = node[b] !== null;
@@ -48,10 +69,10 @@ function buildTree(paths: string[]): string {
 
         for (const [name, children] of entries) {
             if (children === null) {
-                lines.push(`${prefix}- ${name}`);
+                lines.push(`${prefix}- ${name}${pathOnly.has(dir + name) ? PATH_ONLY_LABEL : ''}`);
             } else {
                 lines.push(`${prefix}- ${name}/`);
-                lines.push(...render(children, prefix + '  '));
+                lines.push(...render(children, prefix + '  ', `${dir}${name}/`));
             }
         }
 
@@ -96,55 +117,233 @@ function compactContent(content: string, language: string): string {
     return result.join('\n');
 }
 
+/**
+ * Escape text for XML content
+ */
+function escapeXml(content: string): string {
+    return content
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;');
+}
+
+/**
+ * Build the attributes of a <file> tag
+ */
+function fileAttributes(result: ScanResult): string {
+    let attributes = `path="${result.path}" language="${result.language}"`;
+    if (result.range) {
+        if (result.range.symbol) attributes += ` symbol="${result.range.symbol}"`;
+        if (result.range.part) attributes += ` part="${result.range.part.index}/${result.range.part.total}"`;
+        attributes += ` lines="${result.range.startLine}-${result.range.endLine}"`;
+    }
+    if (result.fidelity) attributes += ` fidelity="${result.fidelity}"`;
+    return attributes;
+}
+
+/**
+ * Build the attributes of a <diff> tag
+ */
+function diffAttributes(result: ScanResult): string {
+    return `path="${result.path}" base="${result.diff!.base}" head="${result.diff!.head}"`;
+}
+
+/**
+ * Unique paths for the structure tree
+ */
+function treePaths(results: ScanResult[]): string[] {
+    return [...new Set(results.map(r => r.path))];
+}
+
+/**
+ * Structure tree for results, labelling files that are represented by their path alone
+ */
+function resultTree(results: ScanResult[]): string {
+    const pathOnly = new Set(results.filter(r => r.fidelity === 'path').map(r => r.path));
+    return buildTree(treePaths(results), pathOnly);
+}
+
+/**
+ * Signatures of a file as a nested outline: each symbol's kind and qualified name, the first
+ * paragraph of its doc and its signature, with members indented under their parent
+ */
+function formatOutline(symbols: CodeSymbol[], language: string): string {
+    const comment = language === 'python' ? '#' : '//';
+    const byName = new Map<string, CodeSymbol>();
+    for (const symbol of symbols) {
+        if (!byName.has(getQualifiedName(symbol))) byName.set(getQualifiedName(symbol), symbol);
+    }
+
+    // Members whose parent is declared elsewhere (a Rust impl's type, a Go receiver) stay at the top
+    const members = new Map<CodeSymbol | undefined, CodeSymbol[]>();
+    for (const symbol of symbols) {
+        const parent = symbol.parent ? byName.get(symbol.parent) : undefined;
+        members.set(parent, [...(members.get(parent) ?? []), symbol]);
+    }
+
+    const render = (symbol: CodeSymbol, indent: string): string => {
+        const summary = symbol.doc?.split(/\n\s*\n/)[0].split('\n') ?? [];
+        const lines = [
+            `${comment} ${symbol.kind}: ${getQualifiedName(symbol)}`,
+            ...summary.map(line => `${comment} ${line}`.trimEnd()),
+            symbol.signature,
+        ];
+        return [
+            lines.map(line => indent + line).join('\n'),
+            ...(members.get(symbol) ?? []).map(member => render(member, indent + OUTLINE_INDENT)),
+        ].join('\n\n');
+    };
+
+    return (members.get(undefined) ?? []).map(symbol => render(symbol, '')).join('\n\n');
+}
+
 /**
  * Format content based on options
  */
 function getFileContent(result: ScanResult, options: FormatOptions): string {
-    // Signatures only mode
-    if (options.signaturesOnly && options.symbols) {
-        const fileSymbols = options.symbols.get(result.path);
+    // Diffs are emitted verbatim
+    if (result.diff) {
+        return result.content;
+    }
+
+    // Signatures only mode (whole files only): the file's skeleton, else an outline of its symbols
+    if ((options.signaturesOnly || result.fidelity === 'signatures') && !result.range) {
+        const stub = options.stubs?.get(result.path);
+        if (stub !== undefined) {
+            return stub;
+        }
+
+        const fileSymbols = options.symbols?.get(result.path);
         if (fileSymbols && fileSymbols.length > 0) {
-            return fileSymbols
-                .map(s => `// ${s.kind}: ${s.name}\n${s.signature}`)
-                .join('\n\n');
+            return formatOutline(fileSymbols, result.language);
         }
     }
 
     let content = result.content;
 
     // Apply compact mode
-    if (options.compact) {
+    if (options.compact || result.fidelity === 'compact' || result.fidelity === 'signatures') {
         content = compactContent(content, result.language);
     }
 
     return content;
 }
 
+/**
+ * Text of one file or diff block, exactly as format() emits it
+ */
+export function formatBlock(result: ScanResult, options: FormatOptions): string {
+    const content = getFileContent(result, options);
+
+    if (options.format === 'xml') {
+        return result.diff
+            ? [`    <diff ${diffAttributes(result)}>`, escapeXml(content), '    </diff>'].join('\n')
+            : [`    <file ${fileAttributes(result)}>`, escapeXml(content), '    </file>'].join('\n');
+    }
+
+    return result.diff
+        ? [`<diff ${diffAttributes(result)}>`, content, '</diff>'].join('\n')
+        : [`<file ${fileAttributes(result)}>`, content, '</file>'].join('\n');
+}
+
+/**
+ * The most a path can add to the structure tree: its own line plus one per parent directory
+ */
+function treeEntry(path: string, options: FormatOptions, pathOnly = false): string {
+    const indent = options.format === 'xml' ? '    ' : '';
+    const parts = path.split('/');
+    return parts
+        .map((part, depth) => `${indent}${'  '.repeat(depth)}- ${part}${depth < parts.length - 1 ? '/' : pathOnly ? PATH_ONLY_LABEL : ''}`)
+        .join('\n');
+}
+
+/**
+ * Fixed text around the blocks, assuming every optional section is present
+ */
+function formatFrame(options: FormatOptions): string {
+    const { includeTree = true, signaturesOnly = false } = options;
+
+    if (options.format === 'xml') {
+        return [
+            XML_DECLARATION,
+            '<context>',
+            ...(signaturesOnly ? [XML_NOTE] : []),
+            ...(includeTree ? ['  <structure>', '  </structure>'] : []),
+            '  <diffs>', '  </diffs>',
+            '  <files>', '  </files>',
+            '</context>',
+        ].join('\n');
+    }
+
+    return [
+        MARKDOWN_TITLE, '',
+        ...(signaturesOnly ? [MARKDOWN_NOTE, ''] : []),
+        ...(includeTree ? ['## Structure', '', '---', ''] : []),
+        '## Changes', '',
+        '## Files', '',
+    ].join('\n');
+}
+
+/**
+ * Estimate what results will cost once formatted. Costs are upper bounds for the tree and
+ * close estimates otherwise; the exact total is countTokens(format(...)).
+ */
+export function estimateFormatCost(results: ScanResult[], options: FormatOptions, tokenizer?: Tokenizer): FormatCost {
+    return {
+        frame: countTokens(formatFrame(options), tokenizer).tokens,
+        files: results.map(result => estimateFileCost(result, options, tokenizer)),
+    };
+}
+
+/**
+ * Tokens one result adds to the output: its block plus, at most, its lines in the structure tree
+ */
+export function estimateFileCost(result: ScanResult, options: FormatOptions, tokenizer?: Tokenizer): number {
+    const { includeTree = true } = options;
+    const tokens = (text: string) => countTokens(text, tokenizer).tokens;
+
+    return (result.fidelity === 'path' ? 0 : tokens(formatBlock(result, options) + '\n\n')) +
+        (includeTree ? tokens(treeEntry(result.path, options, result.fidelity === 'path') + '\n') : 0);
+}
+
 /**
  * Format results as Markdown with XML file tags
  */
 function formatMarkdown(results: ScanResult[], options: FormatOptions): string {
     const { includeTree = true, signaturesOnly = false } = options;
-    const lines: string[] = ['# Project Context', ''];
+    const lines: string[] = [MARKDOWN_TITLE, ''];
+    const diffs = results.filter(r => r.diff && r.fidelity !== 'path');
+    const files = results.filter(r => !r.diff && r.fidelity !== 'path');
 
     if (signaturesOnly) {
-        lines.push('> **Note**: Signatures only mode - implementations omitted');
+        lines.push(MARKDOWN_NOTE);
         lines.push('');
     }
 
     if (includeTree && results.length > 0) {
         lines.push('## Structure');
-        lines.push(buildTree(results.map(r => r.path)));
+        lines.push(resultTree(results));
         lines.push('');
         lines.push('---');
         lines.push('');
     }
 
-    for (const result of results) {
-        const content = getFileContent(result, options);
-        lines.push(`<file path="${result.path}" language="${result.language}">`);
-        lines.push(content);
-        lines.push('</file>');
+    if (diffs.length > 0) {
+        lines.push('## Changes');
+        lines.push('');
+        for (const result of diffs) {
+            lines.push(formatBlock(result, options));
+            lines.push('');
+        }
+
+        if (files.length > 0) {
+            lines.push('## Files');
+            lines.push('');
+        }
+    }
+
+    for (const result of files) {
+        lines.push(formatBlock(result, options));
         lines.push('');
     }
 
@@ -156,32 +355,35 @@ function formatMarkdown(results: ScanResult[], options: FormatOptions): string {
  */
 function formatXml(results: ScanResult[], options: FormatOptions): string {
     const { includeTree = true, signaturesOnly = false } = options;
-    const lines: string[] = ['<?xml version="1.0" encoding="UTF-8"?>', '<context>'];
+    const lines: string[] = [XML_DECLARATION, '<context>'];
+    const diffs = results.filter(r => r.diff && r.fidelity !== 'path');
+    const files = results.filter(r => !r.diff && r.fidelity !== 'path');
 
     if (signaturesOnly) {
-        lines.push('  <note>Signatures only mode - implementations omitted</note>');
+        lines.push(XML_NOTE);
     }
 
     if (includeTree && results.length > 0) {
         lines.push('  <structure>');
-        const treeLines = buildTree(results.map(r => r.path)).split('\n');
+        const treeLines = resultTree(results).split('\n');
         for (const line of treeLines) {
             lines.push(`    ${line}`);
         }
         lines.push('  </structure>');
     }
 
+    if (diffs.length > 0) {
+        lines.push('  <diffs>');
+        for (const result of diffs) {
+            lines.push(formatBlock(result, options));
+        }
+        lines.push('  </diffs>');
+    }
+
     lines.push('  <files>');
 
-    for (const result of results) {
-        const content = getFileContent(result, options);
-        lines.push(`    <file path="${result.path}" language="${result.language}">`);
-        const escapedContent = content
-            .replace(/&/g, '&amp;')
-            .replace(/</g, '&lt;')
-            .replace(/>/g, '&gt;');
-        lines.push(escapedContent);
-        lines.push('    </file>');
+    for (const result of files) {
+        lines.push(formatBlock(result, options));
     }
 
     lines.push('  </files>');
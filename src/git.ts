@@ -0,0 +1,104 @@
+/**
+ * Git Module
+ * Local git queries for scoping scans: changed, staged and since-ref files
+ */
+import { execFile } from 'child_process';
+import { realpath } from 'fs/promises';
+import { promisify } from 'util';
+import { join, relative } from 'path';
+
+const execFileAsync = promisify(execFile);
+
+export interface GitScopeOptions {
+    /** Uncommitted changes: staged, unstaged and untracked files */
+    changed?: boolean;
+    /** Files staged in the index */
+    staged?: boolean;
+    /** Files changed between a ref and the working tree, plus untracked files */
+    since?: string;
+}
+
+/**
+ * Run a git command and return its stdout
+ */
+export async function runGit(cwd: string, args: string[]): Promise<string> {
+    try {
+        const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: 64 * 1024 * 1024 });
+        return stdout;
+    } catch (err) {
+        const stderr = (err as { stderr?: string }).stderr?.trim();
+        throw new Error(`git ${args[0]} failed${stderr ? `: ${stderr}` : ''}`);
+    }
+}
+
+/**
+ * Absolute path of the repository's work tree root
+ */
+export async function getGitRoot(cwd: string): Promise<string> {
+    return (await runGit(cwd, ['rev-parse', '--show-toplevel'])).trim();
+}
+
+/**
+ * Check whether any git scope option is set
+ */
+export function hasGitScope(options: GitScopeOptions): boolean {
+    return Boolean(options.changed || options.staged || options.since);
+}
+
+/**
+ * Split NUL-separated git output
+ */
+function splitNul(output: string): string[] {
+    return output.split('\0').filter(Boolean);
+}
+
+/**
+ * Parse `git status --porcelain -z` into root-relative paths of files that still exist
+ */
+function parseStatus(output: string): string[] {
+    const entries = splitNul(output);
+    const paths: string[] = [];
+
+    for (let i = 0; i < entries.length; i++) {
+        const entry = entries[i];
+        const status = entry.slice(0, 2);
+        const path = entry.slice(3);
+
+        // Renames and copies are followed by the original path
+        if (status.includes('R') || status.includes('C')) i++;
+        if (status.includes('D')) continue;
+
+        paths.push(path);
+    }
+
+    return paths;
+}
+
+/**
+ * List files in scope, relative to `cwd` (files outside `cwd` are dropped)
+ */
+export async function getChangedFiles(cwd: string, options: GitScopeOptions): Promise<string[]> {
+    const root = await getGitRoot(cwd);
+    // git reports real paths, so compare against the resolved cwd
+    const base = await realpath(cwd);
+    const rootPaths = new Set<string>();
+    const add = (paths: string[]) => paths.forEach(p => rootPaths.add(p));
+
+    if (options.changed) {
+        add(parseStatus(await runGit(root, ['status', '--porcelain=v1', '-z', '--untracked-files=all'])));
+    }
+
+    if (options.staged) {
+        add(splitNul(await runGit(root, ['diff', '--cached', '--name-only', '-z', '--diff-filter=ACMR'])));
+    }
+
+    if (options.since) {
+        add(splitNul(await runGit(root, ['diff', options.since, '--name-only', '-z', '--diff-filter=ACMR', '--'])));
+        add(splitNul(await runGit(root, ['ls-files', '--others', '--exclude-standard', '-z'])));
+    }
+
+    return [...rootPaths]
+        .map(p => relative(base, join(root, p)).replace(/\\/g, '/'))
+        .filter(p => p && !p.startsWith('..'))
+        .sort((a, b) => a.localeCompare(b));
+}
@@ -0,0 +1,337 @@
+/**
+ * Ignore Rules Module
+ * Git-compatible ignore matching: negation, anchoring, directory-only rules and nested ignore files
+ */
+import { readFile, stat } from 'fs/promises';
+import { homedir } from 'os';
+import { dirname, join, relative, resolve } from 'path';
+
+export interface IgnoreRule {
+    /** Pattern as written in the ignore file */
+    pattern: string;
+    /** Directory the rule is scoped to, relative to the repository root ('' for root) */
+    base: string;
+    negated: boolean;
+    dirOnly: boolean;
+    regex: RegExp;
+}
+
+export interface IgnoreMatcherOptions {
+    /** Global excludes file; defaults to $XDG_CONFIG_HOME/git/ignore, false disables it */
+    globalExcludesFile?: string | false;
+}
+
+/**
+ * Escape a single character for use in a RegExp
+ */
+function escapeRegExp(ch: string): string {
+    return ch.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+/**
+ * Translate a bracket expression starting at `start` ("[abc]", "[!a-z]").
+ * Returns null when the bracket is never closed, in which case it is a literal "[".
+ */
+function translateClass(pattern: string, start: number): { source: string; end: number } | null {
+    let i = start + 1;
+    let negated = false;
+    if (pattern[i] === '!' || pattern[i] === '^') {
+        negated = true;
+        i++;
+    }
+
+    let body = '';
+    // A "]" right after the opening bracket is part of the set
+    if (pattern[i] === ']') {
+        body += '\\]';
+        i++;
+    }
+
+    while (i < pattern.length && pattern[i] !== ']') {
+        const ch = pattern[i];
+        if (ch === '\\' && i + 1 < pattern.length) {
+            body += escapeRegExp(pattern[i + 1]);
+            i += 2;
+            continue;
+        }
+        body += ch === '-' ? '-' : escapeRegExp(ch);
+        i++;
+    }
+
+    if (i >= pattern.length) return null;
+    return { source: negated ? `(?!/)[^${body}]` : `[${body}]`, end: i + 1 };
+}
+
+/**
+ * Convert a gitignore (wildmatch) pattern into a RegExp.
+ * Unanchored patterns match at any depth below the rule's base directory.
+ */
+export function ignorePatternToRegExp(pattern: string, anchored: boolean): RegExp {
+    let source = anchored ? '' : '(?:.*/)?';
+    let i = 0;
+
+    while (i < pattern.length) {
+        const ch = pattern[i];
+
+        if (ch === '*') {
+            if (pattern[i + 1] === '*') {
+                const atStart = i === 0 || pattern[i - 1] === '/';
+                const atEnd = i + 2 === pattern.length || pattern[i + 2] === '/';
+                if (atStart && atEnd) {
+                    if (i + 2 === pattern.length) {
+                        // "foo/**" or "**": everything below
+                        source += '.*';
+                        i += 2;
+                    } else {
+                        // "**/": zero or more directories
+                        source += '(?:.*/)?';
+                        i += 3;
+                    }
+                    continue;
+                }
+            }
+            // Any other run of stars behaves like a single "*"
+            while (pattern[i] === '*') i++;
+            source += '[^/]*';
+            continue;
+        }
+
+        if (ch === '?') {
+            source += '[^/]';
+            i++;
+            continue;
+        }
+
+        if (ch === '[') {
+            const cls = translateClass(pattern, i);
+            if (cls) {
+                source += cls.source;
+                i = cls.end;
+                continue;
+            }
+        }
+
+        if (ch === '\\' && i + 1 < pattern.length) {
+            source += escapeRegExp(pattern[i + 1]);
+            i += 2;
+            continue;
+        }
+
+        source += escapeRegExp(ch);
+        i++;
+    }
+
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * Parse the contents of an ignore file into rules scoped to `base`
+ */
+export function parseIgnoreRules(content: string, base = ''): IgnoreRule[] {
+    const rules: IgnoreRule[] = [];
+
+    for (const rawLine of content.split(/\r?\n/)) {
+        if (!rawLine || rawLine.startsWith('#')) continue;
+
+        // Trailing spaces are ignored unless escaped with a backslash
+        let end = rawLine.length;
+        while (end > 0 && rawLine[end - 1] === ' ' && rawLine[end - 2] !== '\\') end--;
+        let line = rawLine.slice(0, end);
+        if (!line) continue;
+
+        let negated = false;
+        if (line.startsWith('!')) {
+            negated = true;
+            line = line.slice(1);
+        } else if (line.startsWith('\\!') || line.startsWith('\\#')) {
+            line = line.slice(1);
+        }
+
+        let dirOnly = false;
+        if (line.endsWith('/') && !line.endsWith('\\/')) {
+            dirOnly = true;
+            line = line.replace(/\/+$/, '');
+        }
+        if (!line) continue;
+
+        // A slash anywhere but the end anchors the pattern to the ignore file's directory
+        const anchored = line.includes('/');
+        if (line.startsWith('/')) line = line.slice(1);
+
+        rules.push({
+            pattern: rawLine.slice(0, end),
+            base,
+            negated,
+            dirOnly,
+            regex: ignorePatternToRegExp(line, anchored),
+        });
+    }
+
+    return rules;
+}
+
+/**
+ * Read an ignore file, returning no rules if it does not exist
+ */
+async function readIgnoreFile(filePath: string, base = ''): Promise<IgnoreRule[]> {
+    try {
+        const content = await readFile(filePath, 'utf-8');
+        return parseIgnoreRules(content, base);
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Find the enclosing git work tree, or null if `cwd` is not inside one
+ */
+async function findRepoRoot(cwd: string): Promise<string | null> {
+    let dir = resolve(cwd);
+    while (true) {
+        try {
+            await stat(join(dir, '.git'));
+            return dir;
+        } catch {
+            const parent = dirname(dir);
+            if (parent === dir) return null;
+            dir = parent;
+        }
+    }
+}
+
+/**
+ * Default location of git's global excludes file
+ */
+function defaultGlobalExcludesFile(): string {
+    const configHome = process.env.XDG_CONFIG_HOME || join(homedir(), '.config');
+    return join(configHome, 'git', 'ignore');
+}
+
+/**
+ * Matches paths against git's ignore rules.
+ *
+ * Precedence follows git, lowest first: the global excludes file, .git/info/exclude,
+ * then .gitignore files from the repository root down to the path's directory.
+ * The last matching rule wins, and nothing below an ignored directory can be re-included.
+ */
+export class IgnoreMatcher {
+    private dirRules = new Map<string, Promise<IgnoreRule[]>>();
+    private chainRules = new Map<string, Promise<IgnoreRule[]>>();
+    private dirVerdicts = new Map<string, Promise<boolean>>();
+
+    private constructor(
+        private readonly root: string,
+        private readonly prefix: string,
+        private readonly baseRules: IgnoreRule[]
+    ) {}
+
+    /**
+     * Create a matcher for paths relative to `cwd`
+     */
+    static async create(cwd: string, options: IgnoreMatcherOptions = {}): Promise<IgnoreMatcher> {
+        const absoluteCwd = resolve(cwd);
+        const repoRoot = await findRepoRoot(absoluteCwd);
+        const root = repoRoot ?? absoluteCwd;
+        const prefix = relative(root, absoluteCwd).replace(/\\/g, '/');
+
+        const { globalExcludesFile = defaultGlobalExcludesFile() } = options;
+        const baseRules = [
+            ...(globalExcludesFile ? await readIgnoreFile(globalExcludesFile) : []),
+            ...(repoRoot ? await readIgnoreFile(join(repoRoot, '.git', 'info', 'exclude')) : []),
+        ];
+
+        return new IgnoreMatcher(root, prefix, baseRules);
+    }
+
+    /**
+     * Check whether a path relative to the matcher's cwd is ignored
+     */
+    async isIgnored(path: string, isDir = false): Promise<boolean> {
+        const normalized = path.replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/$/, '');
+        const segments = normalized.split('/');
+
+        // A file inside an ignored directory can never be re-included
+        for (let i = 1; i < segments.length; i++) {
+            if (await this.isDirIgnored(segments.slice(0, i).join('/'))) {
+                return true;
+            }
+        }
+
+        return this.matches(this.toRootPath(normalized), isDir);
+    }
+
+    /**
+     * Check only the path itself, for walkers that never descend into ignored directories
+     */
+    isIgnoredShallow(path: string, isDir = false): Promise<boolean> {
+        const normalized = path.replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/$/, '');
+        return isDir ? this.isDirIgnored(normalized) : this.matches(this.toRootPath(normalized), false);
+    }
+
+    /**
+     * Check (and cache) whether a cwd-relative directory is ignored by its own rules
+     */
+    private isDirIgnored(dir: string): Promise<boolean> {
+        let verdict = this.dirVerdicts.get(dir);
+        if (!verdict) {
+            verdict = this.matches(this.toRootPath(dir), true);
+            this.dirVerdicts.set(dir, verdict);
+        }
+        return verdict;
+    }
+
+    private toRootPath(path: string): string {
+        return this.prefix ? `${this.prefix}/${path}` : path;
+    }
+
+    /**
+     * Evaluate every applicable rule against a root-relative path; the last match decides
+     */
+    private async matches(rootPath: string, isDir: boolean): Promise<boolean> {
+        const slash = rootPath.lastIndexOf('/');
+        const rules = await this.loadChainRules(slash === -1 ? '' : rootPath.slice(0, slash));
+
+        for (let i = rules.length - 1; i >= 0; i--) {
+            const rule = rules[i];
+            if (rule.dirOnly && !isDir) continue;
+
+            let subject = rootPath;
+            if (rule.base) {
+                if (!rootPath.startsWith(rule.base + '/')) continue;
+                subject = rootPath.slice(rule.base.length + 1);
+            }
+
+            if (rule.regex.test(subject)) {
+                return !rule.negated;
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * All rules applying to entries of a root-relative directory, lowest precedence first
+     */
+    private loadChainRules(dir: string): Promise<IgnoreRule[]> {
+        let rules = this.chainRules.get(dir);
+        if (!rules) {
+            const slash = dir.lastIndexOf('/');
+            const parent = dir ? this.loadChainRules(slash === -1 ? '' : dir.slice(0, slash)) : Promise.resolve(this.baseRules);
+            rules = Promise.all([parent, this.loadDirRules(dir)]).then(([inherited, own]) => [...inherited, ...own]);
+            this.chainRules.set(dir, rules);
+        }
+        return rules;
+    }
+
+    /**
+     * Load (once) the .gitignore rules of a root-relative directory
+     */
+    private loadDirRules(dir: string): Promise<IgnoreRule[]> {
+        let rules = this.dirRules.get(dir);
+        if (!rules) {
+            rules = readIgnoreFile(join(this.root, dir, '.gitignore'), dir);
+            this.dirRules.set(dir, rules);
+        }
+        return rules;
+    }
+}
@@ -0,0 +1,349 @@
+/**
+ * Imports Module
+ * Extract module specifiers from source files and resolve them to scanned paths
+ */
+import { Glob } from 'bun';
+import { readFile } from 'fs/promises';
+import { dirname, join, posix, relative, resolve } from 'path';
+import type { ScanResult } from './scanner';
+import { JAVASCRIPT_IMPORT_PATTERNS } from './patterns';
+import { parseModuleEdges, type ModuleEdge } from './parser';
+
+export interface ImportGraph {
+    /** File -> files it imports */
+    imports: Map<string, string[]>;
+    /** File -> files importing it */
+    importedBy: Map<string, string[]>;
+}
+
+export interface PackageInfo {
+    /** Package directory, relative to the project root ("" for the root package) */
+    dir: string;
+    exports?: unknown;
+    main?: string;
+    module?: string;
+}
+
+/** How non-relative specifiers resolve; all paths are relative to the project root */
+export interface ResolverConfig {
+    /** tsconfig baseUrl */
+    baseUrl?: string;
+    /** tsconfig paths, with targets already relative to the project root */
+    paths?: Record<string, string[]>;
+    /** Packages of this project (the root package and workspaces) by name */
+    packages?: Record<string, PackageInfo>;
+}
+
+export interface ImportGraphOptions {
+    resolver?: ResolverConfig;
+    /** Parsed edges by path (see parseModuleEdges); files without an entry are read with regexes */
+    edges?: Map<string, ModuleEdge[]>;
+}
+
+const JS_LANGUAGES = ['typescript', 'javascript', 'tsx', 'jsx'];
+
+/** Extensions tried, in order, for extensionless relative specifiers */
+const RESOLVE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.mts', '.cts'];
+
+/** ESM TypeScript imports name the emitted file ("./a.js" for "./a.ts") */
+const EMITTED_EXTENSIONS: Record<string, string[]> = {
+    '.js': ['.ts', '.tsx'],
+    '.jsx': ['.tsx'],
+    '.mjs': ['.mts'],
+    '.cjs': ['.cts'],
+};
+
+/**
+ * Extract raw module specifiers from source code
+ */
+export function extractImports(content: string, language: string): string[] {
+    if (!JS_LANGUAGES.includes(language)) return [];
+
+    const specifiers = new Set<string>();
+    for (const pattern of JAVASCRIPT_IMPORT_PATTERNS) {
+        for (const match of content.matchAll(pattern)) {
+            specifiers.add(match[1]);
+        }
+    }
+
+    return [...specifiers];
+}
+
+/**
+ * Files a path may refer to: itself, its TypeScript source, or itself with an extension or index file
+ */
+function candidatesFor(base: string): string[] {
+    const candidates = [base];
+
+    const ext = posix.extname(base);
+    for (const replacement of EMITTED_EXTENSIONS[ext] ?? []) {
+        candidates.push(base.slice(0, -ext.length) + replacement);
+    }
+    for (const extension of RESOLVE_EXTENSIONS) {
+        candidates.push(base + extension);
+    }
+    for (const extension of RESOLVE_EXTENSIONS) {
+        candidates.push(`${base}/index${extension}`);
+    }
+
+    return candidates;
+}
+
+/**
+ * Targets of a package.json "exports" value for a subpath ("." or "./x"), in condition order
+ */
+function resolveExports(exports: unknown, subpath: string): string[] {
+    const isConditions = (value: unknown) =>
+        typeof value === 'object' && value !== null && !Array.isArray(value) &&
+        Object.keys(value).every(key => !key.startsWith('.'));
+    const map = (typeof exports === 'string' || Array.isArray(exports) || isConditions(exports)
+        ? { '.': exports }
+        : exports) as Record<string, unknown>;
+
+    const flatten = (value: unknown, star?: string): string[] => {
+        if (typeof value === 'string') return [star === undefined ? value : value.replace(/\*/g, star)];
+        if (Array.isArray(value)) return value.flatMap(item => flatten(item, star));
+        if (typeof value === 'object' && value !== null) return Object.values(value).flatMap(item => flatten(item, star));
+        return [];
+    };
+
+    if (subpath in map) return flatten(map[subpath]);
+
+    for (const [key, value] of Object.entries(map)) {
+        const star = key.indexOf('*');
+        if (star < 0) continue;
+        const prefix = key.slice(0, star);
+        const suffix = key.slice(star + 1);
+        if (subpath.startsWith(prefix) && subpath.endsWith(suffix) && subpath.length >= prefix.length + suffix.length) {
+            return flatten(value, subpath.slice(prefix.length, subpath.length - suffix.length));
+        }
+    }
+    return [];
+}
+
+/**
+ * Candidate paths for a bare specifier: tsconfig paths, then baseUrl, then project packages
+ */
+function bareCandidates(specifier: string, config: ResolverConfig): string[] {
+    const candidates: string[] = [];
+
+    for (const [pattern, targets] of Object.entries(config.paths ?? {})) {
+        const star = pattern.indexOf('*');
+        let match: string | undefined;
+        if (star < 0) {
+            if (pattern === specifier) match = '';
+        } else if (specifier.startsWith(pattern.slice(0, star)) && specifier.endsWith(pattern.slice(star + 1))) {
+            match = specifier.slice(star, specifier.length - (pattern.length - star - 1));
+        }
+        if (match === undefined) continue;
+        for (const target of targets) {
+            candidates.push(...candidatesFor(posix.normalize(target.replace('*', match))));
+        }
+    }
+
+    if (config.baseUrl !== undefined) {
+        candidates.push(...candidatesFor(posix.normalize(posix.join(config.baseUrl, specifier))));
+    }
+
+    const parts = specifier.split('/');
+    const name = specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+    const pkg = config.packages?.[name];
+    if (pkg) {
+        const subpath = specifier === name ? '.' : `./${specifier.slice(name.length + 1)}`;
+        const targets = pkg.exports !== undefined
+            ? resolveExports(pkg.exports, subpath)
+            : subpath === '.' ? [pkg.module, pkg.main, 'index'].filter((t): t is string => !!t) : [subpath];
+        for (const target of targets) {
+            candidates.push(...candidatesFor(posix.normalize(posix.join(pkg.dir, target))));
+        }
+    }
+
+    return candidates;
+}
+
+/**
+ * Resolve a specifier against the set of known files. Relative specifiers always resolve;
+ * bare ones only through the resolver config (tsconfig paths, baseUrl, project packages).
+ */
+export function resolveImport(
+    fromPath: string,
+    specifier: string,
+    files: Set<string>,
+    config: ResolverConfig = {}
+): string | null {
+    const candidates = specifier.startsWith('.')
+        ? candidatesFor(posix.normalize(posix.join(posix.dirname(fromPath), specifier)))
+        : bareCandidates(specifier, config);
+
+    return candidates.find(candidate => files.has(candidate)) ?? null;
+}
+
+/**
+ * Parse JSON that may contain comments and trailing commas (tsconfig.json)
+ */
+function parseJsonc(text: string): unknown {
+    // Strings are matched first so "//" inside them is left alone
+    const stripped = text.replace(/("(?:[^"\\]|\\.)*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g, (_, string) => string ?? '');
+    return JSON.parse(stripped.replace(/,(\s*[}\]])/g, '$1'));
+}
+
+interface TsconfigPaths {
+    /** Absolute */
+    baseUrl?: string;
+    paths?: Record<string, string[]>;
+    /** Directory of the config defining paths, which they resolve against without a baseUrl */
+    pathsDir?: string;
+}
+
+/**
+ * Read baseUrl and paths from a tsconfig, following relative "extends"
+ */
+async function readTsconfig(file: string, depth = 0): Promise<TsconfigPaths> {
+    const raw = parseJsonc(await readFile(file, 'utf-8')) as Record<string, any>;
+    const dir = dirname(file);
+
+    let inherited: TsconfigPaths = {};
+    if (typeof raw.extends === 'string' && raw.extends.startsWith('.') && depth < 5) {
+        const parent = resolve(dir, raw.extends.endsWith('.json') ? raw.extends : `${raw.extends}.json`);
+        try {
+            inherited = await readTsconfig(parent, depth + 1);
+        } catch {
+            // A missing base config only loses its paths
+        }
+    }
+
+    const options = raw.compilerOptions ?? {};
+    const ownPaths = typeof options.paths === 'object' && options.paths !== null;
+    return {
+        baseUrl: typeof options.baseUrl === 'string' ? resolve(dir, options.baseUrl) : inherited.baseUrl,
+        paths: ownPaths ? options.paths : inherited.paths,
+        pathsDir: ownPaths ? dir : inherited.pathsDir,
+    };
+}
+
+/**
+ * Read how bare specifiers resolve in a project: tsconfig.json baseUrl and paths, and the
+ * names and "exports" of the root package and its workspaces. Missing files are skipped.
+ */
+export async function loadResolverConfig(cwd: string): Promise<ResolverConfig> {
+    const config: ResolverConfig = {};
+    const toRoot = (path: string) => relative(cwd, path).replace(/\\/g, '/');
+
+    try {
+        const tsconfig = await readTsconfig(join(cwd, 'tsconfig.json'));
+        if (tsconfig.baseUrl) config.baseUrl = toRoot(tsconfig.baseUrl);
+        if (tsconfig.paths) {
+            const base = tsconfig.baseUrl ?? tsconfig.pathsDir!;
+            config.paths = Object.fromEntries(Object.entries(tsconfig.paths).map(([pattern, targets]) =>
+                [pattern, targets.map(target => toRoot(resolve(base, target)))]
+            ));
+        }
+    } catch {
+        // No usable tsconfig.json
+    }
+
+    const packages: Record<string, PackageInfo> = {};
+    const addPackage = async (dir: string): Promise<Record<string, any> | null> => {
+        try {
+            const pkg = JSON.parse(await readFile(join(cwd, dir, 'package.json'), 'utf-8'));
+            if (typeof pkg.name === 'string') {
+                packages[pkg.name] = { dir, exports: pkg.exports, main: pkg.main, module: pkg.module };
+            }
+            return pkg;
+        } catch {
+            return null;
+        }
+    };
+
+    const root = await addPackage('');
+    const workspaces: unknown = Array.isArray(root?.workspaces) ? root.workspaces : root?.workspaces?.packages;
+    if (Array.isArray(workspaces)) {
+        for (const pattern of workspaces.filter((w): w is string => typeof w === 'string')) {
+            for await (const file of new Glob(`${pattern}/package.json`).scan({ cwd })) {
+                const path = file.replace(/\\/g, '/');
+                if (!path.includes('node_modules/')) await addPackage(posix.dirname(path));
+            }
+        }
+    }
+    if (Object.keys(packages).length > 0) config.packages = packages;
+
+    return config;
+}
+
+/**
+ * Build the import graph between scanned files
+ */
+export function buildImportGraph(results: ScanResult[], options: ImportGraphOptions = {}): ImportGraph {
+    const files = new Set(results.map(r => r.path));
+    const imports = new Map<string, string[]>();
+    const importedBy = new Map<string, string[]>();
+
+    for (const result of results) {
+        const specifiers = options.edges?.get(result.path)?.map(edge => edge.specifier)
+            ?? extractImports(result.content, result.language);
+
+        const targets = new Set<string>();
+        for (const specifier of specifiers) {
+            const target = resolveImport(result.path, specifier, files, options.resolver);
+            if (target && target !== result.path) targets.add(target);
+        }
+
+        imports.set(result.path, [...targets]);
+        for (const target of targets) {
+            if (!importedBy.has(target)) importedBy.set(target, []);
+            importedBy.get(target)!.push(result.path);
+        }
+    }
+
+    return { imports, importedBy };
+}
+
+/**
+ * Build the import graph from parsed module edges (Tree-sitter when available)
+ */
+export async function parseImportGraph(results: ScanResult[], resolver?: ResolverConfig): Promise<ImportGraph> {
+    const edges = new Map<string, ModuleEdge[]>();
+    for (const result of results) {
+        edges.set(result.path, await parseModuleEdges(result.content, result.language));
+    }
+    return buildImportGraph(results, { resolver, edges });
+}
+
+/**
+ * Files reachable from the entries through imports and re-exports, with their
+ * distance in import steps (entries are 0), up to `depth` steps
+ */
+export function followImports(graph: ImportGraph, entries: string[], depth = Infinity): Map<string, number> {
+    const distances = new Map(entries.map(entry => [entry, 0]));
+    let frontier = [...entries];
+
+    for (let step = 1; step <= depth && frontier.length > 0; step++) {
+        const next: string[] = [];
+        for (const file of frontier) {
+            for (const target of graph.imports.get(file) ?? []) {
+                if (distances.has(target)) continue;
+                distances.set(target, step);
+                next.push(target);
+            }
+        }
+        frontier = next;
+    }
+
+    return distances;
+}
+
+/**
+ * Find files that directly import any of the targets (targets themselves excluded)
+ */
+export function findImporters(graph: ImportGraph, targets: string[]): string[] {
+    const targetSet = new Set(targets);
+    const importers = new Set<string>();
+
+    for (const target of targets) {
+        for (const importer of graph.importedBy.get(target) ?? []) {
+            if (!targetSet.has(importer)) importers.add(importer);
+        }
+    }
+
+    return [...importers].sort((a, b) => a.localeCompare(b));
+}
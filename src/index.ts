@@ -2,19 +2,177 @@
  * code-context-cli
  * Weave your codebase into AI-ready context
  */
-export { scan, type ScanOptions, type ScanResult } from './scanner';
-export { format, type FormatOptions } from './formatter';
+export { scan, scanWithReport, createPathFilter, detectLanguage, type ScanOptions, type ScanResult, type ScanReport, type Fidelity } from './scanner';
+export { isBinaryContent, detectGenerated, parseSize, type SkippedFile, type SkipReason } from './filters';
+export { IgnoreMatcher, parseIgnoreRules, type IgnoreRule, type IgnoreMatcherOptions } from './ignore';
+export { format, formatBlock, estimateFormatCost, estimateFileCost, type FormatOptions, type FormatCost } from './formatter';
 export {
     countTokens,
     estimateTokens,
     formatTokens,
     parseBudget,
     getTokenColor,
-    MODEL_LIMITS,
-    type TokenInfo
+    getTokenCount,
+    getTokenizerIds,
+    getDefaultTokenizer,
+    loadTokenizer,
+    TOKENIZER_ID,
+    type TokenInfo,
+    type Tokenizer
 } from './tokenizer';
-export { fitToBudget, getBudgetSummary, type BudgetConfig, type BudgetResult } from './budget';
-export { splitToChunks, getChunkHeader, type Chunk, type ChunkOptions } from './chunker';
-export { parseSymbols, getSymbolSummary, type CodeSymbol, type SymbolKind } from './parser';
+export {
+    createModelRegistry,
+    getModel,
+    loadModelTokenizer,
+    getInputLimit,
+    getModelFit,
+    estimateInputCost,
+    formatCost,
+    BUILTIN_MODELS,
+    MODEL_LIMITS,
+    type ModelSpec,
+    type ModelInfo,
+    type ModelOverrides,
+    type ModelRegistry,
+    type ModelFit
+} from './models';
+export {
+    fitToBudget,
+    getBudgetSummary,
+    getFidelitySummary,
+    FIDELITY_LADDER,
+    type BudgetConfig,
+    type BudgetResult,
+    type BudgetStrategy,
+    type FileFidelity,
+    type FileScore
+} from './budget';
+export {
+    ruleScorer,
+    recencyScorer,
+    centralityScorer,
+    proximityScorer,
+    combineScorers,
+    createBaseScorer,
+    createDefaultScorer,
+    getModifiedTimes,
+    type Scorer,
+    type WeightedScorer,
+    type BaseScorerOptions,
+    type DefaultScorerOptions
+} from './scoring';
+export {
+    parsePriorityRule,
+    parsePriorityRules,
+    createRuleMatcher,
+    parseQuota,
+    getTopDirectory,
+    type PriorityRule,
+    type RuleMatcher
+} from './priority';
+export { SearchIndex, splitIdentifiers, type SearchMatch, type SearchIndexOptions } from './search';
+export { splitToChunks, splitFile, getChunkHeader, formatChunk, type Chunk, type ChunkOptions, type ChunkStrategy, type SplitOptions } from './chunker';
+export {
+    buildManifest,
+    getChunkPreamble,
+    formatManifest,
+    type ChunkManifest,
+    type ManifestChunk,
+    type ManifestFile,
+    type ManifestFormat,
+    type ManifestOptions
+} from './manifest';
+export { generateStub } from './stubs';
+export {
+    isSelector,
+    parseSelector,
+    parseSelectors,
+    selectSymbols,
+    mergeFragments,
+    resolveSelectors,
+    type Selector
+} from './selectors';
+export {
+    parseSymbols,
+    parseModuleEdges,
+    parseTree,
+    isSymbolLanguage,
+    getQualifiedName,
+    getSymbolSummary,
+    getParserId,
+    PARSER_VERSION,
+    type CodeSymbol,
+    type SymbolKind,
+    type Visibility,
+    type ModuleEdge,
+    type ModuleEdgeKind,
+    type ParseOptions
+} from './parser';
+export { getChangedFiles, getGitRoot, hasGitScope, type GitScopeOptions } from './git';
+export {
+    resolveConfig,
+    parseConfig,
+    parseOptions,
+    loadConfigFile,
+    findProjectConfig,
+    getUserConfigFile,
+    mergeCliOptions,
+    DEFAULT_OPTIONS,
+    PROJECT_CONFIG_FILES,
+    type CtxConfig,
+    type ConfigOptions,
+    type ResolvedConfig
+} from './config';
+export {
+    Redactor,
+    redactResults,
+    getRedactionSummary,
+    compileSecretRules,
+    shannonEntropy,
+    BUILTIN_SECRET_RULES,
+    type SecretRule,
+    type RedactOptions,
+    type RedactionFinding,
+    type RedactionReport
+} from './redact';
+export {
+    saveContextSet,
+    loadContextSet,
+    listContextSets,
+    deleteContextSet,
+    resolveContextSet,
+    parseSelection,
+    updateSelection,
+    SETS_DIR,
+    type ContextSet,
+    type ResolvedContextSet,
+    type MissingSetEntry
+} from './sets';
+export { parseFileList, readFileList, resolveFileList, type ResolvedFileList } from './filelist';
+export {
+    getFileDiffs,
+    getFileDiffsWithReport,
+    parseUnifiedDiff,
+    buildDiffResults,
+    selectEnclosingSymbols,
+    type FileDiff,
+    type DiffOptions,
+    type DiffReport,
+    type DiffContextMode
+} from './diff';
+export {
+    extractImports,
+    resolveImport,
+    buildImportGraph,
+    parseImportGraph,
+    followImports,
+    findImporters,
+    loadResolverConfig,
+    type ImportGraph,
+    type ImportGraphOptions,
+    type ResolverConfig,
+    type PackageInfo
+} from './imports';
+export { TokenCache, clearCache, getCacheDir, hashContent, type TokenCacheOptions } from './cache';
 export { launchTUI } from './tui/App';
 export { t, getLocale, setLocale, isChinese, type Locale } from './i18n';
@@ -0,0 +1,144 @@
+/**
+ * Manifest Module
+ * Describes what every chunk holds, so a model reading one chunk knows where the rest is
+ */
+import type { Chunk } from './chunker';
+import type { CodeSymbol } from './parser';
+import type { ScanResult } from './scanner';
+import { formatTokens } from './tokenizer';
+
+export type ManifestFormat = 'markdown' | 'json';
+
+export interface ManifestFile {
+    path: string;
+    tokens: number;
+    /** "120-340" when the chunk holds only these lines */
+    lines?: string;
+    /** "2/3" when the file is split across chunks */
+    part?: string;
+    /** Exported symbols within the lines the chunk holds */
+    exports: string[];
+}
+
+export interface ManifestChunk {
+    /** 1-based, like the chunk file names */
+    chunk: number;
+    /** Output file, when chunks are written to files */
+    file?: string;
+    tokens: number;
+    modules?: string[];
+    files: ManifestFile[];
+}
+
+export interface ChunkManifest {
+    total: number;
+    tokens: number;
+    chunks: ManifestChunk[];
+}
+
+export interface ManifestOptions {
+    /** Parsed symbols by path, for the exports of each file */
+    symbols?: Map<string, CodeSymbol[]>;
+    /** Output file of the chunk at a 0-based index */
+    filename?: (index: number) => string | undefined;
+}
+
+/** Exports listed per chunk in a preamble; the manifest itself lists them all */
+const MAX_PREAMBLE_EXPORTS = 8;
+
+/**
+ * Names of the module's exported top-level symbols within a result's lines
+ */
+function getExports(result: ScanResult, symbols: CodeSymbol[]): string[] {
+    const { startLine = 1, endLine = Infinity } = result.range ?? {};
+    return symbols
+        .filter(s => s.exported && !s.parent && s.startLine >= startLine && s.startLine <= endLine)
+        .map(s => s.name);
+}
+
+/**
+ * Describe chunks in their current order
+ */
+export function buildManifest(chunks: Chunk[], options: ManifestOptions = {}): ChunkManifest {
+    const { symbols, filename } = options;
+
+    return {
+        total: chunks.length,
+        tokens: chunks.reduce((sum, chunk) => sum + chunk.tokens, 0),
+        chunks: chunks.map((chunk, i) => {
+            const file = filename?.(i);
+            return {
+                chunk: i + 1,
+                ...(file ? { file } : {}),
+                tokens: chunk.tokens,
+                ...(chunk.modules ? { modules: chunk.modules } : {}),
+                files: chunk.files.map(result => {
+                    const entry: ManifestFile = { path: result.path, tokens: result.tokenInfo.tokens, exports: [] };
+                    if (result.range) entry.lines = `${result.range.startLine}-${result.range.endLine}`;
+                    if (result.range?.part) entry.part = `${result.range.part.index}/${result.range.part.total}`;
+                    entry.exports = getExports(result, symbols?.get(result.path) ?? []);
+                    return entry;
+                }),
+            };
+        }),
+    };
+}
+
+/**
+ * One-line label of a file in a chunk, e.g. "src/cli.ts (part 2/3)"
+ */
+function fileLabel(file: ManifestFile): string {
+    return file.part ? `${file.path} (part ${file.part})` : file.path;
+}
+
+/**
+ * Compact note placed at the top of a chunk: which chunk it is, and which files and exports
+ * the other chunks hold
+ */
+export function getChunkPreamble(manifest: ChunkManifest, index: number): string {
+    const own = manifest.chunks[index];
+    const range = (entry: ManifestChunk) => {
+        const first = fileLabel(entry.files[0]);
+        const count = `${entry.files.length} ${entry.files.length === 1 ? 'file' : 'files'}`;
+        return entry.files.length === 1 ? `${first} (${count})` : `${first} – ${fileLabel(entry.files[entry.files.length - 1])} (${count})`;
+    };
+
+    const lines = [`<!-- This is chunk ${index + 1} of ${manifest.total}: ${range(own)}.`];
+    const others = manifest.chunks.filter((_, i) => i !== index);
+    if (others.length > 0) {
+        lines.push('Files elsewhere:');
+        for (const entry of others) {
+            const exports = entry.files.flatMap(file => file.exports);
+            const more = exports.length - MAX_PREAMBLE_EXPORTS;
+            const exported = exports.length > 0
+                ? `; exports ${exports.slice(0, MAX_PREAMBLE_EXPORTS).join(', ')}${more > 0 ? ` +${more} more` : ''}`
+                : '';
+            lines.push(`- Chunk ${entry.chunk}: ${range(entry)}${exported}`);
+        }
+    }
+    lines.push('-->');
+
+    return lines.join('\n');
+}
+
+/**
+ * Manifest as Markdown, or as JSON for scripts driving multi-turn uploads
+ */
+export function formatManifest(manifest: ChunkManifest, format: ManifestFormat = 'markdown'): string {
+    if (format === 'json') {
+        return JSON.stringify(manifest, null, 2);
+    }
+
+    const lines = ['# Chunk Manifest', '', `${manifest.total} chunks, ${formatTokens(manifest.tokens)} tokens`];
+    for (const entry of manifest.chunks) {
+        const title = [`Chunk ${entry.chunk}/${manifest.total}`, entry.file, `${formatTokens(entry.tokens)} tokens`].filter(Boolean);
+        lines.push('', `## ${title.join(' · ')}`, '');
+        for (const file of entry.files) {
+            const span = file.lines ? ` lines ${file.lines}` : '';
+            const exports = file.exports.length > 0 ? ` — exports ${file.exports.join(', ')}` : '';
+            lines.push(`- ${fileLabel(file)}${span} (${formatTokens(file.tokens)})${exports}`);
+        }
+    }
+
+    return lines.join('\n') + '\n';
+}
@@ -0,0 +1,142 @@
+/**
+ * Model Registry Module
+ * Context windows, output reserves, prices and tokenizers for the models context is built for
+ */
+import { loadTokenizer, TOKENIZER_ID, type Tokenizer } from './tokenizer';
+
+export interface ModelSpec {
+    /** Total tokens the model accepts (input + output) */
+    contextWindow: number;
+    /** Tokens kept free for the response */
+    outputReserve: number;
+    /** USD per million input tokens; unknown when omitted */
+    inputPrice?: number;
+    /** Tokenizer id (see getTokenizerIds) */
+    tokenizer: string;
+}
+
+export interface ModelInfo extends ModelSpec {
+    name: string;
+}
+
+/** User-defined models or overrides, as written in a config file */
+export type ModelOverrides = Record<string, Partial<ModelSpec>>;
+
+export type ModelRegistry = Map<string, ModelSpec>;
+
+/** How a token count sits against a model's window */
+export type ModelFit = 'ok' | 'over-reserve' | 'over-window';
+
+/** Response space assumed for user models that don't set one */
+const DEFAULT_OUTPUT_RESERVE = 4096;
+
+export const BUILTIN_MODELS: Record<string, ModelSpec> = {
+    'gpt-4o': { contextWindow: 128000, outputReserve: 16384, inputPrice: 2.5, tokenizer: 'o200k_base' },
+    'gpt-4o-mini': { contextWindow: 128000, outputReserve: 16384, inputPrice: 0.15, tokenizer: 'o200k_base' },
+    'gpt-4.1': { contextWindow: 1047576, outputReserve: 32768, inputPrice: 2, tokenizer: 'o200k_base' },
+    'gpt-4.1-mini': { contextWindow: 1047576, outputReserve: 32768, inputPrice: 0.4, tokenizer: 'o200k_base' },
+    'o3': { contextWindow: 200000, outputReserve: 100000, inputPrice: 2, tokenizer: 'o200k_base' },
+    'o4-mini': { contextWindow: 200000, outputReserve: 100000, inputPrice: 1.1, tokenizer: 'o200k_base' },
+    'gpt-4-turbo': { contextWindow: 128000, outputReserve: 4096, inputPrice: 10, tokenizer: 'cl100k_base' },
+    'gpt-4': { contextWindow: 8192, outputReserve: 2048, inputPrice: 30, tokenizer: 'cl100k_base' },
+    'gpt-3.5-turbo': { contextWindow: 16385, outputReserve: 4096, inputPrice: 0.5, tokenizer: 'cl100k_base' },
+    'claude-3-opus': { contextWindow: 200000, outputReserve: 4096, inputPrice: 15, tokenizer: 'claude-approx' },
+    'claude-3-sonnet': { contextWindow: 200000, outputReserve: 4096, inputPrice: 3, tokenizer: 'claude-approx' },
+    'claude-3-haiku': { contextWindow: 200000, outputReserve: 4096, inputPrice: 0.25, tokenizer: 'claude-approx' },
+    'claude-3-5-sonnet': { contextWindow: 200000, outputReserve: 8192, inputPrice: 3, tokenizer: 'claude-approx' },
+    'claude-3-5-haiku': { contextWindow: 200000, outputReserve: 8192, inputPrice: 0.8, tokenizer: 'claude-approx' },
+    'claude-3-7-sonnet': { contextWindow: 200000, outputReserve: 16384, inputPrice: 3, tokenizer: 'claude-approx' },
+    'claude-sonnet-4': { contextWindow: 200000, outputReserve: 16384, inputPrice: 3, tokenizer: 'claude-approx' },
+    'claude-opus-4': { contextWindow: 200000, outputReserve: 16384, inputPrice: 15, tokenizer: 'claude-approx' },
+};
+
+/**
+ * Context window per built-in model
+ * @deprecated Use getModel() for the full entry
+ */
+export const MODEL_LIMITS: Record<string, number> = Object.fromEntries(
+    Object.entries(BUILTIN_MODELS).map(([name, spec]) => [name, spec.contextWindow])
+);
+
+/**
+ * Build the registry from the built-ins plus user entries. A user entry for a built-in
+ * model overrides just the fields it sets; a new model needs at least `contextWindow`.
+ */
+export function createModelRegistry(overrides: ModelOverrides = {}): ModelRegistry {
+    const registry: ModelRegistry = new Map(Object.entries(BUILTIN_MODELS));
+
+    for (const [name, override] of Object.entries(overrides)) {
+        const base = registry.get(name);
+        if (!base && override.contextWindow === undefined) {
+            throw new Error(`Model "${name}" needs a contextWindow`);
+        }
+
+        const contextWindow = override.contextWindow ?? base.contextWindow;
+        registry.set(name, {
+            contextWindow,
+            outputReserve: override.outputReserve ?? base?.outputReserve
+                ?? Math.min(DEFAULT_OUTPUT_RESERVE, Math.floor(contextWindow / 4)),
+            inputPrice: override.inputPrice ?? base?.inputPrice,
+            tokenizer: override.tokenizer ?? base?.tokenizer ?? TOKENIZER_ID,
+        });
+    }
+
+    return registry;
+}
+
+/**
+ * Look up a model: an exact name, then the longest registered name it extends
+ * (e.g., "claude-3-opus-20240229" or "gpt-4o-2024-08-06")
+ */
+export function getModel(name: string, registry: ModelRegistry = createModelRegistry()): ModelInfo {
+    const exact = registry.get(name);
+    if (exact) return { name, ...exact };
+
+    const base = [...registry.keys()]
+        .filter(known => name.startsWith(`${known}-`))
+        .sort((a, b) => b.length - a.length)[0];
+    if (base) return { name, ...registry.get(base)! };
+
+    throw new Error(
+        `Unknown model "${name}" (known: ${[...registry.keys()].join(', ')}); ` +
+        'add it under "models" in your config'
+    );
+}
+
+/**
+ * Load the tokenizer a model counts with
+ */
+export function loadModelTokenizer(model: string | ModelInfo, registry?: ModelRegistry): Promise<Tokenizer> {
+    const info = typeof model === 'string' ? getModel(model, registry) : model;
+    return loadTokenizer(info.tokenizer);
+}
+
+/**
+ * Tokens available for input once the output reserve is set aside
+ */
+export function getInputLimit(model: ModelSpec): number {
+    return model.contextWindow - model.outputReserve;
+}
+
+/**
+ * Check a token count against a model's input limit and full window
+ */
+export function getModelFit(model: ModelSpec, tokens: number): ModelFit {
+    if (tokens > model.contextWindow) return 'over-window';
+    if (tokens > getInputLimit(model)) return 'over-reserve';
+    return 'ok';
+}
+
+/**
+ * Estimated input cost in USD, or undefined when the model has no price
+ */
+export function estimateInputCost(model: ModelSpec, tokens: number): number | undefined {
+    return model.inputPrice === undefined ? undefined : (tokens / 1_000_000) * model.inputPrice;
+}
+
+/**
+ * Format a USD amount, keeping small amounts readable (e.g., "$0.0042", "$1.25")
+ */
+export function formatCost(usd: number): string {
+    return usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+}
@@ -6,8 +6,9 @@ import { writeFile } from 'fs/promises';
 import clipboard from 'clipboardy';
 import pc from 'picocolors';
 import type { Chunk } from './chunker';
-import { format, type FormatOptions } from './formatter';
-import { getChunkHeader } from './chunker';
+import type { FormatOptions } from './formatter';
+import { formatChunk } from './chunker';
+import { buildManifest, formatManifest, type ManifestFormat } from './manifest';
 import { t } from './i18n';
 
 export interface OutputOptions {
@@ -18,6 +19,22 @@ export interface OutputOptions {
 
 export interface ChunkOutputOptions extends OutputOptions {
     formatOptions: FormatOptions;
+    /** Also write a manifest of the chunks, next to them or before them on stdout */
+    manifest?: ManifestFormat;
+}
+
+/**
+ * Numbered file for a chunk: out.md -> out.1.md
+ */
+function getChunkFilename(file: string, index: number): string {
+    return file.replace(/(\.\w+)?$/, `.${index + 1}$1`);
+}
+
+/**
+ * Manifest file next to the chunks: out.md -> out.manifest.md or out.manifest.json
+ */
+function getManifestFilename(file: string, format: ManifestFormat): string {
+    return file.replace(/(\.\w+)?$/, format === 'json' ? '.manifest.json' : '.manifest.md');
 }
 
 /**
@@ -51,11 +68,27 @@ export class OutputController {
     async writeChunks(chunks: Chunk[], options: ChunkOutputOptions): Promise<void> {
         console.log(pc.cyan(`\n${t('cli.split_chunks', chunks.length)}`));
 
+        if (options.manifest) {
+            const manifest = formatManifest(buildManifest(chunks, {
+                symbols: options.formatOptions.symbols,
+                filename: index => options.file ? getChunkFilename(options.file, index) : undefined,
+            }), options.manifest);
+
+            if (options.file) {
+                const filename = getManifestFilename(options.file, options.manifest);
+                await writeFile(filename, manifest, 'utf-8');
+                console.log(pc.green(`  ${t('cli.manifest_written', filename)}`));
+            } else if (!options.silent) {
+                console.log(pc.dim('\n--- Manifest ---'));
+                console.log(manifest);
+            }
+        }
+
         for (const chunk of chunks) {
-            const output = getChunkHeader(chunk) + '\n\n' + format(chunk.files, options.formatOptions);
+            const output = formatChunk(chunk, options.formatOptions);
 
             const filename = options.file
-                ? options.file.replace(/(\.\w+)?$/, `.${chunk.index + 1}$1`)
+                ? getChunkFilename(options.file, chunk.index)
                 : null;
 
             if (filename) {
@@ -69,7 +102,7 @@ export class OutputController {
 
         // Copy first chunk to clipboard if requested
         if (options.clipboard && chunks.length > 0) {
-            const firstOutput = getChunkHeader(chunks[0]) + '\n\n' + format(chunks[0].files, options.formatOptions);
+            const firstOutput = formatChunk(chunks[0], options.formatOptions);
             await clipboard.write(firstOutput);
             console.log(pc.green(`\n${t('cli.first_chunk_copied')}`));
         }
@@ -1,12 +1,14 @@
 /**
  * AST Parser Module
- * Extract code symbols with Regex (Tree-sitter optional)
+ * Extract code symbols with Regex (Tree-sitter optional) for TS/JS, Python, Go, Rust, Java, C and C++
  */
 import { countTokens } from './tokenizer';
-import { getPatternsForLanguage } from './patterns';
+import { getPatternsForLanguage, JAVASCRIPT_IMPORT_PATTERNS } from './patterns';
 
 export type SymbolKind = 'function' | 'class' | 'interface' | 'type' | 'method' | 'variable' | 'export';
 
+export type Visibility = 'public' | 'protected' | 'private';
+
 export interface CodeSymbol {
     name: string;
     kind: SymbolKind;
@@ -15,13 +17,151 @@ export interface CodeSymbol {
     signature: string;
     content: string;
     tokens: number;
+    /** Qualified name of the enclosing class, interface or function, or of a Rust impl's type or Go receiver */
+    parent?: string;
+    /** Names of the symbols declared directly inside this one */
+    children?: string[];
+    /** Part of the module's API: export (TS/JS), pub (Rust), public (Java), capitalized (Go), no leading underscore (Python), not static (C/C++) */
+    exported?: boolean;
+    /** Class members, and everything in Go and Rust; unset for Java's package-private default */
+    visibility?: Visibility;
+    async?: boolean;
+    static?: boolean;
+    /** Leading doc comment or docstring, without its comment markers */
+    doc?: string;
+}
+
+export type ModuleEdgeKind = 'import' | 'export' | 'dynamic' | 'require';
+
+/** One module reference: an import, a re-export, a dynamic import() or a require() */
+export interface ModuleEdge {
+    kind: ModuleEdgeKind;
+    specifier: string;
+    /** "import type" / "export type" */
+    typeOnly: boolean;
+    line: number;
+}
+
+export interface ParseOptions {
+    /** Use Tree-sitter when its grammar for the language loads (default: true) */
+    treeSitter?: boolean;
 }
 
+/** Bump whenever symbol extraction output changes, so cached symbols are invalidated */
+export const PARSER_VERSION = 3;
+
 // Tree-sitter availability flag
 let treeSitterAvailable: boolean | null = null;
 let Parser: any = null;
-let TypeScript: any = null;
-let JavaScript: any = null;
+const grammars = new Map<string, any>();
+
+/** Grammar of each language; a missing package only disables Tree-sitter for its languages */
+const GRAMMAR_LOADERS: Record<string, () => Promise<any>> = {
+    // @ts-ignore - optional dependency
+    typescript: async () => (await import('tree-sitter-typescript')).default.typescript,
+    // @ts-ignore - optional dependency
+    tsx: async () => (await import('tree-sitter-typescript')).default.tsx,
+    // @ts-ignore - optional dependency
+    javascript: async () => (await import('tree-sitter-javascript')).default,
+    // @ts-ignore - optional dependency
+    jsx: async () => (await import('tree-sitter-javascript')).default,
+    // @ts-ignore - optional dependency
+    python: async () => (await import('tree-sitter-python')).default,
+    // @ts-ignore - optional dependency
+    go: async () => (await import('tree-sitter-go')).default,
+    // @ts-ignore - optional dependency
+    rust: async () => (await import('tree-sitter-rust')).default,
+    // @ts-ignore - optional dependency
+    java: async () => (await import('tree-sitter-java')).default,
+    // @ts-ignore - optional dependency
+    c: async () => (await import('tree-sitter-c')).default,
+    // @ts-ignore - optional dependency
+    cpp: async () => (await import('tree-sitter-cpp')).default,
+};
+
+const JAVASCRIPT_NODES: Record<string, SymbolKind> = {
+    function_declaration: 'function',
+    arrow_function: 'function',
+    class_declaration: 'class',
+    abstract_class_declaration: 'class',
+    interface_declaration: 'interface',
+    type_alias_declaration: 'type',
+    method_definition: 'method',
+};
+
+const C_NODES: Record<string, SymbolKind> = {
+    function_definition: 'function',
+    struct_specifier: 'class',
+    enum_specifier: 'type',
+    type_definition: 'type',
+};
+
+/** Tree-sitter node types that declare symbols, by language */
+const SYMBOL_NODE_TYPES: Record<string, Record<string, SymbolKind>> = {
+    typescript: JAVASCRIPT_NODES,
+    tsx: JAVASCRIPT_NODES,
+    javascript: JAVASCRIPT_NODES,
+    jsx: JAVASCRIPT_NODES,
+    python: {
+        function_definition: 'function',
+        class_definition: 'class',
+        type_alias_statement: 'type',
+    },
+    go: {
+        function_declaration: 'function',
+        method_declaration: 'method',
+        type_spec: 'type', // struct and interface types are told apart in treeSitterKind()
+        type_alias: 'type',
+    },
+    rust: {
+        function_item: 'function',
+        function_signature_item: 'method',
+        struct_item: 'class',
+        enum_item: 'class',
+        union_item: 'class',
+        trait_item: 'interface',
+        type_item: 'type',
+    },
+    java: {
+        class_declaration: 'class',
+        record_declaration: 'class',
+        enum_declaration: 'class',
+        interface_declaration: 'interface',
+        annotation_type_declaration: 'interface',
+        method_declaration: 'method',
+        constructor_declaration: 'method',
+    },
+    c: C_NODES,
+    cpp: {
+        ...C_NODES,
+        class_specifier: 'class',
+        alias_declaration: 'type',
+    },
+};
+
+/** Nodes whose functions are methods: Python classes, Rust impls and traits, C++ classes */
+const CONTAINER_NODE_TYPES = new Set(['class_definition', 'impl_item', 'trait_item', 'class_specifier', 'struct_specifier']);
+
+/** C and C++ nodes that only declare something when they have a body */
+const BODY_NODE_TYPES = new Set(['struct_specifier', 'enum_specifier', 'class_specifier']);
+
+/** Languages whose blocks are delimited by indentation */
+const INDENTED_LANGUAGES = ['python'];
+
+/** Symbols whose bodies may declare others */
+const PARENT_KINDS: SymbolKind[] = ['class', 'interface', 'function', 'method'];
+
+/** Line comments that document the declaration below them; JSDoc-style blocks do in every language */
+const LINE_DOC_PREFIXES: Record<string, string> = { rust: '///', go: '//', c: '//', cpp: '//' };
+
+/** Languages whose plain block comments document the declaration below them too */
+const BLOCK_DOC_LANGUAGES = ['go', 'c', 'cpp'];
+
+/** Decorators, annotations and attributes between a doc comment and its declaration */
+const DECORATOR_LINE = /^\s*(?:@[\w.]+|#\[)/;
+
+/** Receiver type of a Go method: func (s *Server[T]) Start() */
+const GO_RECEIVER = /^func\s*\(\s*(?:\w+\s+)?\*?\s*(\w+)/;
 
 /**
  * Try to load Tree-sitter (lazy, once)
@@ -32,10 +172,6 @@ async function tryLoadTreeSitter(): Promise<boolean> {
     try {
         // @ts-ignore - optional dependency
         Parser = (await import('tree-sitter')).default;
-        // @ts-ignore - optional dependency
-        TypeScript = (await import('tree-sitter-typescript')).default;
-        // @ts-ignore - optional dependency
-        JavaScript = (await import('tree-sitter-javascript')).default;
         treeSitterAvailable = true;
     } catch {
         treeSitterAvailable = false;
@@ -43,13 +179,66 @@ async function tryLoadTreeSitter(): Promise<boolean> {
     return treeSitterAvailable;
 }
 
+/**
+ * Tree-sitter grammar for a language (lazy, once); null when Tree-sitter or the grammar is missing
+ */
+async function loadGrammar(language: string): Promise<any> {
+    if (!(await tryLoadTreeSitter()) || !GRAMMAR_LOADERS[language]) return null;
+
+    if (!grammars.has(language)) {
+        try {
+            grammars.set(language, await GRAMMAR_LOADERS[language]());
+        } catch {
+            grammars.set(language, null);
+        }
+    }
+    return grammars.get(language);
+}
+
+/**
+ * Tree-sitter syntax tree of a file; null when Tree-sitter or the language's grammar is missing
+ */
+export async function parseTree(content: string, language: string): Promise<any> {
+    const grammar = await loadGrammar(language);
+    if (!grammar) return null;
+
+    const parser = new Parser();
+    parser.setLanguage(grammar);
+    return parser.parse(content);
+}
+
+/**
+ * Whether symbols can be extracted from a language
+ */
+export function isSymbolLanguage(language: string): boolean {
+    return getPatternsForLanguage(language).length > 0;
+}
+
+/**
+ * Identify the active parser (version and backend), used as a cache key
+ */
+export async function getParserId(): Promise<string> {
+    const backend = (await tryLoadTreeSitter()) ? 'tree-sitter' : 'regex';
+    return `${PARSER_VERSION}:${backend}`;
+}
+
 /**
  * Extract signature from content
  */
-function extractSignature(content: string): string {
+function extractSignature(content: string, language: string): string {
     const lines = content.split('\n');
     const firstLine = lines[0];
 
+    // Python headers end with a colon rather than a brace
+    if (INDENTED_LANGUAGES.includes(language)) {
+        let header = '';
+        for (const line of lines) {
+            header += line.trim() + ' ';
+            if (line.trimEnd().endsWith(':')) break;
+        }
+        return header.trim().replace(/:$/, '');
+    }
+
     const braceIndex = firstLine.indexOf('{');
     if (braceIndex > 0) {
         return firstLine.substring(0, braceIndex).trim();
@@ -64,52 +253,261 @@ function extractSignature(content: string): string {
     return sig.replace(/\s*\{.*$/, '').replace(/\s*=>.*$/, ' =>').trim();
 }
 
+/**
+ * Name of a symbol with its parents', e.g. "OutputController.writeChunks"
+ */
+export function getQualifiedName(symbol: CodeSymbol): string {
+    return symbol.parent ? `${symbol.parent}.${symbol.name}` : symbol.name;
+}
+
+/**
+ * Text of a doc comment without its markers and common indentation; undefined when empty
+ */
+function cleanDoc(lines: string[]): string | undefined {
+    const text = lines.map(line => line.trimEnd());
+    const indents = text.filter(line => line.trim()).map(line => line.search(/\S/));
+    const indent = indents.length > 0 ? Math.min(...indents) : 0;
+    const cleaned = text.map(line => line.slice(indent));
+
+    while (cleaned.length > 0 && !cleaned[0].trim()) cleaned.shift();
+    while (cleaned.length > 0 && !cleaned[cleaned.length - 1].trim()) cleaned.pop();
+    return cleaned.length > 0 ? cleaned.join('\n') : undefined;
+}
+
+/**
+ * Docstring opening a Python function or class body
+ */
+function findDocstring(lines: string[], symbol: CodeSymbol): string | undefined {
+    // The body starts after the header's closing colon
+    let i = symbol.startLine - 1;
+    while (i < symbol.endLine - 1 && !lines[i].trimEnd().endsWith(':')) i++;
+    i++;
+    while (i < symbol.endLine && !lines[i].trim()) i++;
+    if (i >= symbol.endLine) return undefined;
+
+    const opening = lines[i].trim().match(/^[rRuU]?("""|''')/);
+    if (!opening) return undefined;
+
+    const quote = opening[1];
+    const first = lines[i].trim().slice(opening[0].length);
+    const body = [first];
+    if (!first.includes(quote)) {
+        for (i++; i < symbol.endLine; i++) {
+            body.push(lines[i]);
+            if (lines[i].includes(quote)) break;
+        }
+    }
+    body[body.length - 1] = body[body.length - 1].slice(0, body[body.length - 1].indexOf(quote));
+
+    // Only lines after the first are indented (PEP 257)
+    const [head, ...rest] = body;
+    const indents = rest.filter(line => line.trim()).map(line => line.search(/\S/));
+    const indent = indents.length > 0 ? Math.min(...indents) : 0;
+    return cleanDoc([head.trim(), ...rest.map(line => line.slice(indent))]);
+}
+
+/**
+ * Doc comment (or Python docstring) and decorators of a symbol
+ */
+function findDoc(lines: string[], symbol: CodeSymbol, language: string): { doc?: string; decorators: string[] } {
+    const decorators: string[] = [];
+    let i = symbol.startLine - 2;
+    while (i >= 0 && DECORATOR_LINE.test(lines[i])) decorators.unshift(lines[i--].trim());
+
+    if (INDENTED_LANGUAGES.includes(language)) {
+        return { doc: findDocstring(lines, symbol), decorators };
+    }
+    if (i < 0) return { decorators };
+
+    if (lines[i].trimEnd().endsWith('*/')) {
+        let start = i;
+        while (start > 0 && !lines[start].includes('/*')) start--;
+        const block = lines.slice(start, i + 1).join('\n').trim();
+        if (!block.startsWith('/**') && !(block.startsWith('/*') && BLOCK_DOC_LANGUAGES.includes(language))) {
+            return { decorators };
+        }
+        const body = block.replace(/^\/\*+!?/, '').replace(/\*+\/$/, '').split('\n');
+        return { doc: cleanDoc(body.map(line => line.replace(/^\s*\*(?!\/)\s?/, ' '))), decorators };
+    }
+
+    const prefix = LINE_DOC_PREFIXES[language];
+    const body: string[] = [];
+    while (prefix && i >= 0 && lines[i].trim().startsWith(prefix)) {
+        body.unshift(lines[i--].trim().slice(prefix.length).replace(/^[/!]/, ''));
+    }
+    return { doc: cleanDoc(body), decorators };
+}
+
+/**
+ * Access of a C++ class member: the last access specifier above it, or the class's default
+ */
+function getCppAccess(lines: string[], symbol: CodeSymbol, parent: CodeSymbol): Visibility {
+    for (let i = symbol.startLine - 2; i >= parent.startLine; i--) {
+        const specifier = lines[i].match(/^\s*(public|protected|private)\s*:(?!:)/);
+        if (specifier) return specifier[1] as Visibility;
+    }
+    return /^(?:template\s*<[^>]*>\s*)?struct\b/.test(parent.signature) ? 'public' : 'private';
+}
+
+/**
+ * Visibility, export, modifiers and documentation of a symbol, read from its signature and the
+ * lines around it
+ */
+function describeSymbol(symbol: CodeSymbol, parent: CodeSymbol | undefined, lines: string[], language: string): Partial<CodeSymbol> {
+    const { name, signature } = symbol;
+    const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const at = signature.search(new RegExp(`(?<![\\w$#])${escaped}(?![\\w$])`));
+    const modifiers = at > 0 ? signature.slice(0, at) : '';
+    const { doc, decorators } = findDoc(lines, symbol, language);
+
+    const member = parent?.kind === 'class' || parent?.kind === 'interface';
+    const inFunction = parent?.kind === 'function' || parent?.kind === 'method';
+    const keyword = modifiers.match(/\b(public|protected|private)\b/)?.[1] as Visibility | undefined;
+    let visibility: Visibility | undefined;
+    let exported: boolean;
+    let isStatic = /\bstatic\b/.test(modifiers);
+
+    switch (language) {
+        case 'python':
+            if (member) visibility = /^__.*__$/.test(name) ? 'public' : name.startsWith('__') ? 'private' : name.startsWith('_') ? 'protected' : 'public';
+            exported = !name.startsWith('_') || /^__.*__$/.test(name);
+            isStatic = decorators.some(decorator => /^@staticmethod\b/.test(decorator));
+            break;
+        case 'go':
+            visibility = /^[A-Z]/.test(name) ? 'public' : 'private';
+            exported = visibility === 'public';
+            break;
+        case 'rust':
+            visibility = /\bpub\b/.test(modifiers) || parent?.kind === 'interface' ? 'public' : 'private';
+            exported = visibility === 'public';
+            // Associated functions of impls and traits take no self
+            isStatic = symbol.parent !== undefined && !inFunction
+                && (symbol.kind === 'function' || symbol.kind === 'method')
+                && !/\bself\b/.test(signature.slice(at + name.length));
+            break;
+        case 'java':
+            visibility = keyword ?? (parent?.kind === 'interface' ? 'public' : undefined);
+            exported = visibility === 'public';
+            break;
+        case 'c':
+        case 'cpp':
+            if (member && language === 'cpp') visibility = getCppAccess(lines, symbol, parent!);
+            exported = member ? visibility === 'public' : !isStatic;
+            break;
+        default:
+            if (member) visibility = name.startsWith('#') ? 'private' : keyword ?? 'public';
+            exported = member ? visibility === 'public' : /^export\b/.test(signature);
+    }
+
+    // Nothing inside a function, or inside an unexported class, is reachable from outside
+    if (inFunction || parent?.exported === false) exported = false;
+
+    return {
+        exported,
+        ...(visibility ? { visibility } : {}),
+        ...(/\basync\b/.test(modifiers) || /^[^(]*=\s*async\b/.test(signature) ? { async: true } : {}),
+        ...(isStatic ? { static: true } : {}),
+        ...(doc ? { doc } : {}),
+    };
+}
+
+/**
+ * Link symbols (in source order, parents before children) to their parents and children, and
+ * describe each one
+ */
+function linkSymbols(symbols: CodeSymbol[], lines: string[], language: string): CodeSymbol[] {
+    const open: CodeSymbol[] = [];
+    const byName = new Map<string, CodeSymbol>();
+
+    for (const symbol of symbols) {
+        while (open.length > 0) {
+            const top = open[open.length - 1];
+            if (top.startLine <= symbol.startLine && top.endLine >= symbol.endLine) break;
+            open.pop();
+        }
+
+        // Lexical nesting first; Rust impls (set while parsing) and Go receivers otherwise
+        const enclosing = open[open.length - 1];
+        if (enclosing) symbol.parent = getQualifiedName(enclosing);
+        else if (language === 'go' && symbol.kind === 'method') symbol.parent = symbol.signature.match(GO_RECEIVER)?.[1];
+        if (symbol.parent === undefined) delete symbol.parent;
+
+        Object.assign(symbol, describeSymbol(symbol, enclosing, lines, language));
+        if (!byName.has(getQualifiedName(symbol))) byName.set(getQualifiedName(symbol), symbol);
+        if (PARENT_KINDS.includes(symbol.kind)) open.push(symbol);
+    }
+
+    // Go methods may come before their type
+    for (const symbol of symbols) {
+        const parent = symbol.parent ? byName.get(symbol.parent) : undefined;
+        if (parent) (parent.children ??= []).push(symbol.name);
+    }
+
+    return symbols;
+}
+
+/**
+ * Name of a Tree-sitter declaration node
+ */
+function treeSitterName(node: any): string | null {
+    if (node.type === 'arrow_function') {
+        return node.parent?.type === 'variable_declarator' ? node.parent.childForFieldName('name')?.text ?? null : null;
+    }
+    if (node.type === 'type_alias_statement') {
+        return node.childForFieldName('left')?.text.split('[')[0] ?? null;
+    }
+
+    const name = node.childForFieldName('name');
+    if (name) return name.text;
+
+    // C and C++ name functions and typedefs through nested declarators: int (*foo)(void)
+    let declarator = node.childForFieldName('declarator');
+    while (declarator) {
+        const next = declarator.childForFieldName('declarator')
+            ?? (declarator.type === 'reference_declarator' ? declarator.namedChildren[0] : null);
+        if (!next) break;
+        declarator = next;
+    }
+    return declarator?.text ?? null;
+}
+
+/**
+ * Symbol kind of a Tree-sitter node, or null when it declares none
+ */
+function treeSitterKind(node: any, language: string): SymbolKind | null {
+    const kind = SYMBOL_NODE_TYPES[language]?.[node.type];
+    if (!kind) return null;
+
+    // A struct or enum without a body is only a use of it
+    if (BODY_NODE_TYPES.has(node.type) && !node.childForFieldName('body')) return null;
+
+    // Go declares structs and interfaces as named types
+    if (node.type === 'type_spec') {
+        const type = node.childForFieldName('type')?.type;
+        return type === 'struct_type' ? 'class' : type === 'interface_type' ? 'interface' : 'type';
+    }
+    return kind;
+}
+
 /**
  * Parse with Tree-sitter
  */
-function parseWithTreeSitter(content: string, language: string): CodeSymbol[] {
+function parseWithTreeSitter(content: string, language: string, grammar: any): CodeSymbol[] {
     const parser = new Parser();
-    const isTS = ['typescript', 'tsx'].includes(language);
-    parser.setLanguage(isTS ? TypeScript.typescript : JavaScript);
+    parser.setLanguage(grammar);
 
     const tree = parser.parse(content);
     const symbols: CodeSymbol[] = [];
     const lines = content.split('\n');
 
-    function visit(node: any) {
-        let kind: SymbolKind | null = null;
-        let name: string | null = null;
-
-        switch (node.type) {
-            case 'function_declaration':
-                kind = 'function';
-                name = node.childForFieldName('name')?.text || null;
-                break;
-            case 'arrow_function':
-                if (node.parent?.type === 'variable_declarator') {
-                    kind = 'function';
-                    name = node.parent.childForFieldName('name')?.text || null;
-                }
-                break;
-            case 'class_declaration':
-                kind = 'class';
-                name = node.childForFieldName('name')?.text || null;
-                break;
-            case 'interface_declaration':
-                kind = 'interface';
-                name = node.childForFieldName('name')?.text || null;
-                break;
-            case 'type_alias_declaration':
-                kind = 'type';
-                name = node.childForFieldName('name')?.text || null;
-                break;
-            case 'method_definition':
-                kind = 'method';
-                name = node.childForFieldName('name')?.text || null;
-                break;
-        }
+    function visit(node: any, inContainer: boolean, owner?: string) {
+        let kind = treeSitterKind(node, language);
+        const name = kind ? treeSitterName(node) : null;
 
         if (kind && name) {
+            // Functions inside classes, impls and traits are methods, as are C++ Widget::size() definitions
+            if (kind === 'function' && (inContainer || name.includes('::'))) kind = 'method';
+
             const startLine = node.startPosition.row + 1;
             const endLine = node.endPosition.row + 1;
             const blockContent = lines.slice(startLine - 1, endLine).join('\n');
@@ -119,21 +517,68 @@ function parseWithTreeSitter(content: string, language: string): CodeSymbol[] {
                 kind,
                 startLine,
                 endLine,
-                signature: extractSignature(blockContent),
+                signature: extractSignature(blockContent, language),
                 content: blockContent,
                 tokens: countTokens(blockContent).tokens,
+                ...(owner ? { parent: owner } : {}),
             });
         }
 
+        // Functions nested in functions stay functions
+        const childInContainer = CONTAINER_NODE_TYPES.has(node.type) || (inContainer && kind !== 'function' && kind !== 'method');
+        // Members of a Rust impl belong to its type: impl<T> Display for Point<T>
+        const childOwner = node.type === 'impl_item'
+            ? node.childForFieldName('type')?.text.replace(/<.*$/s, '')
+            : kind && name ? undefined : owner;
         for (const child of node.children) {
-            visit(child);
+            visit(child, childInContainer, childOwner);
         }
     }
 
-    visit(tree.rootNode);
+    visit(tree.rootNode, false);
     return symbols;
 }
 
+/**
+ * Last line (0-based) of the block a symbol opens at `start`: by braces, by indentation for
+ * Python, and at the end of the line for Go declarations without a body
+ */
+function findBlockEnd(lines: string[], start: number, language: string): number {
+    if (INDENTED_LANGUAGES.includes(language)) {
+        // The header runs on while its parentheses are open: def load(\n    self,\n):
+        let header = start;
+        let depth = 0;
+        for (; header < lines.length - 1; header++) {
+            depth += (lines[header].match(/[([{]/g) ?? []).length - (lines[header].match(/[)\]}]/g) ?? []).length;
+            if (depth <= 0) break;
+        }
+
+        const indent = lines[start].search(/\S/);
+        let end = header;
+        for (let j = header + 1; j < lines.length; j++) {
+            if (!lines[j].trim()) continue;
+            if (lines[j].search(/\S/) <= indent) break;
+            end = j;
+        }
+        return end;
+    }
+
+    let braceCount = 0;
+    let started = false;
+
+    for (let j = start; j < lines.length; j++) {
+        for (const char of lines[j]) {
+            if (char === '{') { braceCount++; started = true; }
+            if (char === '}') braceCount--;
+        }
+        if (started && braceCount === 0) return j;
+        if (!started && lines[j].includes(';')) return j;
+        if (!started && language === 'go' && !/[(,]\s*$/.test(lines[j])) return j;
+    }
+
+    return start;
+}
+
 /**
  * Parse with Regex (fallback)
  */
@@ -144,37 +589,33 @@ function parseWithRegex(content: string, language: string): CodeSymbol[] {
     const symbols: CodeSymbol[] = [];
     const lines = content.split('\n');
     const processedLines = new Set<number>();
+    // Bodies of classes and traits are searched too, for their methods
+    const containers: Array<{ start: number; end: number }> = [];
 
     for (let i = 0; i < lines.length; i++) {
         if (processedLines.has(i)) continue;
         const line = lines[i].trim();
         if (!line || line.startsWith('//')) continue;
 
-        for (const { regex, kind } of patterns) {
+        for (const { regex, kind, nested } of patterns) {
             const match = line.match(regex);
             if (match) {
-                let endLine = i;
-                let braceCount = 0;
-                let started = false;
-
-                for (let j = i; j < lines.length; j++) {
-                    for (const char of lines[j]) {
-                        if (char === '{') { braceCount++; started = true; }
-                        if (char === '}') braceCount--;
-                    }
-                    if (started && braceCount === 0) { endLine = j; break; }
-                    if (!started && lines[j].includes(';')) { endLine = j; break; }
-                }
-
+                const endLine = findBlockEnd(lines, i, language);
                 const blockContent = lines.slice(i, endLine + 1).join('\n');
-                for (let k = i; k <= endLine; k++) processedLines.add(k);
 
+                if (nested) {
+                    containers.push({ start: i, end: endLine });
+                } else {
+                    for (let k = i; k <= endLine; k++) processedLines.add(k);
+                }
+
+                const inContainer = containers.some(c => c.start < i && i <= c.end);
                 symbols.push({
                     name: match[1],
-                    kind,
+                    kind: kind === 'function' && (inContainer || match[1].includes('::')) ? 'method' : kind,
                     startLine: i + 1,
                     endLine: endLine + 1,
-                    signature: extractSignature(blockContent),
+                    signature: extractSignature(blockContent, language),
                     content: blockContent,
                     tokens: countTokens(blockContent).tokens,
                 });
@@ -187,25 +628,120 @@ function parseWithRegex(content: string, language: string): CodeSymbol[] {
 }
 
 /**
- * Parse code and extract symbols
+ * Module edges with Tree-sitter
+ */
+function parseEdgesWithTreeSitter(content: string, grammar: any): ModuleEdge[] {
+    const parser = new Parser();
+    parser.setLanguage(grammar);
+
+    const tree = parser.parse(content);
+    const edges: ModuleEdge[] = [];
+    const unquote = (node: any) => node?.type === 'string' ? node.text.slice(1, -1) : null;
+
+    function visit(node: any) {
+        let kind: ModuleEdgeKind | null = null;
+        let specifier: string | null = null;
+
+        switch (node.type) {
+            case 'import_statement':
+                kind = 'import';
+                specifier = unquote(node.childForFieldName('source'));
+                break;
+            case 'export_statement':
+                kind = 'export';
+                specifier = unquote(node.childForFieldName('source'));
+                break;
+            case 'call_expression': {
+                const fn = node.childForFieldName('function');
+                if (fn?.type === 'import') kind = 'dynamic';
+                else if (fn?.type === 'identifier' && fn.text === 'require') kind = 'require';
+                specifier = unquote(node.childForFieldName('arguments')?.namedChildren[0]);
+                break;
+            }
+        }
+
+        if (kind && specifier !== null) {
+            edges.push({
+                kind,
+                specifier,
+                typeOnly: node.children.some((child: any) => child.type === 'type'),
+                line: node.startPosition.row + 1,
+            });
+        }
+
+        for (const child of node.children) {
+            visit(child);
+        }
+    }
+
+    visit(tree.rootNode);
+    return edges;
+}
+
+/**
+ * Module edges with Regex (fallback); JAVASCRIPT_IMPORT_PATTERNS are listed in ModuleEdgeKind order
  */
-export async function parseSymbols(content: string, language: string): Promise<CodeSymbol[]> {
+function parseEdgesWithRegex(content: string): ModuleEdge[] {
+    const kinds: ModuleEdgeKind[] = ['import', 'export', 'dynamic', 'require'];
+    const edges: ModuleEdge[] = [];
+
+    JAVASCRIPT_IMPORT_PATTERNS.forEach((pattern, i) => {
+        for (const match of content.matchAll(pattern)) {
+            edges.push({
+                kind: kinds[i],
+                specifier: match[1],
+                typeOnly: /^(?:import|export)\s+type\s/.test(match[0]),
+                line: content.slice(0, match.index).split('\n').length,
+            });
+        }
+    });
+
+    return edges.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Parse the imports, re-exports, dynamic imports and requires of a TS/JS file
+ */
+export async function parseModuleEdges(content: string, language: string): Promise<ModuleEdge[]> {
     if (!['typescript', 'javascript', 'tsx', 'jsx'].includes(language)) {
         return [];
     }
 
+    const grammar = await loadGrammar(language);
+    if (grammar) {
+        try {
+            return parseEdgesWithTreeSitter(content, grammar);
+        } catch {
+            // Fallback to regex
+        }
+    }
+
+    return parseEdgesWithRegex(content);
+}
+
+/**
+ * Parse code and extract symbols, in source order and linked to their parents
+ */
+export async function parseSymbols(content: string, language: string, options: ParseOptions = {}): Promise<CodeSymbol[]> {
+    const { treeSitter = true } = options;
+    if (!isSymbolLanguage(language)) {
+        return [];
+    }
+
+    const lines = content.split('\n');
+
     // Try Tree-sitter first
-    const hasTreeSitter = await tryLoadTreeSitter();
+    const grammar = treeSitter ? await loadGrammar(language) : null;
 
-    if (hasTreeSitter) {
+    if (grammar) {
         try {
-            return parseWithTreeSitter(content, language);
+            return linkSymbols(parseWithTreeSitter(content, language, grammar), lines, language);
         } catch {
             // Fallback to regex
         }
     }
 
-    return parseWithRegex(content, language);
+    return linkSymbols(parseWithRegex(content, language), lines, language);
 }
 
 /**
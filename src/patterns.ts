@@ -7,6 +7,8 @@ import type { SymbolKind } from './parser';
 export interface PatternConfig {
     regex: RegExp;
     kind: SymbolKind;
+    /** The symbol's body may declare others (methods); functions found inside it are methods */
+    nested?: boolean;
 }
 
 /**
@@ -40,6 +42,130 @@ export const JAVASCRIPT_PATTERNS: PatternConfig[] = [
     },
 ];
 
+/**
+ * Python patterns for symbol extraction
+ */
+export const PYTHON_PATTERNS: PatternConfig[] = [
+    // def foo(), async def bar()
+    { regex: /^(?:async\s+)?def\s+(\w+)/, kind: 'function' },
+    // class Foo:, class Bar(Base):
+    { regex: /^class\s+(\w+)/, kind: 'class', nested: true },
+    // type Vector = list[float] (3.12)
+    { regex: /^type\s+(\w+)\s*(?:\[[^\]]*\])?\s*=/, kind: 'type' },
+];
+
+/**
+ * Go patterns for symbol extraction
+ */
+export const GO_PATTERNS: PatternConfig[] = [
+    // func (s *Server) Start()
+    { regex: /^func\s+\([^)]*\)\s*(\w+)/, kind: 'method' },
+    // func main()
+    { regex: /^func\s+(\w+)/, kind: 'function' },
+    // type Server struct {}
+    { regex: /^type\s+(\w+)(?:\[[^\]]*\])?\s+struct\b/, kind: 'class' },
+    // type Store interface {}
+    { regex: /^type\s+(\w+)(?:\[[^\]]*\])?\s+interface\b/, kind: 'interface' },
+    // type ID string, type Alias = Other
+    { regex: /^type\s+(\w+)\b/, kind: 'type' },
+];
+
+/** Rust visibility: pub, pub(crate), pub(super) */
+const RUST_VISIBILITY = String.raw`(?:pub(?:\([^)]*\))?\s+)?`;
+
+/**
+ * Rust patterns for symbol extraction
+ */
+export const RUST_PATTERNS: PatternConfig[] = [
+    // fn foo(), pub async fn bar(), pub(crate) unsafe extern "C" fn baz()
+    { regex: new RegExp(String.raw`^${RUST_VISIBILITY}(?:const\s+)?(?:async\s+)?(?:unsafe\s+)?(?:extern\s+"[^"]*"\s+)?fn\s+(\w+)`), kind: 'function' },
+    // struct Point {}, enum Shape {}
+    { regex: new RegExp(String.raw`^${RUST_VISIBILITY}(?:struct|enum|union)\s+(\w+)`), kind: 'class' },
+    // trait Draw {}
+    { regex: new RegExp(String.raw`^${RUST_VISIBILITY}(?:unsafe\s+)?trait\s+(\w+)`), kind: 'interface', nested: true },
+    // type Result<T> = ...
+    { regex: new RegExp(String.raw`^${RUST_VISIBILITY}type\s+(\w+)`), kind: 'type' },
+];
+
+/** Java modifiers before a declaration */
+const JAVA_MODIFIERS = String.raw`(?:(?:public|protected|private|abstract|static|final|sealed|non-sealed|strictfp|synchronized|native|default)\s+)*`;
+
+/**
+ * Java patterns for symbol extraction
+ */
+export const JAVA_PATTERNS: PatternConfig[] = [
+    // class Foo {}, record Point(int x, int y) {}, enum Color {}
+    { regex: new RegExp(String.raw`^${JAVA_MODIFIERS}(?:class|record|enum)\s+(\w+)`), kind: 'class', nested: true },
+    // interface Repository {}, @interface Audited {}
+    { regex: new RegExp(String.raw`^${JAVA_MODIFIERS}@?interface\s+(\w+)`), kind: 'interface', nested: true },
+    // public static <T> List<T> copy(...), constructors: public Foo(...)
+    {
+        regex: new RegExp(String.raw`^${JAVA_MODIFIERS}(?:<[^>]+>\s+)?(?:[\w.$]+(?:<[^;{}()]*>)?(?:\[\])*\s+)?(?!(?:return|new|throw|if|for|while|switch|catch|else|do|try)\b)(\w+)\s*\(`),
+        kind: 'method',
+    },
+];
+
+/**
+ * C patterns for symbol extraction
+ */
+export const C_PATTERNS: PatternConfig[] = [
+    // int main(int argc, char **argv), static void *alloc(size_t n) (definitions, not prototypes)
+    { regex: /^(?:[\w*]+\s+)+\**(?!(?:if|for|while|switch|return|sizeof|else)\b)(\w+)\s*\([^;]*$/, kind: 'function' },
+    // struct point {}
+    { regex: /^(?:typedef\s+)?struct\s+(\w+)\s*(?:\{|$)/, kind: 'class' },
+    // enum color {}
+    { regex: /^(?:typedef\s+)?enum\s+(\w+)\s*(?:\{|$)/, kind: 'type' },
+    // typedef unsigned long size_t;
+    { regex: /^typedef\s+.*?(\w+)\s*;$/, kind: 'type' },
+];
+
+/**
+ * C++ patterns for symbol extraction
+ */
+export const CPP_PATTERNS: PatternConfig[] = [
+    // int Widget::size() const, template <typename T> T max(T a, T b)
+    { regex: /^(?:template\s*<[^>]*>\s*)?(?:[\w*&:<>,]+\s+)+[*&]*(?!(?:if|for|while|switch|return|sizeof|else|new|delete)\b)((?:\w+::)*~?\w+)\s*\([^;]*$/, kind: 'function' },
+    // class Widget : public Base {}, struct Point {}
+    { regex: /^(?:template\s*<[^>]*>\s*)?(?:class|struct)\s+(\w+)(?:\s+final)?\s*(?::[^{;]*)?\s*(?:\{|$)/, kind: 'class', nested: true },
+    // enum class Color {}
+    { regex: /^enum\s+(?:class\s+|struct\s+)?(\w+)[^;]*(?:\{|$)/, kind: 'type' },
+    // using Callback = std::function<void()>;
+    { regex: /^(?:template\s*<[^>]*>\s*)?using\s+(\w+)\s*=/, kind: 'type' },
+    // typedef std::map<int, int> Table;
+    { regex: /^typedef\s+.*?(\w+)\s*;$/, kind: 'type' },
+];
+
+/**
+ * JavaScript/TypeScript module specifier patterns (capture group 1 is the specifier).
+ * Order matters: static imports, re-exports, dynamic imports, requires (see parseModuleEdges).
+ */
+export const JAVASCRIPT_IMPORT_PATTERNS: RegExp[] = [
+    // import x from 'a', import { y } from 'a', import 'a'
+    /\bimport\s+(?:type\s+)?(?:[\w*{}\s,$]+?\s+from\s+)?['"]([^'"]+)['"]/g,
+    // export * from 'a', export { y } from 'a'
+    /\bexport\s+(?:type\s+)?(?:\*(?:\s+as\s+\w+)?|\{[^}]*\})\s+from\s+['"]([^'"]+)['"]/g,
+    // Dynamic import('a')
+    /\bimport\s*\(\s*['"]([^'"]+)['"]\s*\)/g,
+    // CommonJS require('a')
+    /\brequire\s*\(\s*['"]([^'"]+)['"]\s*\)/g,
+];
+
+/**
+ * Whole import statements by language, repeated at the top of each part of a split file
+ */
+export const IMPORT_STATEMENT_PATTERNS: Record<string, RegExp> = {
+    typescript: /^import\s[\s\S]*?['"][^'"\n]+['"];?[ \t]*$/gm,
+    javascript: /^import\s[\s\S]*?['"][^'"\n]+['"];?[ \t]*$/gm,
+    tsx: /^import\s[\s\S]*?['"][^'"\n]+['"];?[ \t]*$/gm,
+    jsx: /^import\s[\s\S]*?['"][^'"\n]+['"];?[ \t]*$/gm,
+    python: /^(?:from\s+\S+\s+)?import\s+(?:\([^)]*\)|.*)$/gm,
+    go: /^import\s+(?:\([^)]*\)|.*)$/gm,
+    rust: /^use\s+[^;]+;/gm,
+    java: /^import\s+[^;]+;/gm,
+    c: /^#include\s+.*$/gm,
+    cpp: /^#include\s+.*$/gm,
+};
+
 /**
  * Language to pattern mapping
  * Allows easy extension for new languages
@@ -49,6 +175,12 @@ export const LANGUAGE_PATTERNS: Record<string, PatternConfig[]> = {
     javascript: JAVASCRIPT_PATTERNS,
     tsx: JAVASCRIPT_PATTERNS,
     jsx: JAVASCRIPT_PATTERNS,
+    python: PYTHON_PATTERNS,
+    go: GO_PATTERNS,
+    rust: RUST_PATTERNS,
+    java: JAVA_PATTERNS,
+    c: C_PATTERNS,
+    cpp: CPP_PATTERNS,
 };
 
 /**
@@ -0,0 +1,140 @@
+/**
+ * Worker Pool Module
+ * Bounded-concurrency mapping and an off-thread tokenizer pool for the scanner
+ */
+import { availableParallelism } from 'os';
+import { TOKENIZER_ID, type TokenInfo } from './tokenizer';
+
+interface PendingTask {
+    resolve: (tokenInfo: TokenInfo) => void;
+    reject: (error: Error) => void;
+}
+
+/**
+ * Map items through an async function with at most `limit` calls in flight.
+ * Results keep the input order.
+ */
+export async function mapConcurrent<T, R>(
+    items: T[],
+    limit: number,
+    fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let next = 0;
+
+    async function runWorker(): Promise<void> {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await fn(items[index], index);
+        }
+    }
+
+    const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, runWorker);
+    await Promise.all(workers);
+    return results;
+}
+
+/**
+ * Default number of tokenizer workers: one per spare core, capped at 4
+ */
+export function getDefaultWorkerCount(): number {
+    return Math.min(4, availableParallelism() - 1);
+}
+
+/**
+ * Resolve the worker entry next to this module (source .ts or built .js)
+ */
+function getWorkerUrl(): URL {
+    const extension = import.meta.url.endsWith('.ts') ? '.ts' : '.js';
+    return new URL(`./tokenize-worker${extension}`, import.meta.url);
+}
+
+/**
+ * Pool of workers running countTokens off the main thread, all using one tokenizer.
+ * Tasks are dispatched round-robin; each worker processes its queue in order.
+ */
+export class TokenizerPool {
+    private readonly workers: Worker[] = [];
+    private readonly pending = new Map<number, PendingTask>();
+    private nextId = 0;
+    private cursor = 0;
+
+    constructor(size: number, private readonly tokenizer: string = TOKENIZER_ID) {
+        const url = getWorkerUrl();
+
+        for (let i = 0; i < size; i++) {
+            const worker = new Worker(url.href);
+            worker.onmessage = (event: MessageEvent<{ id: number; tokenInfo?: TokenInfo; error?: string }>) => {
+                const { id, tokenInfo, error } = event.data;
+                const task = this.pending.get(id);
+                if (!task) return;
+
+                this.pending.delete(id);
+                if (tokenInfo) task.resolve(tokenInfo);
+                else task.reject(new Error(error ?? 'Tokenizer worker failed'));
+            };
+            worker.onerror = (event: ErrorEvent) => {
+                // A crashed worker answers nothing more: take it out of the rotation
+                this.remove(worker);
+                this.failAll(new Error(`Tokenizer worker crashed: ${event.message}`));
+            };
+            this.workers.push(worker);
+        }
+    }
+
+    /**
+     * Count tokens for content on the next worker
+     */
+    count(content: string): Promise<TokenInfo> {
+        if (this.workers.length === 0) {
+            return Promise.reject(new Error('Tokenizer pool has no workers left'));
+        }
+
+        const id = this.nextId++;
+        this.cursor %= this.workers.length;
+        const worker = this.workers[this.cursor];
+        this.cursor = (this.cursor + 1) % this.workers.length;
+
+        return new Promise((resolve, reject) => {
+            this.pending.set(id, { resolve, reject });
+            worker.postMessage({ id, content, tokenizer: this.tokenizer });
+        });
+    }
+
+    /**
+     * Stop all workers; outstanding tasks are rejected
+     */
+    terminate(): void {
+        for (const worker of this.workers) {
+            worker.terminate();
+        }
+        this.failAll(new Error('Tokenizer pool terminated'));
+    }
+
+    private remove(worker: Worker): void {
+        const index = this.workers.indexOf(worker);
+        if (index < 0) return;
+        this.workers.splice(index, 1);
+        worker.terminate();
+    }
+
+    private failAll(error: Error): void {
+        for (const task of this.pending.values()) {
+            task.reject(error);
+        }
+        this.pending.clear();
+    }
+}
+
+/**
+ * Create a tokenizer pool, or null when workers are disabled or unavailable
+ */
+export function createTokenizerPool(size: number, tokenizer?: string): TokenizerPool | null {
+    if (size < 1) return null;
+
+    try {
+        return new TokenizerPool(size, tokenizer);
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,111 @@
+/**
+ * Priority Rules Module
+ * Ordered glob rules that weight files for the budget and cap the tokens they may take
+ */
+import { Glob } from 'bun';
+import { parseBudget } from './tokenizer';
+
+export interface PriorityRule {
+    pattern: string;
+    /** Higher goes first; negative goes after files no rule matches (default: 1) */
+    weight: number;
+    /** Most tokens the files matched by this rule may take together; 0 leaves them out */
+    maxTokens?: number;
+}
+
+/** Returns the first rule matching a path */
+export type RuleMatcher = (path: string) => PriorityRule | undefined;
+
+const GLOB_CHARS = /[*?[{]/;
+
+/** "pattern", "pattern=weight", "pattern:max=tokens" or "pattern=weight:max=tokens" */
+const RULE_SYNTAX = /^(.+?)(?:=(-?\d+(?:\.\d+)?))?(?::max=([^:=]+))?$/;
+
+/**
+ * Parse one rule, e.g. "src/core/**=10", "vendor=-5" or "docs/**:max=4k"
+ */
+export function parsePriorityRule(spec: string): PriorityRule {
+    const match = spec.trim().match(RULE_SYNTAX);
+    if (!match || match[1].includes('=')) {
+        throw new Error(`Invalid priority rule "${spec}" (expected glob, glob=weight or glob:max=tokens)`);
+    }
+
+    const rule: PriorityRule = { pattern: match[1].replace(/\\/g, '/').replace(/^\.\//, ''), weight: 1 };
+    if (match[2] !== undefined) rule.weight = parseFloat(match[2]);
+    if (match[3] !== undefined) {
+        try {
+            rule.maxTokens = parseBudget(match[3]);
+        } catch {
+            throw new Error(`Invalid priority rule "${spec}": bad token cap "${match[3]}"`);
+        }
+    }
+    return rule;
+}
+
+/**
+ * Parse rules in order; throws one error listing every invalid rule
+ */
+export function parsePriorityRules(specs: string[]): PriorityRule[] {
+    const rules: PriorityRule[] = [];
+    const errors: string[] = [];
+
+    for (const spec of specs.filter(s => s.trim() !== '')) {
+        try {
+            rules.push(parsePriorityRule(spec));
+        } catch (err) {
+            errors.push(err instanceof Error ? err.message : String(err));
+        }
+    }
+
+    if (errors.length > 0) {
+        throw new Error(errors.join('\n  '));
+    }
+    return rules;
+}
+
+/**
+ * Match paths against rules, first rule wins. Patterns without glob characters match whole
+ * path segments (a file's name with or without its extension), so "api" matches
+ * "src/api/client.ts" and "src/api.ts" but not "rapid/index.ts".
+ */
+export function createRuleMatcher(rules: PriorityRule[]): RuleMatcher {
+    const tests = rules.map(rule => {
+        if (GLOB_CHARS.test(rule.pattern)) {
+            const glob = new Glob(rule.pattern);
+            return (path: string) => glob.match(path);
+        }
+        const escaped = rule.pattern.replace(/^\/+|\/+$/g, '').replace(/[.+^$()|\\]/g, '\\$&');
+        const segments = new RegExp(`(^|/)${escaped}(/|\\.[^/]*$|$)`);
+        return (path: string) => segments.test(path);
+    });
+
+    return path => rules.find((_, i) => tests[i](path));
+}
+
+/**
+ * Parse a directory quota: tokens ("20k") or a share of the budget ("25%")
+ */
+export function parseQuota(spec: string, budget: number): number {
+    const percent = spec.trim().match(/^(\d+(?:\.\d+)?)%$/);
+    if (!percent) {
+        try {
+            return parseBudget(spec.trim());
+        } catch {
+            throw new Error(`Invalid quota "${spec}" (expected tokens like 20k or a share like 25%)`);
+        }
+    }
+
+    const share = parseFloat(percent[1]);
+    if (share > 100) {
+        throw new Error(`Invalid quota "${spec}" (at most 100%)`);
+    }
+    return Math.floor((budget * share) / 100);
+}
+
+/**
+ * Top-level directory of a path, or undefined for files at the root
+ */
+export function getTopDirectory(path: string): string | undefined {
+    const index = path.indexOf('/');
+    return index > 0 ? path.slice(0, index) : undefined;
+}
@@ -0,0 +1,207 @@
+/**
+ * Redaction Module
+ * Replaces credentials and secrets with stable placeholders before content leaves the machine
+ */
+import type { ScanResult } from './scanner';
+import { countTokens, type Tokenizer } from './tokenizer';
+
+export interface SecretRule {
+    /** Placeholder label, e.g. "aws-key" in [REDACTED:aws-key#1] */
+    id: string;
+    /** Must use the global flag */
+    pattern: RegExp;
+    /** Capture group holding the secret; the whole match when omitted */
+    group?: number;
+    /** Extra check on the captured value */
+    validate?: (value: string) => boolean;
+}
+
+export interface RedactionFinding {
+    path: string;
+    rule: string;
+    line: number;
+    placeholder: string;
+}
+
+export interface RedactionReport {
+    results: ScanResult[];
+    findings: RedactionFinding[];
+}
+
+export interface RedactOptions {
+    /** Extra rules as id -> regex source (from config) */
+    patterns?: Record<string, string>;
+    /** Flag high-entropy values assigned to secret-looking names (default: true) */
+    entropy?: boolean;
+}
+
+/** Minimum length and Shannon entropy (bits per char) for an assigned value to count as a secret */
+const ENTROPY_MIN_LENGTH = 16;
+const ENTROPY_THRESHOLD = 3.5;
+
+export const BUILTIN_SECRET_RULES: SecretRule[] = [
+    { id: 'private-key', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY( BLOCK)?-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY( BLOCK)?-----/g },
+    { id: 'aws-key', pattern: /\b(?:AKIA|ASIA|AGPA|AIDA|AROA)[0-9A-Z]{16}\b/g },
+    { id: 'aws-secret', pattern: /aws_?secret_?access_?key["']?\s*[:=]\s*["']?([A-Za-z0-9/+=]{40})\b/gi, group: 1 },
+    { id: 'github-token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\b/g },
+    { id: 'slack-token', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+    { id: 'slack-webhook', pattern: /https:\/\/hooks\.slack\.com\/services\/[A-Za-z0-9_/]+/g },
+    { id: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g },
+    { id: 'connection-password', pattern: /\b[a-z][a-z0-9+.-]*:\/\/[^\s:@/"'`]+:([^\s@/"'`]+)@/gi, group: 1 },
+];
+
+/** Assignments to names that usually hold credentials */
+const SECRET_ASSIGNMENT: SecretRule = {
+    id: 'secret',
+    pattern: /\b[\w.-]*(?:secret|token|passw(?:or)?d|pwd|api[_-]?key|access[_-]?key|private[_-]?key|credential|auth)[\w.-]*["']?\s*[:=]\s*["'`]?([^\s"'`,;]+)/gi,
+    group: 1,
+    validate: value => isHighEntropy(value),
+};
+
+/**
+ * Shannon entropy of a string, in bits per character
+ */
+export function shannonEntropy(value: string): number {
+    const counts = new Map<string, number>();
+    for (const ch of value) {
+        counts.set(ch, (counts.get(ch) ?? 0) + 1);
+    }
+
+    let entropy = 0;
+    for (const count of counts.values()) {
+        const p = count / value.length;
+        entropy -= p * Math.log2(p);
+    }
+    return entropy;
+}
+
+/**
+ * Random-looking values: long, mixing letters and digits, with high entropy
+ */
+function isHighEntropy(value: string): boolean {
+    return value.length >= ENTROPY_MIN_LENGTH
+        && /[A-Za-z]/.test(value)
+        && /\d/.test(value)
+        && shannonEntropy(value) >= ENTROPY_THRESHOLD;
+}
+
+/**
+ * Compile user-defined patterns (id -> regex source) into rules
+ */
+export function compileSecretRules(patterns: Record<string, string>): SecretRule[] {
+    return Object.entries(patterns).map(([id, source]) => ({ id, pattern: new RegExp(source, 'g') }));
+}
+
+/**
+ * Redacts secrets across many files. Placeholders are numbered per rule, and the same secret
+ * gets the same placeholder everywhere, so references between files stay intact.
+ */
+export class Redactor {
+    private readonly rules: SecretRule[];
+    private readonly placeholders = new Map<string, Map<string, string>>();
+
+    constructor(options: RedactOptions = {}) {
+        const { patterns = {}, entropy = true } = options;
+        this.rules = [
+            ...BUILTIN_SECRET_RULES,
+            ...compileSecretRules(patterns),
+            ...(entropy ? [SECRET_ASSIGNMENT] : []),
+        ];
+    }
+
+    /**
+     * Placeholder for a secret, allocated on first sight
+     */
+    private placeholderFor(rule: string, secret: string): string {
+        let byValue = this.placeholders.get(rule);
+        if (!byValue) {
+            byValue = new Map();
+            this.placeholders.set(rule, byValue);
+        }
+
+        let placeholder = byValue.get(secret);
+        if (!placeholder) {
+            placeholder = `[REDACTED:${rule}#${byValue.size + 1}]`;
+            byValue.set(secret, placeholder);
+        }
+        return placeholder;
+    }
+
+    /**
+     * Redact one file's content
+     */
+    redact(content: string, path: string): { content: string; findings: RedactionFinding[] } {
+        const spans: Array<{ start: number; end: number; rule: string }> = [];
+
+        // Rules are tried in order, so built-in formats win over user patterns and the entropy heuristic
+        for (const rule of this.rules) {
+            for (const match of content.matchAll(rule.pattern)) {
+                if (!match[0]) continue;
+                const value = rule.group ? match[rule.group] : match[0];
+                if (!value || (rule.validate && !rule.validate(value))) continue;
+
+                // The secret is the last occurrence of the captured value within the match
+                const start = match.index! + (rule.group ? match[0].lastIndexOf(value) : 0);
+                const end = start + value.length;
+                if (!spans.some(span => start < span.end && span.start < end)) {
+                    spans.push({ start, end, rule: rule.id });
+                }
+            }
+        }
+
+        if (spans.length === 0) return { content, findings: [] };
+
+        const findings: RedactionFinding[] = [];
+        let output = '';
+        let cursor = 0;
+        for (const span of spans.sort((a, b) => a.start - b.start)) {
+            const placeholder = this.placeholderFor(span.rule, content.slice(span.start, span.end));
+            output += content.slice(cursor, span.start) + placeholder;
+            cursor = span.end;
+            findings.push({
+                path,
+                rule: span.rule,
+                line: content.slice(0, span.start).split('\n').length,
+                placeholder,
+            });
+        }
+
+        return { content: output + content.slice(cursor), findings };
+    }
+}
+
+/**
+ * Redact every result, recounting tokens for files that changed
+ */
+export function redactResults(
+    results: ScanResult[],
+    options: RedactOptions = {},
+    tokenizer?: Tokenizer
+): RedactionReport {
+    const redactor = new Redactor(options);
+    const findings: RedactionFinding[] = [];
+
+    const redacted = results.map(result => {
+        const { content, findings: found } = redactor.redact(result.content, result.path);
+        if (found.length === 0) return result;
+
+        findings.push(...found);
+        return { ...result, content, tokenInfo: countTokens(content, tokenizer) };
+    });
+
+    return { results: redacted, findings };
+}
+
+/**
+ * Summarize findings by rule (e.g., "2 aws-key, 1 jwt")
+ */
+export function getRedactionSummary(findings: RedactionFinding[]): string {
+    const counts: Record<string, number> = {};
+    for (const finding of findings) {
+        counts[finding.rule] = (counts[finding.rule] || 0) + 1;
+    }
+
+    return Object.entries(counts)
+        .map(([rule, count]) => `${count} ${rule}`)
+        .join(', ');
+}
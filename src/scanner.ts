@@ -1,25 +1,71 @@
 /**
  * Scanner Module
- * Scans directories using Bun's native Glob API and respects .gitignore
+ * Walks directories once, pruning ignored folders, and loads matching files concurrently
  */
 import { Glob } from 'bun';
-import { readFile } from 'fs/promises';
-import { join, extname, relative } from 'path';
-import { countTokens, type TokenInfo } from './tokenizer';
+import { readdir, readFile, stat } from 'fs/promises';
+import type { Dirent } from 'fs';
+import { join, extname } from 'path';
+import { countTokens, TOKENIZER_ID, type TokenInfo, type Tokenizer } from './tokenizer';
+import { IgnoreMatcher } from './ignore';
+import type { TokenCache } from './cache';
+import { isBinaryContent, detectGenerated, formatSize, type SkippedFile } from './filters';
+import { mapConcurrent, createTokenizerPool, getDefaultWorkerCount } from './pool';
 
 export interface ScanOptions {
   cwd: string;
   patterns: string[];
   ignore?: string[];
+  /** Restrict the scan to these cwd-relative files (still filtered by patterns and ignore rules) */
+  paths?: string[];
+  /** Treat `paths` as explicitly named files: patterns and ignore rules are not applied */
+  explicit?: boolean;
+  /** Skip files larger than this many bytes (default: 1 MB) */
+  maxFileSize?: number;
+  /** Skip files with more tokens than this */
+  maxFileTokens?: number;
+  /** Skip generated and minified files (default: true) */
+  skipGenerated?: boolean;
+  /** Reuse token counts from a persistent cache (caller is responsible for saving it) */
+  cache?: TokenCache;
+  /** Maximum number of files read at once (default: 32) */
+  concurrency?: number;
+  /** Tokenizer worker threads; 0 tokenizes on the main thread (default: spare cores, max 4) */
+  workers?: number;
+  /** Tokenizer for token counts (default: o200k_base) */
+  tokenizer?: Tokenizer;
 }
 
+/** How completely a file is represented in the output, from most to least */
+export type Fidelity = 'full' | 'compact' | 'signatures' | 'path' | 'excluded';
+
 export interface ScanResult {
   path: string;
   content: string;
   language: string;
   tokenInfo: TokenInfo;
+  /** Set when content is a unified diff rather than the file itself */
+  diff?: { base: string; head: string };
+  /** Set when content is only part of the file; `part` numbers the pieces of a file split across chunks */
+  range?: { startLine: number; endLine: number; symbol?: string; part?: { index: number; total: number } };
+  /** Set when the budget shortened the file; "path" files only appear in the structure tree */
+  fidelity?: Exclude<Fidelity, 'full' | 'excluded'>;
+}
+
+export interface ScanReport {
+  results: ScanResult[];
+  skipped: SkippedFile[];
 }
 
+/** Default upper bound for a single file's size */
+export const DEFAULT_MAX_FILE_SIZE = 1024 * 1024;
+
+/** Default number of files read in parallel */
+const DEFAULT_CONCURRENCY = 32;
+
+/** Below this many files, starting workers costs more than it saves */
+const WORKER_THRESHOLD = 256;
+
 /** Map file extensions to language names */
 const EXTENSION_LANGUAGE_MAP: Record<string, string> = {
   '.ts': 'typescript',
@@ -59,89 +105,254 @@ const DEFAULT_IGNORE = [
 ];
 
 /**
- * Parse .gitignore file and return patterns
+ * Detect language from file extension
  */
-async function parseGitignore(cwd: string): Promise<string[]> {
-  try {
-    const content = await readFile(join(cwd, '.gitignore'), 'utf-8');
-    return content
-      .split('\n')
-      .map(line => line.trim())
-      .filter(line => line && !line.startsWith('#'))
-      .map(pattern => {
-        // Convert gitignore patterns to glob patterns
-        if (pattern.endsWith('/')) {
-          return pattern + '**';
+export function detectLanguage(filePath: string): string {
+  const ext = extname(filePath).toLowerCase();
+  return EXTENSION_LANGUAGE_MAP[ext] || 'text';
+}
+
+/**
+ * Glob ignore patterns compiled once per scan.
+ * Patterns ending in "/**" also prune the matching directory itself.
+ */
+interface CompiledIgnore {
+  files: Glob[];
+  dirs: Glob[];
+}
+
+function compileIgnore(patterns: string[]): CompiledIgnore {
+  return {
+    files: patterns.map(pattern => new Glob(pattern)),
+    dirs: patterns
+      .filter(pattern => pattern.endsWith('/**'))
+      .map(pattern => new Glob(pattern.slice(0, -3))),
+  };
+}
+
+/**
+ * Walk the tree once, skipping ignored directories before descending
+ */
+async function collectFiles(
+  cwd: string,
+  include: Glob[],
+  ignore: CompiledIgnore,
+  gitIgnore: IgnoreMatcher
+): Promise<string[]> {
+  const files: string[] = [];
+  const pendingDirs = [''];
+
+  while (pendingDirs.length > 0) {
+    const dir = pendingDirs.pop()!;
+
+    let entries: Dirent[];
+    try {
+      entries = await readdir(join(cwd, dir), { withFileTypes: true });
+    } catch {
+      continue;
+    }
+
+    for (const entry of entries) {
+      // Hidden files and folders are never scanned
+      if (entry.name.startsWith('.')) continue;
+
+      const path = dir ? `${dir}/${entry.name}` : entry.name;
+
+      let isDir = entry.isDirectory();
+      if (entry.isSymbolicLink()) {
+        // Follow links to files, but never into linked directories
+        try {
+          const target = await stat(join(cwd, path));
+          if (!target.isFile()) continue;
+          isDir = false;
+        } catch {
+          continue;
         }
-        return pattern;
-      });
-  } catch {
-    return [];
+      } else if (!isDir && !entry.isFile()) {
+        continue;
+      }
+
+      if (isDir) {
+        if (ignore.dirs.some(glob => glob.match(path))) continue;
+        if (await gitIgnore.isIgnoredShallow(path, true)) continue;
+        pendingDirs.push(path);
+        continue;
+      }
+
+      if (!include.some(glob => glob.match(path))) continue;
+      if (ignore.files.some(glob => glob.match(path))) continue;
+      if (await gitIgnore.isIgnoredShallow(path)) continue;
+      files.push(path);
+    }
   }
+
+  return files;
 }
 
 /**
- * Detect language from file extension
+ * Create a predicate checking cwd-relative paths against scan patterns and glob ignores,
+ * without touching the filesystem
  */
-function detectLanguage(filePath: string): string {
-  const ext = extname(filePath).toLowerCase();
-  return EXTENSION_LANGUAGE_MAP[ext] || 'text';
+export function createPathFilter(options: Pick<ScanOptions, 'patterns' | 'ignore'>): (path: string) => boolean {
+  const include = options.patterns.map(pattern => new Glob(pattern));
+  const compiledIgnore = compileIgnore([...DEFAULT_IGNORE, ...(options.ignore ?? [])]);
+
+  return (path: string) => {
+    const segments = path.split('/');
+    const dirs = segments.slice(0, -1).map((_, i) => segments.slice(0, i + 1).join('/'));
+
+    return include.some(glob => glob.match(path))
+      && !compiledIgnore.files.some(glob => glob.match(path))
+      && !dirs.some(dir => compiledIgnore.dirs.some(glob => glob.match(dir)));
+  };
 }
 
 /**
- * Check if a file matches any of the ignore patterns
+ * Filter an explicit list of candidate files with the same rules the walk applies
  */
-function shouldIgnore(filePath: string, ignorePatterns: string[]): boolean {
-  for (const pattern of ignorePatterns) {
-    const glob = new Glob(pattern);
-    if (glob.match(filePath)) {
-      return true;
+async function filterPaths(
+  cwd: string,
+  paths: string[],
+  include: Glob[],
+  ignore: CompiledIgnore,
+  gitIgnore: IgnoreMatcher
+): Promise<string[]> {
+  const files = new Set<string>();
+
+  for (const rawPath of paths) {
+    const path = rawPath.replace(/\\/g, '/').replace(/^\.\//, '');
+    const segments = path.split('/');
+
+    if (segments.some(segment => segment.startsWith('.') || segment === '')) continue;
+    if (!include.some(glob => glob.match(path))) continue;
+    if (ignore.files.some(glob => glob.match(path))) continue;
+
+    const dirs = segments.slice(0, -1).map((_, i) => segments.slice(0, i + 1).join('/'));
+    if (dirs.some(dir => ignore.dirs.some(glob => glob.match(dir)))) continue;
+    if (await gitIgnore.isIgnored(path)) continue;
+
+    try {
+      if (!(await stat(join(cwd, path))).isFile()) continue;
+    } catch {
+      continue;
     }
+
+    files.add(path);
   }
-  return false;
+
+  return [...files];
 }
 
 /**
- * Scan directory for files matching patterns
+ * Read a single file and run it through the content filters
  */
-export async function scan(options: ScanOptions): Promise<ScanResult[]> {
-  const { cwd, patterns, ignore = [] } = options;
-
-  // Combine default ignores, gitignore patterns, and user-specified ignores
-  const gitignorePatterns = await parseGitignore(cwd);
-  const allIgnorePatterns = [...DEFAULT_IGNORE, ...gitignorePatterns, ...ignore];
+async function loadFile(
+  cwd: string,
+  file: string,
+  options: ScanOptions,
+  tokenize: (content: string) => Promise<TokenInfo>
+): Promise<{ result: ScanResult } | { skipped: SkippedFile }> {
+  const { maxFileSize = DEFAULT_MAX_FILE_SIZE, maxFileTokens, skipGenerated = true, cache, tokenizer } = options;
+  const path = file.replace(/\\/g, '/');
+  const absolutePath = join(cwd, file);
 
-  const results: ScanResult[] = [];
-  const seenPaths = new Set<string>();
+  try {
+    const { size } = await stat(absolutePath);
+    if (size > maxFileSize) {
+      return { skipped: { path, reason: 'too-large', detail: formatSize(size) } };
+    }
 
-  for (const pattern of patterns) {
-    const glob = new Glob(pattern);
+    const buffer = await readFile(absolutePath);
+    if (isBinaryContent(buffer)) {
+      return { skipped: { path, reason: 'binary' } };
+    }
 
-    for await (const file of glob.scan({ cwd, dot: false, onlyFiles: true })) {
-      // Skip if already processed or should be ignored
-      if (seenPaths.has(file) || shouldIgnore(file, allIgnorePatterns)) {
-        continue;
+    const content = buffer.toString('utf-8');
+    if (skipGenerated) {
+      const generated = detectGenerated(content);
+      if (generated) {
+        return { skipped: { path, reason: generated.reason, detail: generated.detail } };
       }
+    }
+
+    // A cache opened for another tokenizer must not leak its counts
+    let tokenInfo = cache?.getTokens(path, content);
+    if (!tokenInfo || (tokenInfo.tokenizer ?? TOKENIZER_ID) !== (tokenizer?.id ?? TOKENIZER_ID)) {
+      tokenInfo = await tokenize(content);
+      cache?.setTokens(path, content, tokenInfo);
+    }
+    if (maxFileTokens !== undefined && tokenInfo.tokens > maxFileTokens) {
+      return { skipped: { path, reason: 'too-many-tokens', detail: `${tokenInfo.tokens} tokens` } };
+    }
 
-      seenPaths.add(file);
-
-      try {
-        const absolutePath = join(cwd, file);
-        const content = await readFile(absolutePath, 'utf-8');
-
-        results.push({
-          path: file.replace(/\\/g, '/'),
-          content,
-          language: detectLanguage(file),
-          tokenInfo: countTokens(content),
-        });
-      } catch (err) {
-        // Skip files that can't be read (binary files, permission issues, etc.)
-        console.warn(`Warning: Could not read file ${file}:`, err);
+    return { result: { path, content, language: detectLanguage(file), tokenInfo } };
+  } catch (err) {
+    // Permission issues, files removed mid-scan, etc.
+    return { skipped: { path, reason: 'unreadable', detail: err instanceof Error ? err.message : String(err) } };
+  }
+}
+
+/**
+ * Scan directory for files matching patterns, reporting skipped files and why
+ */
+export async function scanWithReport(options: ScanOptions): Promise<ScanReport> {
+  const {
+    cwd,
+    patterns,
+    ignore = [],
+    concurrency = DEFAULT_CONCURRENCY,
+    workers = getDefaultWorkerCount(),
+  } = options;
+
+  // Default and user-specified ignores always apply; git ignore rules are evaluated separately
+  const include = patterns.map(pattern => new Glob(pattern));
+  const compiledIgnore = compileIgnore([...DEFAULT_IGNORE, ...ignore]);
+  const gitIgnore = await IgnoreMatcher.create(cwd);
+
+  let files: string[];
+  if (options.paths && options.explicit) {
+    // Named files are loaded as-is; missing ones surface as unreadable
+    files = [...new Set(options.paths.map(path => path.replace(/\\/g, '/').replace(/^\.\//, '')))];
+  } else if (options.paths) {
+    files = await filterPaths(cwd, options.paths, include, compiledIgnore, gitIgnore);
+  } else {
+    files = await collectFiles(cwd, include, compiledIgnore, gitIgnore);
+  }
+
+  const { tokenizer } = options;
+  const pool = files.length >= WORKER_THRESHOLD ? createTokenizerPool(workers, tokenizer?.id) : null;
+  const tokenize = async (content: string): Promise<TokenInfo> => {
+    if (!pool) return countTokens(content, tokenizer);
+    // A failing worker must not lose the file
+    return pool.count(content).catch(() => countTokens(content, tokenizer));
+  };
+
+  const results: ScanResult[] = [];
+  const skipped: SkippedFile[] = [];
+
+  try {
+    const loaded = await mapConcurrent(files, concurrency, file => loadFile(cwd, file, options, tokenize));
+    for (const entry of loaded) {
+      if ('result' in entry) {
+        results.push(entry.result);
+      } else {
+        skipped.push(entry.skipped);
       }
     }
+  } finally {
+    pool?.terminate();
   }
 
   // Sort results by path for consistent output
-  return results.sort((a, b) => a.path.localeCompare(b.path));
+  return {
+    results: results.sort((a, b) => a.path.localeCompare(b.path)),
+    skipped: skipped.sort((a, b) => a.path.localeCompare(b.path)),
+  };
+}
+
+/**
+ * Scan directory for files matching patterns
+ */
+export async function scan(options: ScanOptions): Promise<ScanResult[]> {
+  return (await scanWithReport(options)).results;
 }
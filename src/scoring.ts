@@ -0,0 +1,164 @@
+/**
+ * Scoring Module
+ * Value scores for budget selection: priority rules, recency, import centrality, and query relevance from the search index
+ */
+import { stat } from 'fs/promises';
+import { join } from 'path';
+import type { ScanResult } from './scanner';
+import { buildImportGraph, type ImportGraph } from './imports';
+import { runGit } from './git';
+import { createRuleMatcher, parsePriorityRules, type PriorityRule } from './priority';
+
+/** Value of a file; higher is more worth including */
+export type Scorer = (result: ScanResult) => number;
+
+export interface WeightedScorer {
+    scorer: Scorer;
+    weight: number;
+}
+
+export interface BaseScorerOptions {
+    /** Priority rules, as with --priority */
+    priorityPatterns?: string[];
+    /** Relevance to the current question, from SearchIndex.scorer() */
+    relevance?: Scorer;
+    /** Closeness to the entry points, e.g. proximityScorer() for --follow */
+    proximity?: Scorer;
+}
+
+export interface DefaultScorerOptions extends BaseScorerOptions {
+    /** Project directory, for file dates */
+    cwd: string;
+    /** Import graph for centrality; built from the results with regexes when omitted */
+    graph?: ImportGraph;
+}
+
+/** Commits read when dating files from git history */
+const RECENCY_MAX_COMMITS = 2000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Weight of the first rule matching a path, as --priority weighs files; 0 when none does
+ */
+export function ruleScorer(rules: PriorityRule[]): Scorer {
+    const match = createRuleMatcher(rules);
+    return result => match(result.path)?.weight ?? 0;
+}
+
+/**
+ * Last modification time (ms) per path: the latest commit touching it, or the file's mtime
+ * for files outside git history
+ */
+export async function getModifiedTimes(cwd: string, paths: string[]): Promise<Map<string, number>> {
+    const times = new Map<string, number>();
+    const wanted = new Set(paths);
+
+    try {
+        const log = await runGit(cwd, [
+            'log', `--max-count=${RECENCY_MAX_COMMITS}`, '--format=%x00%ct', '--name-only', '--relative', '--', '.',
+        ]);
+        for (const commit of log.split('\0').filter(Boolean)) {
+            const [time, ...files] = commit.split('\n').filter(Boolean);
+            for (const file of files) {
+                // Log is newest first, so the first date seen is the latest
+                if (wanted.has(file) && !times.has(file)) times.set(file, parseInt(time, 10) * 1000);
+            }
+        }
+    } catch {
+        // Not a git repository: fall back to mtimes
+    }
+
+    for (const path of paths) {
+        if (times.has(path)) continue;
+        try {
+            times.set(path, (await stat(join(cwd, path))).mtimeMs);
+        } catch {
+            // Unreadable files simply get no recency score
+        }
+    }
+
+    return times;
+}
+
+/**
+ * 1 for files changed just now, halving every `halfLifeDays`
+ */
+export function recencyScorer(modified: Map<string, number>, halfLifeDays = 30, now = Date.now()): Scorer {
+    return result => {
+        const time = modified.get(result.path);
+        if (time === undefined) return 0;
+        const ageDays = Math.max(0, now - time) / DAY_MS;
+        return Math.pow(0.5, ageDays / halfLifeDays);
+    };
+}
+
+/**
+ * PageRank over the import graph, scaled so the most central file scores 1. Importance flows
+ * through barrel files to the modules they re-export.
+ */
+export function centralityScorer(graph: ImportGraph, damping = 0.85, iterations = 20): Scorer {
+    const nodes = [...graph.imports.keys()];
+    if (nodes.length === 0) return () => 0;
+
+    let rank = new Map(nodes.map(node => [node, 1 / nodes.length]));
+    for (let i = 0; i < iterations; i++) {
+        const next = new Map(nodes.map(node => [node, (1 - damping) / nodes.length]));
+        for (const node of nodes) {
+            const targets = graph.imports.get(node) ?? [];
+            if (targets.length === 0) continue;
+            const share = (damping * rank.get(node)!) / targets.length;
+            for (const target of targets) {
+                next.set(target, (next.get(target) ?? 0) + share);
+            }
+        }
+        rank = next;
+    }
+
+    const max = Math.max(...rank.values());
+    return result => (rank.get(result.path) ?? 0) / max;
+}
+
+/**
+ * 1 for entry points, halving with each import step away from them
+ */
+export function proximityScorer(distances: Map<string, number>): Scorer {
+    return result => {
+        const distance = distances.get(result.path);
+        return distance === undefined ? 0 : Math.pow(0.5, distance);
+    };
+}
+
+/**
+ * Weighted sum of several scorers
+ */
+export function combineScorers(scorers: WeightedScorer[]): Scorer {
+    return result => scorers.reduce((sum, { scorer, weight }) => sum + weight * scorer(result), 0);
+}
+
+/**
+ * Priority rules first, then relevance and proximity: a rule of weight 1 outweighs either
+ */
+export function createBaseScorer(options: BaseScorerOptions = {}): Scorer {
+    const { priorityPatterns = [], relevance, proximity } = options;
+    return combineScorers([
+        { scorer: ruleScorer(parsePriorityRules(priorityPatterns)), weight: 4 },
+        ...(relevance ? [{ scorer: relevance, weight: 2 }] : []),
+        ...(proximity ? [{ scorer: proximity, weight: 2 }] : []),
+    ]);
+}
+
+/**
+ * Scorer used by --strategy value: the base scorer, with recency and import centrality
+ * breaking ties between otherwise equal files
+ */
+export async function createDefaultScorer(results: ScanResult[], options: DefaultScorerOptions): Promise<Scorer> {
+    const { cwd, graph = buildImportGraph(results) } = options;
+    const modified = await getModifiedTimes(cwd, results.map(r => r.path));
+
+    return combineScorers([
+        { scorer: createBaseScorer(options), weight: 1 },
+        { scorer: recencyScorer(modified), weight: 1 },
+        { scorer: centralityScorer(graph), weight: 1 },
+    ]);
+}
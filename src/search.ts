@@ -0,0 +1,185 @@
+/**
+ * Search Module
+ * Offline BM25 ranking of scanned files by paths, identifiers, comments and symbol names
+ */
+import type { ScanResult } from './scanner';
+import type { CodeSymbol } from './parser';
+import type { Scorer } from './scoring';
+
+export interface SearchMatch {
+    path: string;
+    /** BM25 score; higher is more relevant */
+    score: number;
+    /** Query terms found in the file */
+    terms: string[];
+}
+
+export interface SearchIndexOptions {
+    /** Parsed symbols by path; their names count as strongly as the path */
+    symbols?: Map<string, CodeSymbol[]>;
+    k1?: number;
+    b?: number;
+}
+
+/** How much one occurrence of a term counts, by where it occurs */
+const FIELD_WEIGHTS = {
+    path: 3,
+    symbol: 3,
+    comment: 2,
+    code: 1,
+};
+
+/** Words too common in code to say anything about a file */
+const STOP_WORDS = new Set([
+    'the', 'and', 'or', 'of', 'to', 'in', 'is', 'it', 'for', 'on', 'with', 'as', 'be', 'an', 'by', 'at', 'this',
+    'const', 'let', 'var', 'function', 'return', 'import', 'export', 'from', 'if', 'else', 'new', 'true', 'false',
+    'null', 'undefined', 'def', 'self', 'fn', 'pub', 'func', 'public', 'private', 'static', 'void',
+]);
+
+const HASH_COMMENT_LANGUAGES = ['python', 'bash', 'yaml'];
+
+/**
+ * Light stemming so "tokens" finds "token" and "rotating" finds "rotate"
+ */
+function stem(term: string): string {
+    if (term.length > 5 && term.endsWith('ing')) return term.slice(0, -3);
+    if (term.length > 4 && term.endsWith('ed')) return term.slice(0, -2);
+    if (term.length > 3 && term.endsWith('s') && !term.endsWith('ss')) return term.slice(0, -1);
+    if (term.length > 4 && term.endsWith('e')) return term.slice(0, -1);
+    return term;
+}
+
+/**
+ * Split text into search terms: identifiers are broken on camelCase, snake_case and
+ * kebab-case, and compound identifiers are also kept whole ("fitToBudget" gives
+ * "fit", "budget" and "fittobudget")
+ */
+export function splitIdentifiers(text: string): string[] {
+    const terms: string[] = [];
+
+    for (const word of text.match(/[A-Za-z0-9_$-]+/g) ?? []) {
+        const parts = word.match(/[A-Z]+(?![a-z])|[A-Z]?[a-z]+|\d+/g) ?? [];
+        for (const part of parts) {
+            const term = part.toLowerCase();
+            if (term.length > 1 && !STOP_WORDS.has(term)) terms.push(stem(term));
+        }
+        if (parts.length > 1) terms.push(parts.join('').toLowerCase());
+    }
+
+    return terms;
+}
+
+/**
+ * Comment text of a file, for the language's comment syntax
+ */
+function extractComments(content: string, language: string): string {
+    const pattern = HASH_COMMENT_LANGUAGES.includes(language)
+        ? /#(.*)$|"""([\s\S]*?)"""/gm
+        : /\/\/(.*)$|\/\*([\s\S]*?)\*\//gm;
+    return [...content.matchAll(pattern)].map(match => match[1] ?? match[2] ?? '').join('\n');
+}
+
+interface IndexedFile {
+    path: string;
+    /** Weighted term frequencies */
+    frequencies: Map<string, number>;
+    /** Weighted term count */
+    length: number;
+}
+
+/**
+ * In-memory BM25 index over scanned files. Each file is one document whose terms are
+ * weighted by field (path and symbol names above comments, comments above plain code).
+ */
+export class SearchIndex {
+    private readonly files: IndexedFile[];
+    private readonly documentFrequency = new Map<string, number>();
+    private readonly averageLength: number;
+    private readonly k1: number;
+    private readonly b: number;
+
+    constructor(results: ScanResult[], options: SearchIndexOptions = {}) {
+        const { symbols, k1 = 1.2, b = 0.75 } = options;
+        this.k1 = k1;
+        this.b = b;
+
+        const byPath = new Map<string, IndexedFile>();
+        for (const result of results) {
+            // Fragments of one file (symbol selections) share its document
+            let file = byPath.get(result.path);
+            if (!file) {
+                file = { path: result.path, frequencies: new Map(), length: 0 };
+                byPath.set(result.path, file);
+
+                this.add(file, result.path, FIELD_WEIGHTS.path);
+                for (const symbol of symbols?.get(result.path) ?? []) {
+                    this.add(file, symbol.name, FIELD_WEIGHTS.symbol);
+                }
+            }
+
+            this.add(file, result.content, FIELD_WEIGHTS.code);
+            this.add(file, extractComments(result.content, result.language), FIELD_WEIGHTS.comment - FIELD_WEIGHTS.code);
+        }
+
+        this.files = [...byPath.values()];
+        for (const file of this.files) {
+            for (const term of file.frequencies.keys()) {
+                this.documentFrequency.set(term, (this.documentFrequency.get(term) ?? 0) + 1);
+            }
+        }
+        this.averageLength = this.files.reduce((sum, file) => sum + file.length, 0) / Math.max(this.files.length, 1);
+    }
+
+    /**
+     * Add a field's terms to a file's document
+     */
+    private add(file: IndexedFile, text: string, weight: number): void {
+        for (const term of splitIdentifiers(text)) {
+            file.frequencies.set(term, (file.frequencies.get(term) ?? 0) + weight);
+            file.length += weight;
+        }
+    }
+
+    /**
+     * Inverse document frequency (BM25 variant, never negative)
+     */
+    private idf(term: string): number {
+        const df = this.documentFrequency.get(term) ?? 0;
+        return Math.log(1 + (this.files.length - df + 0.5) / (df + 0.5));
+    }
+
+    /**
+     * Files matching at least one query term, most relevant first
+     */
+    search(query: string, limit?: number): SearchMatch[] {
+        const queryTerms = [...new Set(splitIdentifiers(query))];
+        const matches: SearchMatch[] = [];
+
+        for (const file of this.files) {
+            let score = 0;
+            const found: string[] = [];
+            for (const term of queryTerms) {
+                const frequency = file.frequencies.get(term);
+                if (!frequency) continue;
+
+                const norm = this.k1 * (1 - this.b + this.b * (file.length / this.averageLength));
+                score += this.idf(term) * (frequency * (this.k1 + 1)) / (frequency + norm);
+                found.push(term);
+            }
+            if (score > 0) matches.push({ path: file.path, score, terms: found });
+        }
+
+        matches.sort((a, b) => b.score - a.score || a.path.localeCompare(b.path));
+        return limit === undefined ? matches : matches.slice(0, limit);
+    }
+
+    /**
+     * Relevance to a query as a budget scorer, scaled so the best match scores 1
+     */
+    scorer(query: string): Scorer {
+        const matches = this.search(query);
+        const best = matches[0]?.score ?? 1;
+        const scores = new Map(matches.map(match => [match.path, match.score / best]));
+        return result => scores.get(result.path) ?? 0;
+    }
+}
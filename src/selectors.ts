@@ -0,0 +1,263 @@
+/**
+ * Selectors Module
+ * Parts of files picked on the command line: "path#Class.method", "path:40-120", "glob#parse*"
+ */
+import { Glob } from 'bun';
+import { scanWithReport, type ScanOptions, type ScanReport, type ScanResult } from './scanner';
+import { parseSymbols, getQualifiedName, isSymbolLanguage, type CodeSymbol } from './parser';
+import { countTokens } from './tokenizer';
+
+export interface Selector {
+    /** As written */
+    spec: string;
+    /** File path or glob, relative to the project directory */
+    path: string;
+    /** Symbol name or glob, qualified ("Class.method") or bare */
+    symbol?: string;
+    /** 1-based, inclusive */
+    lines?: { start: number; end: number };
+}
+
+const GLOB_CHARS = /[*?[{]/;
+
+/** "path:40-120" or "path:40" */
+const LINE_RANGE = /^(.+):(\d+)(?:-(\d+))?$/;
+
+/** Commas between selectors, not inside {a,b} globs */
+const SELECTOR_SEPARATOR = /,(?![^{]*\})/;
+
+/**
+ * Whether an argument selects part of a file rather than naming a directory
+ */
+export function isSelector(arg: string): boolean {
+    return arg.includes('#') || LINE_RANGE.test(arg);
+}
+
+/**
+ * Parse one selector; a path without "#symbol" or ":lines" selects whole files
+ */
+export function parseSelector(spec: string): Selector {
+    const selector = spec.trim().replace(/\\/g, '/').replace(/^\.\//, '');
+
+    const hash = selector.indexOf('#');
+    if (hash >= 0) {
+        const path = selector.slice(0, hash);
+        const symbol = selector.slice(hash + 1);
+        if (!path || !symbol) {
+            throw new Error(`Invalid selector "${spec}" (expected path#symbol)`);
+        }
+        return { spec, path, symbol };
+    }
+
+    const range = selector.match(LINE_RANGE);
+    if (range) {
+        const start = parseInt(range[2], 10);
+        const end = range[3] !== undefined ? parseInt(range[3], 10) : start;
+        if (start < 1 || end < start) {
+            throw new Error(`Invalid selector "${spec}" (expected lines like 40-120)`);
+        }
+        return { spec, path: range[1], lines: { start, end } };
+    }
+
+    if (!selector) {
+        throw new Error(`Invalid selector "${spec}" (expected a path)`);
+    }
+    return { spec, path: selector };
+}
+
+/**
+ * Parse selectors, each of which may list several separated by commas; throws one error
+ * listing every invalid selector
+ */
+export function parseSelectors(specs: string[]): Selector[] {
+    const selectors: Selector[] = [];
+    const errors: string[] = [];
+
+    for (const spec of specs.flatMap(s => s.split(SELECTOR_SEPARATOR)).filter(s => s.trim() !== '')) {
+        try {
+            selectors.push(parseSelector(spec));
+        } catch (err) {
+            errors.push(err instanceof Error ? err.message : String(err));
+        }
+    }
+
+    if (errors.length > 0) {
+        throw new Error(errors.join('\n  '));
+    }
+    return selectors;
+}
+
+/**
+ * Symbols a name selects: the symbol with that qualified name ("Class.method"), else the first
+ * with that bare name. Globs select every match of either, keeping only the outermost so a
+ * class does not repeat its methods.
+ */
+export function selectSymbols(symbols: CodeSymbol[], name: string): CodeSymbol[] {
+    if (!GLOB_CHARS.test(name)) {
+        const symbol = symbols.find(s => getQualifiedName(s) === name) ?? symbols.find(s => s.name === name);
+        return symbol ? [symbol] : [];
+    }
+
+    const glob = new Glob(name);
+    const matches = symbols
+        .filter(s => glob.match(getQualifiedName(s)) || glob.match(s.name))
+        .sort((a, b) => a.startLine - b.startLine || b.endLine - a.endLine);
+
+    const outermost: CodeSymbol[] = [];
+    for (const symbol of matches) {
+        const last = outermost[outermost.length - 1];
+        if (!last || symbol.startLine > last.endLine) outermost.push(symbol);
+    }
+    return outermost;
+}
+
+/**
+ * Fragment of a file holding its lines from `startLine` to `endLine`
+ */
+function createFragment(file: ScanResult, content: string, range: NonNullable<ScanResult['range']>, scanOptions: ScanOptions): ScanResult {
+    return {
+        path: file.path,
+        content,
+        language: file.language,
+        tokenInfo: countTokens(content, scanOptions.tokenizer),
+        range,
+    };
+}
+
+/**
+ * Fragments one selector picks from a file, or the error explaining why it picks none
+ */
+async function selectFromFile(file: ScanResult, selector: Selector, scanOptions: ScanOptions): Promise<ScanResult[] | string> {
+    if (selector.lines) {
+        const lines = file.content.split('\n');
+        if (selector.lines.start > lines.length) {
+            return `${file.path} has ${lines.length} lines`;
+        }
+        const endLine = Math.min(selector.lines.end, lines.length);
+        const content = lines.slice(selector.lines.start - 1, endLine).join('\n');
+        return [createFragment(file, content, { startLine: selector.lines.start, endLine }, scanOptions)];
+    }
+
+    if (selector.symbol) {
+        if (!isSymbolLanguage(file.language)) {
+            return `symbols are not parsed in ${file.language} files`;
+        }
+        let symbols = scanOptions.cache?.getSymbols(file.path, file.content);
+        if (!symbols) {
+            symbols = await parseSymbols(file.content, file.language);
+            scanOptions.cache?.setSymbols(file.path, file.content, symbols);
+        }
+
+        const selected = selectSymbols(symbols, selector.symbol);
+        if (selected.length === 0) {
+            return `no symbol "${selector.symbol}" in ${file.path}`;
+        }
+        return selected.map(symbol => createFragment(file, symbol.content, {
+            startLine: symbol.startLine,
+            endLine: symbol.endLine,
+            symbol: getQualifiedName(symbol),
+        }, scanOptions));
+    }
+
+    return [file];
+}
+
+/**
+ * Resolve selectors to whole files and fragments, sorted by path and line. Every selector
+ * must match: throws one error listing each that does not.
+ */
+export async function resolveSelectors(selectors: Selector[], scanOptions: ScanOptions): Promise<ScanReport> {
+    // Only the selected lines count, so files too large to include whole can still be picked from
+    const options: ScanOptions = { ...scanOptions, maxFileTokens: undefined };
+    const paths = [...new Set(selectors.filter(s => !GLOB_CHARS.test(s.path)).map(s => s.path))];
+    const globs = [...new Set(selectors.filter(s => GLOB_CHARS.test(s.path)).map(s => s.path))];
+
+    const fileReport = paths.length > 0
+        ? await scanWithReport({ ...options, paths, explicit: true })
+        : { results: [], skipped: [] };
+    const globReport = globs.length > 0
+        ? await scanWithReport({ ...options, patterns: globs, paths: undefined, explicit: false })
+        : { results: [], skipped: [] };
+    const files = new Map([...fileReport.results, ...globReport.results].map(r => [r.path, r]));
+
+    const errors: string[] = [];
+    const selected = new Map<string, ScanResult>();
+    for (const selector of selectors) {
+        let matched: ScanResult[];
+        if (GLOB_CHARS.test(selector.path)) {
+            const glob = new Glob(selector.path);
+            matched = [...files.values()].filter(file => glob.match(file.path));
+        } else {
+            matched = files.has(selector.path) ? [files.get(selector.path)!] : [];
+        }
+
+        if (matched.length === 0) {
+            const skipped = fileReport.skipped.find(file => file.path === selector.path);
+            const reason = !skipped
+                ? `no file matches ${selector.path}`
+                : skipped.reason === 'unreadable' ? `cannot read ${selector.path}` : `${selector.path} is skipped (${skipped.reason})`;
+            errors.push(`Selector "${selector.spec}": ${reason}`);
+            continue;
+        }
+
+        const reasons: string[] = [];
+        for (const file of matched) {
+            const fragments = await selectFromFile(file, selector, scanOptions);
+            if (typeof fragments === 'string') {
+                reasons.push(fragments);
+                continue;
+            }
+            for (const fragment of fragments) {
+                selected.set(`${fragment.path}:${fragment.range?.startLine ?? 0}-${fragment.range?.endLine ?? 0}`, fragment);
+            }
+        }
+        // A glob selects something as long as one of its files has a match
+        if (reasons.length === matched.length) {
+            errors.push(`Selector "${selector.spec}": ${matched.length === 1 ? reasons[0] : `no match in ${matched.length} files`}`);
+        }
+    }
+
+    if (errors.length > 0) {
+        throw new Error(errors.join('\n  '));
+    }
+
+    // A whole file already covers its fragments
+    const whole = new Set([...selected.values()].filter(r => !r.range).map(r => r.path));
+    const results = [...selected.values()].filter(r => !r.range || !whole.has(r.path));
+
+    return { results: mergeFragments(results, files, scanOptions), skipped: globReport.skipped };
+}
+
+/**
+ * Sort results by path and line, merging fragments of the same file whose lines overlap so no
+ * line is emitted or counted twice. A fragment inside another is dropped; partly overlapping
+ * ones become one fragment of both, cut from the whole file in `files`.
+ */
+export function mergeFragments(results: ScanResult[], files: Map<string, ScanResult>, scanOptions: ScanOptions): ScanResult[] {
+    const sorted = [...results].sort((a, b) => a.path.localeCompare(b.path)
+        || (a.range?.startLine ?? 0) - (b.range?.startLine ?? 0)
+        || (b.range?.endLine ?? 0) - (a.range?.endLine ?? 0));
+    const merged: ScanResult[] = [];
+
+    for (const result of sorted) {
+        const last = merged[merged.length - 1];
+        if (!result.range || !last?.range || last.path !== result.path || result.range.startLine > last.range.endLine) {
+            merged.push(result);
+            continue;
+        }
+        if (result.range.endLine <= last.range.endLine) continue;
+
+        const file = files.get(result.path)!;
+        const startLine = last.range.startLine;
+        const endLine = result.range.endLine;
+        const symbols = [last.range.symbol, result.range.symbol];
+        const content = file.content.split('\n').slice(startLine - 1, endLine).join('\n');
+        merged[merged.length - 1] = createFragment(file, content, {
+            startLine,
+            endLine,
+            ...(symbols.every(Boolean) ? { symbol: symbols.join(', ') } : {}),
+        }, scanOptions);
+    }
+
+    return merged;
+}
@@ -0,0 +1,277 @@
+/**
+ * Context Sets Module
+ * Named, reusable selections (paths, globs, symbols and output options) stored in .ctx/sets
+ */
+import { Glob } from 'bun';
+import { mkdir, readdir, readFile, rm, stat, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { scanWithReport, type ScanOptions, type ScanResult } from './scanner';
+import { parseSymbols, getQualifiedName } from './parser';
+import { selectSymbols, mergeFragments } from './selectors';
+import { countTokens } from './tokenizer';
+import { parseOptions, type ConfigOptions } from './config';
+import type { SkippedFile } from './filters';
+
+export interface ContextSet {
+    name: string;
+    /** Files named explicitly, relative to the project directory */
+    paths: string[];
+    /** Globs matched against the scanned files */
+    globs: string[];
+    /** Symbols, as "path#name", "path#Class.method" or "path#glob" */
+    symbols: string[];
+    /** Output options applied when the set is loaded (format, budget, ...) */
+    options: ConfigOptions;
+    updatedAt?: string;
+}
+
+export type SetEntryKind = 'path' | 'glob' | 'symbol';
+
+export interface MissingSetEntry {
+    kind: SetEntryKind;
+    entry: string;
+}
+
+export interface ResolvedContextSet {
+    results: ScanResult[];
+    skipped: SkippedFile[];
+    /** Entries that no longer match anything */
+    missing: MissingSetEntry[];
+}
+
+/** Directory holding sets, relative to the project directory */
+export const SETS_DIR = '.ctx/sets';
+
+const SET_NAME = /^[A-Za-z0-9_][A-Za-z0-9_.-]*$/;
+
+const GLOB_CHARS = /[*?[{]/;
+
+/**
+ * Path of a set's file; throws for names that are not plain file names
+ */
+export function getSetFile(cwd: string, name: string): string {
+    if (!SET_NAME.test(name)) {
+        throw new Error(`Invalid set name "${name}" (use letters, digits, ".", "_" and "-")`);
+    }
+    return join(cwd, SETS_DIR, `${name}.json`);
+}
+
+/**
+ * Classify selection entries into explicit paths, globs and "path#symbol" selections
+ */
+export function parseSelection(entries: string[]): Pick<ContextSet, 'paths' | 'globs' | 'symbols'> {
+    const selection = { paths: [] as string[], globs: [] as string[], symbols: [] as string[] };
+
+    for (const raw of entries) {
+        const entry = raw.replace(/\\/g, '/').replace(/^\.\//, '');
+        if (entry.includes('#')) selection.symbols.push(entry);
+        else if (GLOB_CHARS.test(entry)) selection.globs.push(entry);
+        else selection.paths.push(entry.replace(/\/$/, ''));
+    }
+
+    return selection;
+}
+
+/**
+ * Selection of a set after its files were edited as checkboxes: globs and symbols stay as
+ * they are, saved directories stay while every file under them is still selected, and the
+ * other selected files become the explicit paths
+ */
+export function updateSelection(
+    set: Pick<ContextSet, 'paths' | 'globs' | 'symbols'> | undefined,
+    selected: string[],
+    available: string[]
+): Pick<ContextSet, 'paths' | 'globs' | 'symbols'> {
+    const globs = set?.globs ?? [];
+    const matchers = globs.map(pattern => new Glob(pattern));
+    const chosen = new Set(selected);
+
+    const dirs = (set?.paths ?? []).filter(path => {
+        const files = available.filter(file => file.startsWith(`${path}/`));
+        return files.length > 0 && files.every(file => chosen.has(file));
+    });
+    const paths = selected.filter(file =>
+        !matchers.some(glob => glob.match(file)) && !dirs.some(dir => file.startsWith(`${dir}/`))
+    );
+
+    return { paths: [...dirs, ...paths], globs, symbols: set?.symbols ?? [] };
+}
+
+/**
+ * Validate a parsed set file
+ */
+function parseContextSet(raw: unknown, name: string, file: string): ContextSet {
+    const data = (typeof raw === 'object' && raw !== null ? raw : {}) as Record<string, unknown>;
+    const list = (key: string): string[] => {
+        const value = data[key] ?? [];
+        if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) {
+            throw new Error(`Invalid set ${file}: "${key}" must be an array of strings`);
+        }
+        return value;
+    };
+
+    return {
+        name,
+        paths: list('paths'),
+        globs: list('globs'),
+        symbols: list('symbols'),
+        options: parseOptions(data.options ?? {}, file),
+        updatedAt: typeof data.updatedAt === 'string' ? data.updatedAt : undefined,
+    };
+}
+
+/**
+ * Write a set, replacing any existing set with the same name
+ */
+export async function saveContextSet(cwd: string, set: ContextSet): Promise<string> {
+    const file = getSetFile(cwd, set.name);
+    await mkdir(join(cwd, SETS_DIR), { recursive: true });
+
+    const { name: _name, ...data } = set;
+    await writeFile(file, JSON.stringify({ ...data, updatedAt: new Date().toISOString() }, null, 2) + '\n', 'utf-8');
+    return file;
+}
+
+/**
+ * Read a set by name
+ */
+export async function loadContextSet(cwd: string, name: string): Promise<ContextSet> {
+    const file = getSetFile(cwd, name);
+
+    let content: string;
+    try {
+        content = await readFile(file, 'utf-8');
+    } catch {
+        throw new Error(`Context set "${name}" not found (${file})`);
+    }
+
+    try {
+        return parseContextSet(JSON.parse(content), name, file);
+    } catch (err) {
+        if (err instanceof SyntaxError) throw new Error(`Invalid set ${file}: ${err.message}`);
+        throw err;
+    }
+}
+
+/**
+ * List all sets, sorted by name; unreadable set files are left out
+ */
+export async function listContextSets(cwd: string): Promise<ContextSet[]> {
+    let entries: string[];
+    try {
+        entries = await readdir(join(cwd, SETS_DIR));
+    } catch {
+        return [];
+    }
+
+    const sets: ContextSet[] = [];
+    for (const entry of entries.filter(e => e.endsWith('.json')).sort()) {
+        try {
+            sets.push(await loadContextSet(cwd, entry.slice(0, -'.json'.length)));
+        } catch {
+            // Skip invalid files rather than hiding every other set
+        }
+    }
+    return sets;
+}
+
+/**
+ * Delete a set, returning false if it did not exist
+ */
+export async function deleteContextSet(cwd: string, name: string): Promise<boolean> {
+    const file = getSetFile(cwd, name);
+    try {
+        await stat(file);
+    } catch {
+        return false;
+    }
+    await rm(file);
+    return true;
+}
+
+/**
+ * Resolve a set to scan results. Entries that no longer exist are reported, not fatal.
+ */
+export async function resolveContextSet(set: ContextSet, scanOptions: ScanOptions): Promise<ResolvedContextSet> {
+    const { cwd } = scanOptions;
+    const missing: MissingSetEntry[] = [];
+    const globs = [...set.globs];
+    const explicit: string[] = [];
+
+    // Directories saved as paths behave like "dir/**"
+    for (const path of set.paths) {
+        try {
+            if ((await stat(join(cwd, path))).isDirectory()) globs.push(`${path}/**`);
+            else explicit.push(path);
+        } catch {
+            missing.push({ kind: 'path', entry: path });
+        }
+    }
+
+    const symbolSelections = set.symbols.map(entry => {
+        const index = entry.indexOf('#');
+        return { entry, path: entry.slice(0, index), name: entry.slice(index + 1) };
+    });
+    const symbolPaths = [...new Set(symbolSelections.map(s => s.path))];
+
+    const fileReport = await scanWithReport({ ...scanOptions, paths: [...explicit, ...symbolPaths], explicit: true });
+    const globReport = globs.length > 0
+        ? await scanWithReport({ ...scanOptions, patterns: globs, paths: undefined, explicit: false })
+        : { results: [], skipped: [] };
+
+    for (const pattern of globs.filter(g => set.globs.includes(g))) {
+        const glob = new Glob(pattern);
+        if (!globReport.results.some(r => glob.match(r.path))) {
+            missing.push({ kind: 'glob', entry: pattern });
+        }
+    }
+
+    const whole = new Map<string, ScanResult>();
+    for (const result of fileReport.results.filter(r => explicit.includes(r.path))) {
+        whole.set(result.path, result);
+    }
+    for (const result of globReport.results) {
+        whole.set(result.path, result);
+    }
+
+    const fragments: ScanResult[] = [];
+    const loaded = new Map(fileReport.results.map(r => [r.path, r]));
+    for (const selection of symbolSelections) {
+        const file = loaded.get(selection.path);
+        if (!file) {
+            missing.push({ kind: 'symbol', entry: selection.entry });
+            continue;
+        }
+        // A whole file already covers its symbols
+        if (whole.has(selection.path)) continue;
+
+        const symbols = selectSymbols(await parseSymbols(file.content, file.language), selection.name);
+        if (symbols.length === 0) {
+            missing.push({ kind: 'symbol', entry: selection.entry });
+            continue;
+        }
+
+        for (const symbol of symbols) {
+            fragments.push({
+                path: file.path,
+                content: symbol.content,
+                language: file.language,
+                tokenInfo: countTokens(symbol.content, scanOptions.tokenizer),
+                range: { startLine: symbol.startLine, endLine: symbol.endLine, symbol: getQualifiedName(symbol) },
+            });
+        }
+    }
+
+    // Symbols may nest or overlap (a class and one of its methods), so their lines are merged
+    const results = mergeFragments([...whole.values(), ...fragments], loaded, scanOptions);
+
+    // Unreadable symbol files are already reported through their symbols
+    const skipped: SkippedFile[] = [...globReport.skipped];
+    for (const file of fileReport.skipped) {
+        if (!explicit.includes(file.path)) continue;
+        if (file.reason === 'unreadable') missing.push({ kind: 'path', entry: file.path });
+        else skipped.push(file);
+    }
+
+    return { results, skipped, missing };
+}
@@ -0,0 +1,96 @@
+/**
+ * Stubs Module
+ * .d.ts-style skeletons of source files: everything as written except function and method bodies
+ */
+import { parseTree } from './parser';
+
+/** Declarations whose bodies a stub leaves out, by Tree-sitter node type */
+const FUNCTION_NODE_TYPES = new Set([
+    // TS/JS (function_declaration and method_declaration also cover Go and Java)
+    'function_declaration',
+    'generator_function_declaration',
+    'function_expression',
+    'function',
+    'generator_function',
+    'arrow_function',
+    'method_definition',
+    // Python, C and C++
+    'function_definition',
+    // Go
+    'method_declaration',
+    'func_literal',
+    // Rust
+    'function_item',
+    // Java
+    'constructor_declaration',
+    'compact_constructor_declaration',
+]);
+
+/** Stands in for a removed body */
+const BODY_PLACEHOLDER = '{ … }';
+const PYTHON_BODY_PLACEHOLDER = '...';
+
+interface Cut {
+    start: number;
+    end: number;
+    text: string;
+}
+
+/**
+ * Replacement of a function's body, or null to keep it: empty bodies and arrow functions
+ * returning an expression stay as written, and Python bodies keep their docstring
+ */
+function cutBody(fn: any, body: any, language: string): Cut | null {
+    if (body.namedChildCount === 0) return null;
+    if (fn.type === 'arrow_function' && body.type !== 'statement_block') return null;
+
+    if (language === 'python') {
+        const [first, ...rest] = body.namedChildren;
+        const docstring = first.type === 'expression_statement' && first.namedChildren[0]?.type === 'string';
+        if (!docstring) return { start: body.startIndex, end: body.endIndex, text: PYTHON_BODY_PLACEHOLDER };
+        if (rest.length === 0) return null;
+
+        const indent = ' '.repeat(body.startPosition.column);
+        return { start: first.endIndex, end: body.endIndex, text: `\n${indent}${PYTHON_BODY_PLACEHOLDER}` };
+    }
+
+    return { start: body.startIndex, end: body.endIndex, text: BODY_PLACEHOLDER };
+}
+
+/**
+ * Skeleton of a file: imports, types, interfaces, enums, constants and class fields as
+ * written, with function and method bodies replaced by "{ … }" ("..." in Python). Null when
+ * Tree-sitter cannot parse the language, so callers fall back to a symbol outline.
+ */
+export async function generateStub(content: string, language: string): Promise<string | null> {
+    let tree: any;
+    try {
+        tree = await parseTree(content, language);
+    } catch {
+        return null;
+    }
+    if (!tree) return null;
+
+    const cuts: Cut[] = [];
+    const visit = (node: any) => {
+        const body = FUNCTION_NODE_TYPES.has(node.type) ? node.childForFieldName('body') : null;
+        const cut = body ? cutBody(node, body, language) : null;
+        if (cut) {
+            // Functions nested in the body go with it
+            cuts.push(cut);
+            return;
+        }
+        for (const child of node.children) {
+            visit(child);
+        }
+    };
+    visit(tree.rootNode);
+
+    let stub = '';
+    let position = 0;
+    for (const cut of cuts) {
+        stub += content.slice(position, cut.start) + cut.text;
+        position = cut.end;
+    }
+    return stub + content.slice(position);
+}
@@ -0,0 +1,16 @@
+/**
+ * Tokenizer Worker
+ * Worker entry for TokenizerPool: counts tokens off the main thread
+ */
+import { countTokens, loadTokenizer } from './tokenizer';
+
+declare const self: Worker;
+
+self.onmessage = async (event: MessageEvent<{ id: number; content: string; tokenizer: string }>) => {
+    const { id, content, tokenizer } = event.data;
+    try {
+        self.postMessage({ id, tokenInfo: countTokens(content, await loadTokenizer(tokenizer)) });
+    } catch (err) {
+        self.postMessage({ id, error: err instanceof Error ? err.message : String(err) });
+    }
+};
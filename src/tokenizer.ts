@@ -1,37 +1,100 @@
 /**
  * Token Counter Module
- * Precise token counting using gpt-tokenizer
+ * Precise token counting with pluggable tokenizers (o200k, cl100k, calibrated approximations)
  */
-import { encode, encodeChat } from 'gpt-tokenizer';
+import { encode } from 'gpt-tokenizer';
 
 export interface TokenInfo {
     chars: number;
     lines: number;
     tokens: number;
+    /** Tokenizer that produced the count (default: TOKENIZER_ID) */
+    tokenizer?: string;
+}
+
+export interface Tokenizer {
+    id: string;
+    count: (content: string) => number;
 }
 
 /**
- * Model token limits
+ * Default tokenizer; part of every persisted token count's cache key
  */
-export const MODEL_LIMITS: Record<string, number> = {
-    'gpt-4o': 128000,
-    'gpt-4-turbo': 128000,
-    'gpt-4': 8192,
-    'gpt-3.5-turbo': 16385,
-    'claude-3-opus': 200000,
-    'claude-3-sonnet': 200000,
-    'claude-3-haiku': 200000,
+export const TOKENIZER_ID = 'o200k_base';
+
+/**
+ * Claude's tokenizer is not public; its counts run about 10% above cl100k on source code
+ */
+const CLAUDE_CL100K_RATIO = 1.1;
+
+/** Encodings are loaded on first use; cl100k alone takes a few hundred ms to import */
+const TOKENIZER_LOADERS: Record<string, () => Promise<(content: string) => number>> = {
+    'o200k_base': async () => content => encode(content).length,
+    'cl100k_base': async () => {
+        const { encode: encodeCl100k } = await import('gpt-tokenizer/encoding/cl100k_base');
+        return content => encodeCl100k(content).length;
+    },
+    'claude-approx': async () => {
+        const base = await loadTokenizer('cl100k_base');
+        return content => Math.ceil(base.count(content) * CLAUDE_CL100K_RATIO);
+    },
 };
 
+const loadedTokenizers = new Map<string, Tokenizer>([
+    [TOKENIZER_ID, { id: TOKENIZER_ID, count: content => encode(content).length }],
+]);
+
+/**
+ * Tokenizer ids available to loadTokenizer
+ */
+export function getTokenizerIds(): string[] {
+    return Object.keys(TOKENIZER_LOADERS);
+}
+
+/**
+ * Load a tokenizer by id (lazy, once)
+ */
+export async function loadTokenizer(id: string): Promise<Tokenizer> {
+    const loaded = loadedTokenizers.get(id);
+    if (loaded) return loaded;
+
+    const loader = TOKENIZER_LOADERS[id];
+    if (!loader) {
+        throw new Error(`Unknown tokenizer "${id}" (available: ${getTokenizerIds().join(', ')})`);
+    }
+
+    const tokenizer: Tokenizer = { id, count: await loader() };
+    loadedTokenizers.set(id, tokenizer);
+    return tokenizer;
+}
+
 /**
- * Count tokens precisely using gpt-tokenizer
+ * Default tokenizer, always available without loading
  */
-export function countTokens(content: string): TokenInfo {
+export function getDefaultTokenizer(): Tokenizer {
+    return loadedTokenizers.get(TOKENIZER_ID)!;
+}
+
+/**
+ * Count tokens precisely (default: o200k_base)
+ */
+export function countTokens(content: string, tokenizer: Tokenizer = getDefaultTokenizer()): TokenInfo {
     const chars = content.length;
     const lines = content.split('\n').length;
-    const tokens = encode(content).length;
+    const tokens = tokenizer.count(content);
+
+    return { chars, lines, tokens, tokenizer: tokenizer.id };
+}
 
-    return { chars, lines, tokens };
+/**
+ * Token count of a result under `tokenizer`, recounting only when it was counted by another one
+ */
+export function getTokenCount(
+    result: { content: string; tokenInfo: TokenInfo },
+    tokenizer?: Tokenizer
+): number {
+    if (!tokenizer || (result.tokenInfo.tokenizer ?? TOKENIZER_ID) === tokenizer.id) return result.tokenInfo.tokens;
+    return tokenizer.count(result.content);
 }
 
 /**
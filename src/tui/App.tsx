@@ -5,9 +5,12 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { render, Box, Text, useInput, useApp } from 'ink';
 import TextInput from 'ink-text-input';
-import { scan, type ScanResult } from '../scanner';
+import { scanWithReport, type ScanOptions, type ScanResult } from '../scanner';
 import { format } from '../formatter';
-import { formatTokens, getTokenColor } from '../tokenizer';
+import { parseSymbols, getQualifiedName, isSymbolLanguage, type CodeSymbol } from '../parser';
+import { formatTokens, getTokenColor, TOKENIZER_ID, type Tokenizer } from '../tokenizer';
+import { saveContextSet, updateSelection, type ContextSet } from '../sets';
+import { redactResults, getRedactionSummary, type RedactOptions, type RedactionFinding } from '../redact';
 import { t } from '../i18n';
 import clipboard from 'clipboardy';
 import { highlight } from 'cardinal';
@@ -30,16 +33,53 @@ import {
     getSelectedStats,
     getDirStats,
     isNodeSelected,
+    selectPaths,
+    getSelectedPaths,
 } from './tree-utils';
 
 // Fixed viewport height to ensure consistency across panes and fit standard terminals
 const VIEWPORT_HEIGHT = 20;
 
 interface AppProps {
-    cwd: string;
-    patterns: string[];
-    ignore: string[];
-    onComplete: (output: string) => void;
+    scanOptions: ScanOptions;
+    /** Set the selection was loaded from; saving defaults to its name and keeps its options */
+    contextSet?: ContextSet;
+    /** Files selected when the tree first loads */
+    selectedPaths?: string[];
+    /** Secret redaction applied to the output, or false to disable it */
+    redact: RedactOptions | false;
+    /** Refuse to emit the selection when redaction finds secrets */
+    strict?: boolean;
+    /** Input token limit of the target model, used to color the token count */
+    tokenLimit?: number;
+    onComplete: (output: string, findings: RedactionFinding[]) => void;
+    onError: (err: Error) => void;
+}
+
+/**
+ * Format the confirmed selection with secrets redacted; strict mode fails listing every finding instead
+ */
+export function formatSelection(
+    results: ScanResult[],
+    redact: RedactOptions | false,
+    strict = false,
+    tokenizer?: Tokenizer
+): { output: string; findings: RedactionFinding[] } {
+    let findings: RedactionFinding[] = [];
+    if (redact) {
+        const redaction = redactResults(results, redact, tokenizer);
+        findings = redaction.findings;
+
+        if (strict && findings.length > 0) {
+            throw new Error([
+                t('cli.redaction_strict', findings.length, getRedactionSummary(findings)),
+                ...findings.map(finding => `${finding.path}:${finding.line} (${finding.rule})`),
+            ].join('\n  '));
+        }
+        results = redaction.results;
+    }
+
+    return { output: format(results, { format: 'markdown', includeTree: true }), findings };
 }
 
 /**
@@ -151,13 +191,14 @@ function TreeItem({ node, depth, isActive, filter, showDirStats }: {
  * Code Preview Component with Line Numbers, Highlighting and Scrolling
  * Optimized: Renders as two text blocks (gutter + content) to prevent layout issues
  */
-function CodePreview({ content, path, language, isSelected, offset, height }: {
+function CodePreview({ content, path, language, isSelected, offset, height, symbols }: {
     content: string,
     path: string,
     language: string,
     isSelected: boolean,
     offset: number,
-    height: number
+    height: number,
+    symbols: CodeSymbol[]
 }) {
     
     const highlightedContent = useMemo(() => {
@@ -206,6 +247,13 @@ function CodePreview({ content, path, language, isSelected, offset, height }: {
                 </Box>
              </Box>
              
+             {/* Symbols, by qualified name */}
+             {symbols.length > 0 && (
+                 <Box height={1}>
+                    <Text color="gray" wrap="truncate-end">{symbols.map(getQualifiedName).join(' · ')}</Text>
+                 </Box>
+             )}
+
              {/* Content Area */}
              <Box flexDirection="column" marginTop={0} height={height}>
                  {hasMoreAbove && (
@@ -242,7 +290,7 @@ function CodePreview({ content, path, language, isSelected, offset, height }: {
 /**
  * Main App Component
  */
-function App({ cwd, patterns, ignore, onComplete }: AppProps) {
+function App({ scanOptions, contextSet, selectedPaths, redact, strict, tokenLimit, onComplete, onError }: AppProps) {
     const { exit } = useApp();
     const [loading, setLoading] = useState(true);
     const [tree, setTree] = useState<FileNode[]>([]);
@@ -250,18 +298,53 @@ function App({ cwd, patterns, ignore, onComplete }: AppProps) {
     const [filter, setFilter] = useState('');
     const [isSearching, setIsSearching] = useState(false);
     const [results, setResults] = useState<ScanResult[]>([]);
+    const [skippedCount, setSkippedCount] = useState(0);
     const [showDirStats, setShowDirStats] = useState(true);
     const [lastKey, setLastKey] = useState('');
     const [previewOffset, setPreviewOffset] = useState(0);
+    const [isSaving, setIsSaving] = useState(false);
+    const [setName, setSetName] = useState(contextSet?.name ?? '');
+    const [notice, setNotice] = useState('');
 
     // Load files
     useEffect(() => {
-        scan({ cwd, patterns, ignore }).then(scanResults => {
-            setResults(scanResults);
-            setTree(buildFileTree(scanResults));
+        scanWithReport(scanOptions).then(report => {
+            const fileTree = buildFileTree(report.results);
+            if (selectedPaths) {
+                const missing = selectPaths(fileTree, selectedPaths);
+                if (missing.length > 0) setNotice(t('tui.set_missing', missing.length));
+            }
+
+            setResults(report.results);
+            setSkippedCount(report.skipped.length);
+            setTree(fileTree);
+            setLoading(false);
+            scanOptions.cache?.save().catch(err => {
+                setNotice(t('tui.cache_save_failed', err instanceof Error ? err.message : String(err)));
+            });
+        }).catch(err => {
+            setNotice(t('tui.scan_failed', err instanceof Error ? err.message : String(err)));
             setLoading(false);
         });
-    }, [cwd, patterns, ignore]);
+    }, [scanOptions]);
+
+    // Save the current checkbox state as a context set
+    const saveSelection = async () => {
+        setIsSaving(false);
+        const name = setName.trim();
+        if (!name) return;
+
+        try {
+            await saveContextSet(scanOptions.cwd, {
+                name,
+                ...updateSelection(contextSet, getSelectedPaths(tree), results.map(r => r.path)),
+                options: contextSet?.options ?? {},
+            });
+            setNotice(t('tui.set_saved', name));
+        } catch (err) {
+            setNotice(err instanceof Error ? err.message : String(err));
+        }
+    };
 
     // Flatten and filter tree
     const flatList = useMemo(() => {
@@ -277,6 +360,24 @@ function App({ cwd, patterns, ignore, onComplete }: AppProps) {
         setPreviewOffset(0);
     }, [cursor]);
 
+    // Parse the previewed file's symbols (cached like the CLI's)
+    const [previewSymbols, setPreviewSymbols] = useState<CodeSymbol[]>([]);
+    const previewResult = flatList[cursor]?.node.result;
+    useEffect(() => {
+        setPreviewSymbols([]);
+        if (!previewResult || !isSymbolLanguage(previewResult.language)) return;
+
+        let cancelled = false;
+        const cached = scanOptions.cache?.getSymbols(previewResult.path, previewResult.content);
+        (cached ? Promise.resolve(cached) : parseSymbols(previewResult.content, previewResult.language)).then(symbols => {
+            if (!cancelled) setPreviewSymbols(symbols);
+        }).catch(() => {
+            // A file the parser cannot handle is previewed without symbols
+            if (!cancelled) setPreviewSymbols([]);
+        });
+        return () => { cancelled = true; };
+    }, [previewResult]);
+
     // Calculate selected stats using tree-utils
     const { selectedCount, totalTokens } = useMemo(() => {
         const stats = getSelectedStats(tree);
@@ -305,6 +406,12 @@ function App({ cwd, patterns, ignore, onComplete }: AppProps) {
 
     // Handle keyboard input
     useInput((input, key) => {
+        if (isSaving) {
+            if (key.escape) setIsSaving(false);
+            else if (key.return) saveSelection();
+            return;
+        }
+
         if (isSearching) {
             if (key.escape || key.return) {
                 setIsSearching(false);
@@ -317,6 +424,11 @@ function App({ cwd, patterns, ignore, onComplete }: AppProps) {
             return;
         }
 
+        if (input === 'S') {
+            setIsSaving(true);
+            return;
+        }
+
         if (input === 'q' || key.escape) {
             exit();
             return;
@@ -423,8 +535,12 @@ function App({ cwd, patterns, ignore, onComplete }: AppProps) {
         // Confirm
         if ((input === 'Z' && lastKey === 'Z') || input === 'c') {
             const selectedResults = results.filter(r => isNodeSelected(tree, r.path));
-            const output = format(selectedResults, { format: 'markdown', includeTree: true });
-            onComplete(output);
+            try {
+                const { output, findings } = formatSelection(selectedResults, redact, strict, scanOptions.tokenizer);
+                onComplete(output, findings);
+            } catch (err) {
+                onError(err instanceof Error ? err : new Error(String(err)));
+            }
             exit();
             return;
         }
@@ -517,6 +633,7 @@ function App({ cwd, patterns, ignore, onComplete }: AppProps) {
                             isSelected={previewNode.selected}
                             offset={previewOffset}
                             height={VIEWPORT_HEIGHT + 4} // Slightly taller to match tree + header/footer
+                            symbols={previewSymbols}
                         />
                     ) : (
                         <Box flexDirection="column" justifyContent="center" alignItems="center" height="100%">
@@ -544,13 +661,35 @@ function App({ cwd, patterns, ignore, onComplete }: AppProps) {
                     </Text>
                     <Text> │ </Text>
                     <Text>
-                        Tokens: <Text bold color={getTokenColor(totalTokens)}>{formatTokens(totalTokens)}</Text>
+                        Tokens: <Text bold color={getTokenColor(totalTokens, tokenLimit)}>{formatTokens(totalTokens)}</Text>
+                        <Text color="gray"> ({scanOptions.tokenizer?.id ?? TOKENIZER_ID})</Text>
                     </Text>
+                    {skippedCount > 0 && (
+                        <>
+                            <Text> │ </Text>
+                            <Text>
+                                {t('tui.skipped')} <Text color="yellow">{skippedCount}</Text>
+                            </Text>
+                        </>
+                    )}
+                    {notice && (
+                        <>
+                            <Text> │ </Text>
+                            <Text color="yellow">{notice}</Text>
+                        </>
+                    )}
                 </Box>
                 <Box>
-                     <Text color="gray" dimColor>
-                         {t('tui.help.nav')}
-                     </Text>
+                    {isSaving ? (
+                        <>
+                            <Text color="cyan">{t('tui.save_prompt')} </Text>
+                            <TextInput value={setName} onChange={setSetName} />
+                        </>
+                    ) : (
+                        <Text color="gray" dimColor>
+                            {t('tui.help.nav')}
+                        </Text>
+                    )}
                 </Box>
             </Box>
         </Box>
@@ -560,20 +699,31 @@ function App({ cwd, patterns, ignore, onComplete }: AppProps) {
 /**
  * Launch TUI
  */
-export async function launchTUI(options: {
-    cwd: string;
-    patterns: string[];
-    ignore: string[];
+export async function launchTUI(options: ScanOptions & {
     copyToClipboard?: boolean;
+    contextSet?: ContextSet;
+    selectedPaths?: string[];
+    redact?: RedactOptions | false;
+    strict?: boolean;
+    tokenLimit?: number;
 }): Promise<string> {
-    return new Promise((resolve) => {
+    const { copyToClipboard, contextSet, selectedPaths, redact = {}, strict, tokenLimit, ...scanOptions } = options;
+
+    return new Promise((resolve, reject) => {
         const { waitUntilExit } = render(
             <App
-                cwd={options.cwd}
-                patterns={options.patterns}
-                ignore={options.ignore}
-                onComplete={async (output) => {
-                    if (options.copyToClipboard) {
+                scanOptions={scanOptions}
+                contextSet={contextSet}
+                selectedPaths={selectedPaths}
+                redact={redact}
+                strict={strict}
+                tokenLimit={tokenLimit}
+                onError={reject}
+                onComplete={async (output, findings) => {
+                    if (findings.length > 0) {
+                        console.log(`\n${t('cli.redacted', findings.length, getRedactionSummary(findings))}`);
+                    }
+                    if (copyToClipboard) {
                         await clipboard.write(output);
                         console.log(`\n${t('tui.copied')}`);
                     }
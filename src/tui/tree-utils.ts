@@ -119,6 +119,29 @@ export function invertSelection(nodes: FileNode[]): void {
     });
 }
 
+/**
+ * Select the files with the given paths, returning the paths not found in the tree
+ */
+export function selectPaths(nodes: FileNode[], paths: string[]): string[] {
+    return paths.filter(path => !findAndApply(nodes, path, node => {
+        node.selected = true;
+        if (node.isDir && node.children) {
+            setChildrenSelected(node.children, true);
+        }
+    }));
+}
+
+/**
+ * Collect the paths of all selected files
+ */
+export function getSelectedPaths(nodes: FileNode[]): string[] {
+    const paths: string[] = [];
+    traverseTree(nodes, node => {
+        if (node.selected && !node.isDir) paths.push(node.path);
+    });
+    return paths;
+}
+
 // ============ Directory Expansion Operations ============
 
 /**